@@ -3,14 +3,40 @@
 import { useEffect, useState } from 'react'
 import SyncControl from '../components/sync/SyncControl'
 import CustomerList from '../components/customers/CustomerList'
+import InspectionScreen from '../components/inspections/InspectionScreen'
+import InspectionList from '../components/inspections/InspectionList'
+import InspectionDetail from '../components/inspections/InspectionDetail'
+import DoorList from '../components/doors/DoorList'
+import DoorDetail from '../components/doors/DoorDetail'
+import DoorForm from '../components/doors/DoorForm'
+import DoorLabelSheet from '../components/doors/DoorLabelSheet'
+import DoorScanner from '../components/scan/DoorScanner'
+import PlanList from '../components/plans/PlanList'
+import PlanViewer from '../components/plans/PlanViewer'
+import VisitSignOff from '../components/signatures/VisitSignOff'
+import ReportScreen from '../components/reports/ReportScreen'
+import GlobalSearch from '../components/search/GlobalSearch'
 import { useSyncStatus, useOfflineStats } from '../hooks/useOfflineData'
+import { registerPeriodicOutboxSync } from '../lib/pwa/backgroundSync'
+import { findDoorByCode, parseDoorCode, type ScannedDoorCode } from '../lib/scan/doorCodes'
 import type { Customer, Door } from '../lib/db/offlineDB'
 
+type View =
+  | 'home' | 'sync' | 'customers' | 'doors' | 'door' | 'newDoor' | 'editDoor' | 'labels' | 'scan'
+  | 'inspection' | 'inspections' | 'inspectionDetail' | 'plans' | 'plan' | 'signOff' | 'reports'
+
 export default function Home() {
   const [isInstalled, setIsInstalled] = useState(false)
-  const [currentView, setCurrentView] = useState<'home' | 'sync' | 'customers'>('home')
+  const [currentView, setCurrentView] = useState<View>('home')
+  const [viewHistory, setViewHistory] = useState<View[]>([])
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null)
   const [selectedDoor, setSelectedDoor] = useState<Door | null>(null)
+  const [startNewInspection, setStartNewInspection] = useState(false)
+  const [selectedInspectionId, setSelectedInspectionId] = useState<string | null>(null)
+  const [doorFilter, setDoorFilter] = useState<{ customerId?: string; siteId?: string }>({})
+  const [newDoorCode, setNewDoorCode] = useState<ScannedDoorCode | null>(null)
+  const [planFilter, setPlanFilter] = useState<{ siteId?: string; placingDoorId?: string }>({})
+  const [selectedPlan, setSelectedPlan] = useState<{ planId: string; highlightDoorId?: string; placingDoorId?: string } | null>(null)
   
   const { isOnline, pendingUploads } = useSyncStatus()
   const { stats } = useOfflineStats()
@@ -20,12 +46,43 @@ export default function Home() {
     const checkInstallation = () => {
       if (window.matchMedia && window.matchMedia('(display-mode: standalone)').matches) {
         setIsInstalled(true)
+        // Periodic Sync gibt es nur für installierte PWAs
+        registerPeriodicOutboxSync()
       }
     }
     
     checkInstallation()
   }, [])
 
+  // Etikett mit der normalen Kamera-App gescannt: ?door=<id> direkt öffnen
+  useEffect(() => {
+    const code = parseDoorCode(window.location.href)
+    if (!code || code.kind !== 'id') return
+
+    window.history.replaceState(null, '', window.location.pathname)
+    findDoorByCode(code)
+      .then((door) => {
+        if (door) {
+          setSelectedDoor(door)
+          setCurrentView('door')
+        } else {
+          setNewDoorCode(code)
+          setCurrentView('newDoor')
+        }
+      })
+      .catch((error) => console.error('Failed to open scanned door:', error))
+  }, [])
+
+  const navigateTo = (view: View) => {
+    setViewHistory(prev => [...prev, currentView])
+    setCurrentView(view)
+  }
+
+  const navigateBack = () => {
+    setCurrentView(viewHistory[viewHistory.length - 1] || 'home')
+    setViewHistory(prev => prev.slice(0, -1))
+  }
+
   const renderCurrentView = () => {
     switch (currentView) {
       case 'sync':
@@ -35,9 +92,177 @@ export default function Home() {
         return (
           <CustomerList 
             onCustomerSelect={(customer) => setSelectedCustomer(customer)}
-            onDoorSelect={(door) => setSelectedDoor(door)}
+            onDoorSelect={(door) => {
+              setSelectedDoor(door)
+              setStartNewInspection(false)
+              navigateTo('inspection')
+            }}
+          />
+        )
+
+      case 'doors':
+        return (
+          <>
+            <div className="flex gap-3 mb-4">
+              <button
+                className="touch-button flex-1 bg-gray-100 text-gray-700 hover:bg-gray-200"
+                onClick={() => {
+                  setNewDoorCode(null)
+                  navigateTo('newDoor')
+                }}
+              >
+                ➕ Neue Tür
+              </button>
+              <button
+                className="touch-button flex-1 bg-gray-100 text-gray-700 hover:bg-gray-200"
+                onClick={() => navigateTo('labels')}
+              >
+                🏷️ Etiketten drucken
+              </button>
+            </div>
+            <DoorList
+              key={`${doorFilter.customerId || ''}-${doorFilter.siteId || ''}`}
+              initialCustomerId={doorFilter.customerId}
+              initialSiteId={doorFilter.siteId}
+              onDoorSelect={(door) => {
+                setSelectedDoor(door)
+                navigateTo('door')
+              }}
+            />
+          </>
+        )
+
+      case 'scan':
+        return (
+          <DoorScanner
+            onDoorFound={(door) => {
+              setSelectedDoor(door)
+              navigateTo('door')
+            }}
+            onCreateDoor={(code) => {
+              setNewDoorCode(code)
+              navigateTo('newDoor')
+            }}
+          />
+        )
+
+      case 'newDoor':
+        return (
+          <DoorForm
+            doorId={newDoorCode?.kind === 'id' ? newDoorCode.doorId : undefined}
+            initialDoorNumber={newDoorCode?.kind === 'text' ? newDoorCode.text : undefined}
+            initialCustomerId={doorFilter.customerId}
+            onSaved={(door) => {
+              setNewDoorCode(null)
+              setSelectedDoor(door)
+              setCurrentView('door')
+            }}
+            onCancel={navigateBack}
+          />
+        )
+
+      case 'editDoor':
+        return selectedDoor ? (
+          <DoorForm
+            key={selectedDoor.id}
+            door={selectedDoor}
+            onSaved={(door) => {
+              setSelectedDoor(door)
+              navigateBack()
+            }}
+            onCancel={navigateBack}
+          />
+        ) : null
+
+      case 'labels':
+        return <DoorLabelSheet initialCustomerId={doorFilter.customerId} />
+
+      case 'door':
+        return selectedDoor ? (
+          <DoorDetail
+            door={selectedDoor}
+            onStartInspection={() => {
+              setStartNewInspection(true)
+              navigateTo('inspection')
+            }}
+            onEdit={(door) => {
+              setSelectedDoor(door)
+              navigateTo('editDoor')
+            }}
+            onShowOnPlan={(door) => {
+              if (door.plan_id) {
+                setSelectedPlan({ planId: door.plan_id, highlightDoorId: door.id })
+                navigateTo('plan')
+              } else {
+                // Noch nicht platziert: Plan des Standorts wählen, dann Pin setzen
+                setPlanFilter({ siteId: door.site_id, placingDoorId: door.id })
+                navigateTo('plans')
+              }
+            }}
+          />
+        ) : null
+
+      case 'signOff':
+        return <VisitSignOff initialCustomerId={selectedCustomer?.id} />
+
+      case 'reports':
+        return <ReportScreen initialCustomerId={selectedCustomer?.id} />
+
+      case 'plans':
+        return (
+          <PlanList
+            key={planFilter.siteId || 'all'}
+            siteId={planFilter.siteId}
+            onPlanSelect={(plan) => {
+              setSelectedPlan({ planId: plan.id, placingDoorId: planFilter.placingDoorId })
+              navigateTo('plan')
+            }}
           />
         )
+
+      case 'plan':
+        return selectedPlan ? (
+          <PlanViewer
+            key={selectedPlan.planId}
+            planId={selectedPlan.planId}
+            highlightDoorId={selectedPlan.highlightDoorId}
+            initialPlacingDoorId={selectedPlan.placingDoorId}
+            onDoorSelect={(door) => {
+              setSelectedDoor(door)
+              navigateTo('door')
+            }}
+          />
+        ) : null
+
+      case 'inspections':
+        return (
+          <InspectionList
+            onInspectionSelect={(inspection) => {
+              setSelectedInspectionId(inspection.id)
+              navigateTo('inspectionDetail')
+            }}
+            onDoorSelect={(door) => {
+              setSelectedDoor(door)
+              navigateTo('door')
+            }}
+          />
+        )
+
+      case 'inspectionDetail':
+        return selectedInspectionId ? (
+          <InspectionDetail
+            inspectionId={selectedInspectionId}
+            onDoorSelect={(door) => {
+              setSelectedDoor(door)
+              navigateTo('door')
+            }}
+          />
+        ) : null
+
+      case 'inspection':
+        return selectedDoor ? (
+          <InspectionScreen key={selectedDoor.id} door={selectedDoor} startNew={startNewInspection} />
+        ) : null
       
       default:
         return (
@@ -103,14 +328,21 @@ export default function Home() {
             <div className="space-y-4">
               <button 
                 className="touch-button w-full bg-primary text-primary-foreground hover:bg-primary/90"
-                onClick={() => setCurrentView('sync')}
+                onClick={() => navigateTo('sync')}
               >
                 🔄 Synchronisation
               </button>
               
               <button 
                 className="touch-button w-full bg-secondary text-secondary-foreground hover:bg-secondary/80"
-                onClick={() => setCurrentView('customers')}
+                onClick={() => navigateTo('scan')}
+              >
+                📷 Tür scannen
+              </button>
+
+              <button 
+                className="touch-button w-full bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                onClick={() => navigateTo('customers')}
                 disabled={stats.customers === 0}
               >
                 👥 Kunden ({stats.customers})
@@ -118,7 +350,10 @@ export default function Home() {
               
               <button 
                 className="touch-button w-full bg-secondary text-secondary-foreground hover:bg-secondary/80"
-                onClick={() => alert('Türen-Navigation wird implementiert')}
+                onClick={() => {
+                  setDoorFilter({})
+                  navigateTo('doors')
+                }}
                 disabled={stats.doors === 0}
               >
                 🚪 Türen ({stats.doors})
@@ -126,11 +361,38 @@ export default function Home() {
               
               <button 
                 className="touch-button w-full bg-secondary text-secondary-foreground hover:bg-secondary/80"
-                onClick={() => alert('Prüfungen-Navigation wird implementiert')}
+                onClick={() => navigateTo('inspections')}
                 disabled={stats.inspections === 0}
               >
                 📋 Prüfungen ({stats.inspections})
               </button>
+
+              <button 
+                className="touch-button w-full bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                onClick={() => {
+                  setPlanFilter({})
+                  navigateTo('plans')
+                }}
+                disabled={stats.plans === 0}
+              >
+                🗺️ Gebäudepläne ({stats.plans})
+              </button>
+
+              <button 
+                className="touch-button w-full bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                onClick={() => navigateTo('signOff')}
+                disabled={stats.inspections === 0}
+              >
+                ✍️ Abnahme durch Kunden
+              </button>
+
+              <button 
+                className="touch-button w-full bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                onClick={() => navigateTo('reports')}
+                disabled={stats.inspections === 0}
+              >
+                📄 Prüfberichte
+              </button>
             </div>
 
             {/* 🔧 PHASE 2 STATUS */}
@@ -158,7 +420,7 @@ export default function Home() {
         <div className="bg-white border-b border-gray-200 p-4 sticky top-0 z-20">
           <div className="flex items-center gap-4">
             <button
-              onClick={() => setCurrentView('home')}
+              onClick={navigateBack}
               className="touch-button bg-gray-100 text-gray-700 hover:bg-gray-200 px-4 py-2"
             >
               ← Zurück
@@ -166,6 +428,19 @@ export default function Home() {
             <h1 className="text-touch-lg font-semibold">
               {currentView === 'sync' && '🔄 Synchronisation'}
               {currentView === 'customers' && '👥 Kunden'}
+              {currentView === 'doors' && '🚪 Türen'}
+              {currentView === 'door' && '🚪 Tür'}
+              {currentView === 'newDoor' && '🚪 Neue Tür'}
+              {currentView === 'editDoor' && '✏️ Tür bearbeiten'}
+              {currentView === 'labels' && '🏷️ Türetiketten'}
+              {currentView === 'scan' && '📷 Tür scannen'}
+              {currentView === 'inspection' && '📋 Prüfung'}
+              {currentView === 'inspections' && '📋 Prüfungen'}
+              {currentView === 'inspectionDetail' && '📋 Prüfung'}
+              {currentView === 'plans' && '🗺️ Gebäudepläne'}
+              {currentView === 'plan' && '🗺️ Plan'}
+              {currentView === 'signOff' && '✍️ Abnahme'}
+              {currentView === 'reports' && '📄 Prüfberichte'}
             </h1>
           </div>
         </div>
@@ -173,11 +448,31 @@ export default function Home() {
 
       {/* Main Content */}
       <div className="max-w-4xl mx-auto p-6">
+        {/* 🔍 GLOBALE OFFLINE-SUCHE */}
+        {currentView !== 'inspection' && currentView !== 'newDoor' && currentView !== 'editDoor' && currentView !== 'scan' && currentView !== 'plan' && currentView !== 'signOff' && currentView !== 'reports' && stats.customers > 0 && (
+          <GlobalSearch
+            className="mb-6"
+            onCustomerSelect={(customer) => {
+              setSelectedCustomer(customer)
+              setDoorFilter({ customerId: customer.id })
+              navigateTo('doors')
+            }}
+            onSiteSelect={(site) => {
+              setDoorFilter({ customerId: site.customer_id, siteId: site.id })
+              navigateTo('doors')
+            }}
+            onDoorSelect={(door) => {
+              setSelectedDoor(door)
+              navigateTo('door')
+            }}
+          />
+        )}
+
         {renderCurrentView()}
       </div>
 
       {/* Selected Items Debug Info (Development only) */}
-      {(selectedCustomer || selectedDoor) && (
+      {(currentView === 'home' || currentView === 'customers') && (selectedCustomer || selectedDoor) && (
         <div className="fixed bottom-4 left-4 right-4 bg-white border border-gray-300 rounded-lg p-4 shadow-lg">
           <div className="text-touch-sm">
             {selectedCustomer && (
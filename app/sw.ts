@@ -0,0 +1,57 @@
+// 🔧 InspecDoor Service Worker - App-Shell offline, Outbox im Hintergrund
+// Wird von @serwist/next nach public/sw.js gebaut (siehe next.config.js)
+
+import { defaultCache } from '@serwist/next/worker';
+import { Serwist, type PrecacheEntry, type SerwistGlobalConfig } from 'serwist';
+import { outboxUploader } from '../lib/db/outboxUpload';
+import { OUTBOX_SYNC_TAG } from '../lib/pwa/backgroundSync';
+import { DOOR_CODE_PARAM } from '../lib/scan/doorCodes';
+
+declare global {
+  interface WorkerGlobalScope extends SerwistGlobalConfig {
+    __SW_MANIFEST: (PrecacheEntry | string)[] | undefined;
+  }
+}
+
+declare const self: ServiceWorkerGlobalScope;
+
+// 'sync' und 'periodicsync' liefern beide ein ExtendableEvent mit Tag
+interface TaggedSyncEvent extends ExtendableEvent {
+  readonly tag: string;
+}
+
+const serwist = new Serwist({
+  precacheEntries: self.__SW_MANIFEST,
+  // Etiketten-URLs (/?door=<id>) aus der precachten App-Shell bedienen
+  precacheOptions: {
+    ignoreURLParametersMatching: [/^utm_/, /^fbclid$/, new RegExp(`^${DOOR_CODE_PARAM}$`)]
+  },
+  skipWaiting: true,
+  clientsClaim: true,
+  navigationPreload: true,
+  runtimeCaching: defaultCache,
+  fallbacks: {
+    entries: [
+      {
+        url: '/offline.html',
+        matcher: ({ request }) => request.destination === 'document'
+      }
+    ]
+  }
+});
+
+// ================================================================
+// OUTBOX - Upload sobald wieder Netz da ist, auch bei geschlossener PWA
+// ================================================================
+
+const handleOutboxSync = (event: Event) => {
+  const syncEvent = event as TaggedSyncEvent;
+  if (syncEvent.tag !== OUTBOX_SYNC_TAG) return;
+
+  syncEvent.waitUntil(outboxUploader.drainOutboxInBackground());
+};
+
+self.addEventListener('sync', handleOutboxSync);
+self.addEventListener('periodicsync', handleOutboxSync);
+
+serwist.addEventListeners();
@@ -1,10 +1,13 @@
 // 🔧 InspecDoor Customer List - Offline-optimiert für Tablets
-// Touch-friendly Customer Navigation
+// Touch-friendly Navigation: Kunde → Objekt/Lieferort → Gebäude/Etage → Tür
 
 'use client'
 
-import React, { useState } from 'react';
-import { useOfflineData } from '../../hooks/useOfflineData';
+import React, { useMemo, useState } from 'react';
+import { useOfflineData, usePlans } from '../../hooks/useOfflineData';
+import { buildDoorHierarchy, countOpenDefects, type HierarchyCounts } from '../../lib/db/doorHierarchy';
+import { getDoorSyncState, groupInspectionsByDoor } from '../../lib/db/doorStatus';
+import { DOOR_SYNC_LABELS, DOOR_SYNC_STYLES } from '../doors/doorLabels';
 import type { Customer, Door } from '../../lib/db/offlineDB';
 
 interface CustomerListProps {
@@ -13,38 +16,50 @@ interface CustomerListProps {
   className?: string;
 }
 
+interface BrowsePath {
+  customerId?: string;
+  siteKey?: string;
+  floorKey?: string;
+}
+
+function CountBadges({ counts }: { counts: HierarchyCounts }) {
+  return (
+    <div className="flex items-center gap-2 flex-shrink-0">
+      <span className="bg-blue-100 text-blue-800 text-touch-xs px-2 py-1 rounded-full">
+        {counts.doors} Türen
+      </span>
+      {counts.openDefects > 0 && (
+        <span className="bg-red-100 text-red-800 text-touch-xs px-2 py-1 rounded-full">
+          ⚠️ {counts.openDefects} Mängel
+        </span>
+      )}
+    </div>
+  );
+}
+
 export function CustomerList({ 
   onCustomerSelect, 
   onDoorSelect, 
   className = '' 
 }: CustomerListProps) {
-  const { customers, doors, isLoading, error, getDoorsByCustomer } = useOfflineData();
-  const [expandedCustomer, setExpandedCustomer] = useState<string | null>(null);
-  const [customerDoors, setCustomerDoors] = useState<{ [key: string]: Door[] }>({});
+  const { customers, deliveryLocations, sites, doors, inspections, isLoading, error } = useOfflineData();
+  const { plans } = usePlans(null);
+  const [path, setPath] = useState<BrowsePath>({});
 
-  const handleCustomerClick = async (customer: Customer) => {
-    onCustomerSelect?.(customer);
+  const inspectionsByDoor = useMemo(() => groupInspectionsByDoor(inspections), [inspections]);
+
+  const hierarchy = useMemo(() => buildDoorHierarchy({
+    customers, deliveryLocations, sites, doors, plans, inspectionsByDoor
+  }), [customers, deliveryLocations, sites, doors, plans, inspectionsByDoor]);
+
+  // Nach einem Download kann ein Knoten verschwunden sein - dann eine Ebene höher
+  const customerNode = hierarchy.find(node => node.customer.id === path.customerId);
+  const siteNode = customerNode?.sites.find(node => node.key === path.siteKey);
+  const floorNode = siteNode?.floors.find(node => node.key === path.floorKey);
 
-    // Toggle expansion
-    if (expandedCustomer === customer.id) {
-      setExpandedCustomer(null);
-      return;
-    }
-
-    setExpandedCustomer(customer.id);
-
-    // Load doors for this customer if not already loaded
-    if (!customerDoors[customer.id]) {
-      try {
-        const doors = await getDoorsByCustomer(customer.id);
-        setCustomerDoors(prev => ({
-          ...prev,
-          [customer.id]: doors
-        }));
-      } catch (error) {
-        console.error('Failed to load doors for customer:', customer.id, error);
-      }
-    }
+  const handleCustomerClick = (customer: Customer) => {
+    onCustomerSelect?.(customer);
+    setPath({ customerId: customer.id });
   };
 
   const handleDoorClick = (door: Door) => {
@@ -91,95 +106,179 @@ export function CustomerList({
     );
   }
 
+  const breadcrumb = [
+    { label: '👥 Kunden', path: {} },
+    customerNode && { label: customerNode.customer.name, path: { customerId: customerNode.customer.id } },
+    customerNode && siteNode && {
+      label: siteNode.site ? siteNode.site.site_name : 'Ohne Objekt',
+      path: { customerId: customerNode.customer.id, siteKey: siteNode.key }
+    },
+    customerNode && siteNode && floorNode && { label: floorNode.label, path }
+  ].filter((entry): entry is { label: string; path: BrowsePath } => !!entry);
+
   return (
     <div className={`customer-list ${className}`}>
-      {/* Header */}
-      <div className="bg-white border-b border-gray-200 p-4 sticky top-0 z-10">
+      {/* Header mit Pfad */}
+      <div className="bg-white border-b border-gray-200 p-4 sticky top-0 z-10 space-y-2">
         <h2 className="text-touch-lg font-semibold flex items-center gap-2">
-          👥 Kunden ({customers.length})
+          {floorNode ? `🏢 ${floorNode.label}`
+            : siteNode ? `📍 ${siteNode.site ? siteNode.site.site_name : 'Ohne Objekt'}`
+            : customerNode ? `👤 ${customerNode.customer.name}`
+            : `👥 Kunden (${customers.length})`}
         </h2>
+        {breadcrumb.length > 1 && (
+          <div className="flex flex-wrap items-center gap-1 text-touch-sm">
+            {breadcrumb.map((entry, index) => (
+              <React.Fragment key={index}>
+                {index > 0 && <span className="text-gray-400">›</span>}
+                <button
+                  onClick={() => setPath(entry.path)}
+                  disabled={index === breadcrumb.length - 1}
+                  className="text-blue-700 hover:underline disabled:text-gray-700 disabled:no-underline"
+                >
+                  {entry.label}
+                </button>
+              </React.Fragment>
+            ))}
+          </div>
+        )}
       </div>
 
-      {/* Customer List */}
       <div className="space-y-2 p-4">
-        {customers.map((customer) => (
-          <div key={customer.id} className="customer-item">
-            {/* Customer Header */}
+        {/* Ebene 1: Kunden */}
+        {!customerNode && hierarchy.map(({ customer, counts }) => (
+          <button
+            key={customer.id}
+            onClick={() => handleCustomerClick(customer)}
+            className="touch-button w-full bg-white border border-gray-200 hover:bg-gray-50 text-left"
+          >
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex-1">
+                <div className="text-touch-base font-medium text-gray-900">
+                  {customer.name}
+                </div>
+                {customer.contact_person && (
+                  <div className="text-touch-sm text-gray-600">
+                    {customer.contact_person}
+                  </div>
+                )}
+                {customer.phone && (
+                  <div className="text-touch-xs text-gray-500">
+                    📞 {customer.phone}
+                  </div>
+                )}
+              </div>
+              <CountBadges counts={counts} />
+            </div>
+          </button>
+        ))}
+
+        {/* Ebene 2: Objekte, gruppiert nach Lieferort */}
+        {customerNode && !siteNode && (
+          customerNode.sites.length > 0 ? customerNode.sites.map((node, index) => {
+            const previous = customerNode.sites[index - 1];
+            const showLocationHeading = !!node.deliveryLocation &&
+              (!previous || previous.deliveryLocation?.id !== node.deliveryLocation.id);
+
+            return (
+              <React.Fragment key={node.key}>
+                {showLocationHeading && node.deliveryLocation && (
+                  <div className="pt-2 text-touch-sm font-semibold text-gray-600">
+                    🚚 Lieferort: {node.deliveryLocation.location_name}
+                  </div>
+                )}
+                <button
+                  onClick={() => setPath({ customerId: customerNode.customer.id, siteKey: node.key })}
+                  className="touch-button w-full bg-white border border-gray-200 hover:bg-gray-50 text-left"
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex-1">
+                      <div className="text-touch-base font-medium text-gray-900">
+                        📍 {node.site ? node.site.site_name : 'Ohne Objekt'}
+                      </div>
+                      {node.site && (node.site.address || node.site.city) && (
+                        <div className="text-touch-xs text-gray-500">
+                          {[node.site.address, [node.site.postal_code, node.site.city].filter(Boolean).join(' ')].filter(Boolean).join(', ')}
+                        </div>
+                      )}
+                    </div>
+                    <CountBadges counts={node.counts} />
+                  </div>
+                </button>
+              </React.Fragment>
+            );
+          }) : (
+            <div className="text-touch-sm text-gray-500 p-3 bg-gray-50 rounded border">
+              Keine Objekte oder Türen verfügbar
+            </div>
+          )
+        )}
+
+        {/* Ebene 3: Gebäude & Etagen */}
+        {customerNode && siteNode && !floorNode && (
+          siteNode.floors.length > 0 ? siteNode.floors.map((node) => (
             <button
-              onClick={() => handleCustomerClick(customer)}
+              key={node.key}
+              onClick={() => setPath({ customerId: customerNode.customer.id, siteKey: siteNode.key, floorKey: node.key })}
               className="touch-button w-full bg-white border border-gray-200 hover:bg-gray-50 text-left"
+            >
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex-1 text-touch-base font-medium text-gray-900">
+                  🏢 {node.label}
+                </div>
+                <CountBadges counts={node.counts} />
+              </div>
+            </button>
+          )) : (
+            <div className="text-touch-sm text-gray-500 p-3 bg-gray-50 rounded border">
+              Keine Türen verfügbar
+            </div>
+          )
+        )}
+
+        {/* Ebene 4: Türen */}
+        {floorNode && floorNode.doors.map((door) => {
+          const openDefects = countOpenDefects(inspectionsByDoor[door.id] || []);
+          const syncState = getDoorSyncState(door);
+
+          return (
+            <button
+              key={door.id}
+              onClick={() => handleDoorClick(door)}
+              className="touch-button w-full bg-blue-50 border border-blue-200 hover:bg-blue-100 text-left"
             >
               <div className="flex items-center justify-between">
                 <div className="flex-1">
-                  <div className="text-touch-base font-medium text-gray-900">
-                    {customer.name}
+                  <div className="text-touch-sm font-medium text-blue-900">
+                    🚪 {door.door_number || 'Ohne Nummer'}
                   </div>
-                  {customer.contact_person && (
-                    <div className="text-touch-sm text-gray-600">
-                      {customer.contact_person}
-                    </div>
-                  )}
-                  {customer.phone && (
-                    <div className="text-touch-xs text-gray-500">
-                      📞 {customer.phone}
+                  <div className="text-touch-xs text-blue-700">
+                    📍 {door.location}
+                  </div>
+                  {door.door_type && (
+                    <div className="text-touch-xs text-blue-600">
+                      Typ: {door.door_type}
                     </div>
                   )}
                 </div>
-                
+
                 <div className="flex items-center gap-2">
-                  {/* Door count indicator */}
-                  <span className="bg-blue-100 text-blue-800 text-touch-xs px-2 py-1 rounded-full">
-                    {doors.filter(door => door.customer_id === customer.id).length} Türen
-                  </span>
-                  
-                  {/* Expand/Collapse indicator */}
-                  <div className={`transform transition-transform ${
-                    expandedCustomer === customer.id ? 'rotate-180' : ''
-                  }`}>
-                    ⌄
-                  </div>
+                  {syncState && (
+                    <span className={`text-touch-xs px-2 py-1 rounded-full ${DOOR_SYNC_STYLES[syncState]}`}>
+                      {DOOR_SYNC_LABELS[syncState]}
+                    </span>
+                  )}
+                  {openDefects > 0 && (
+                    <span className="bg-red-100 text-red-800 text-touch-xs px-2 py-1 rounded-full">
+                      ⚠️ {openDefects} Mängel
+                    </span>
+                  )}
+                  <div className="text-blue-600 text-touch-lg">→</div>
                 </div>
               </div>
             </button>
-
-            {/* Doors List (Expanded) */}
-            {expandedCustomer === customer.id && (
-              <div className="customer-doors mt-2 ml-4 space-y-1">
-                {customerDoors[customer.id]?.length > 0 ? (
-                  customerDoors[customer.id].map((door) => (
-                    <button
-                      key={door.id}
-                      onClick={() => handleDoorClick(door)}
-                      className="touch-button w-full bg-blue-50 border border-blue-200 hover:bg-blue-100 text-left"
-                    >
-                      <div className="flex items-center justify-between">
-                        <div className="flex-1">
-                          <div className="text-touch-sm font-medium text-blue-900">
-                            🚪 {door.door_number || 'Ohne Nummer'}
-                          </div>
-                          <div className="text-touch-xs text-blue-700">
-                            📍 {door.location}
-                          </div>
-                          {door.door_type && (
-                            <div className="text-touch-xs text-blue-600">
-                              Typ: {door.door_type}
-                            </div>
-                          )}
-                        </div>
-                        
-                        <div className="text-blue-600 text-touch-lg">→</div>
-                      </div>
-                    </button>
-                  ))
-                ) : (
-                  <div className="text-touch-sm text-gray-500 p-3 bg-gray-50 rounded border">
-                    Keine Türen verfügbar
-                  </div>
-                )}
-              </div>
-            )}
-          </div>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
@@ -0,0 +1,222 @@
+// 🔧 InspecDoor Door Detail - Stammdaten, Prüfhistorie und Fotos einer Tür
+// Von hier aus wird eine neue Prüfung gestartet
+
+'use client'
+
+import React, { useMemo, useState } from 'react';
+import { useOfflineData } from '../../hooks/useOfflineData';
+import { getDefects } from '../../lib/db/checklists';
+import {
+  getDoorSyncState,
+  getLastInspectionDate,
+  getNextInspectionDue,
+  isInspectionOverdue
+} from '../../lib/db/doorStatus';
+import PhotoCapture from '../photos/PhotoCapture';
+import { STATUS_LABELS, STATUS_STYLES, formatDate } from '../inspections/inspectionLabels';
+import { DOOR_SYNC_HINTS, DOOR_SYNC_LABELS, DOOR_SYNC_STYLES } from './doorLabels';
+import type { Door } from '../../lib/db/offlineDB';
+
+interface DoorDetailProps {
+  door: Door;
+  onStartInspection?: (door: Door) => void;
+  onShowOnPlan?: (door: Door) => void;
+  onEdit?: (door: Door) => void;
+  className?: string;
+}
+
+const formatDay = (isoString?: string | null): string =>
+  isoString ? new Date(isoString).toLocaleDateString('de-DE') : '–';
+
+export function DoorDetail({
+  door: initialDoor,
+  onStartInspection,
+  onShowOnPlan,
+  onEdit,
+  className = ''
+}: DoorDetailProps) {
+  const { customers, sites, doors, inspections } = useOfflineData();
+  const [openInspectionId, setOpenInspectionId] = useState<string | null>(null);
+
+  // Aktueller Stand aus der DB - Stammdaten oder Pin können seit dem Öffnen geändert sein
+  const door = doors.find(entry => entry.id === initialDoor.id) || initialDoor;
+
+  const history = useMemo(() =>
+    inspections
+      .filter(inspection => inspection.door_id === door.id)
+      .sort((a, b) => b.inspection_date.localeCompare(a.inspection_date)),
+  [inspections, door.id]);
+
+  const syncState = getDoorSyncState(door);
+  const customer = customers.find(entry => entry.id === door.customer_id);
+  const site = door.site_id ? sites.find(entry => entry.id === door.site_id) : undefined;
+  const nextDue = getNextInspectionDue(door, history);
+  const overdue = isInspectionOverdue(door, history);
+
+  return (
+    <div className={`door-detail space-y-6 ${className}`}>
+      {/* 🚪 DOOR MASTER DATA */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <h2 className="text-touch-lg font-semibold">
+            🚪 {door.door_number || 'Ohne Nummer'}
+          </h2>
+          <div className="flex flex-wrap justify-end gap-2">
+            {syncState && (
+              <span className={`text-touch-xs px-2 py-1 rounded-full ${DOOR_SYNC_STYLES[syncState]}`}>
+                {DOOR_SYNC_LABELS[syncState]}
+              </span>
+            )}
+            {overdue && (
+              <span className="text-touch-xs px-2 py-1 rounded-full bg-orange-100 text-orange-800">
+                ⏰ Prüfung überfällig
+              </span>
+            )}
+          </div>
+        </div>
+
+        {syncState && (
+          <div className={`mb-4 p-3 rounded-md text-touch-sm ${DOOR_SYNC_STYLES[syncState]}`}>
+            {DOOR_SYNC_HINTS[syncState]}
+          </div>
+        )}
+
+        <dl className="grid grid-cols-2 gap-x-6 gap-y-2 text-touch-sm">
+          <dt className="text-gray-500">Kunde</dt>
+          <dd className="text-gray-900">{customer?.name || '–'}</dd>
+          <dt className="text-gray-500">Objekt</dt>
+          <dd className="text-gray-900">{site?.site_name || '–'}</dd>
+          <dt className="text-gray-500">Standort</dt>
+          <dd className="text-gray-900">{door.location}</dd>
+          <dt className="text-gray-500">Typ</dt>
+          <dd className="text-gray-900">{door.door_type || '–'}</dd>
+          <dt className="text-gray-500">Hersteller</dt>
+          <dd className="text-gray-900">{door.manufacturer || '–'}</dd>
+          <dt className="text-gray-500">Modell</dt>
+          <dd className="text-gray-900">{door.model || '–'}</dd>
+          <dt className="text-gray-500">Baujahr</dt>
+          <dd className="text-gray-900">{door.year || '–'}</dd>
+          <dt className="text-gray-500">Letzte Prüfung</dt>
+          <dd className="text-gray-900">{formatDay(getLastInspectionDate(door, history))}</dd>
+          <dt className="text-gray-500">Nächste Prüfung</dt>
+          <dd className={overdue ? 'text-orange-700 font-medium' : 'text-gray-900'}>
+            {nextDue ? nextDue.toLocaleDateString('de-DE') : 'Sofort (nie geprüft)'}
+          </dd>
+          <dt className="text-gray-500">Angelegt</dt>
+          <dd className="text-gray-900">{formatDay(door.created_at)}</dd>
+          <dt className="text-gray-500">Geändert</dt>
+          <dd className="text-gray-900">{formatDay(door.updated_at)}</dd>
+        </dl>
+
+        {door.notes && (
+          <div className="mt-4 p-3 bg-gray-50 rounded-md text-touch-sm text-gray-700">
+            {door.notes}
+          </div>
+        )}
+
+        {onEdit && (
+          <button
+            onClick={() => onEdit(door)}
+            className="touch-button w-full mt-4 bg-gray-100 text-gray-700 hover:bg-gray-200"
+          >
+            ✏️ Stammdaten bearbeiten
+          </button>
+        )}
+      </div>
+
+      <button
+        onClick={() => onStartInspection?.(door)}
+        className="touch-button w-full bg-blue-600 text-white hover:bg-blue-700"
+      >
+        📋 Neue Prüfung starten
+      </button>
+
+      {onShowOnPlan && (
+        <button
+          onClick={() => onShowOnPlan(door)}
+          className="touch-button w-full bg-gray-100 text-gray-700 hover:bg-gray-200"
+        >
+          {door.plan_id ? '🗺️ Auf dem Plan zeigen' : '📍 Auf einem Plan platzieren'}
+        </button>
+      )}
+
+      {/* 🕓 INSPECTION HISTORY */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h3 className="text-touch-base font-semibold mb-3">🕓 Prüfhistorie ({history.length})</h3>
+
+        {history.length === 0 ? (
+          <div className="text-touch-sm text-gray-500 p-3 bg-gray-50 rounded border">
+            Noch keine Prüfungen vorhanden
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {history.map((inspection) => {
+              const defects = getDefects(inspection.checklist || []);
+              const isOpen = openInspectionId === inspection.id;
+
+              return (
+                <div key={inspection.id} className="border border-gray-200 rounded-md">
+                  <button
+                    onClick={() => setOpenInspectionId(isOpen ? null : inspection.id)}
+                    className="w-full flex items-center justify-between gap-3 p-3 text-left"
+                  >
+                    <div>
+                      <div className="text-touch-sm font-medium text-gray-900">
+                        {formatDate(inspection.inspection_date)}
+                      </div>
+                      <div className="text-touch-xs text-gray-600">{inspection.inspector_name}</div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      {defects.length > 0 && (
+                        <span className="text-touch-xs px-2 py-1 rounded-full bg-orange-100 text-orange-800">
+                          {defects.length} Mängel
+                        </span>
+                      )}
+                      <span className={`text-touch-xs px-2 py-1 rounded-full ${STATUS_STYLES[inspection.status]}`}>
+                        {STATUS_LABELS[inspection.status]}
+                      </span>
+                      {!inspection.synced && (
+                        <span className="text-touch-xs px-2 py-1 rounded-full bg-blue-100 text-blue-800">
+                          📵 Nicht hochgeladen
+                        </span>
+                      )}
+                    </div>
+                  </button>
+
+                  {isOpen && (
+                    <div className="border-t border-gray-200 p-3 space-y-3">
+                      {inspection.notes && (
+                        <div className="text-touch-sm text-gray-700">{inspection.notes}</div>
+                      )}
+
+                      {defects.length > 0 && (
+                        <ul className="space-y-1">
+                          {defects.map((defect) => (
+                            <li key={defect.item_id} className="text-touch-xs text-orange-800">
+                              ✗ {defect.label}{defect.comment ? ` – ${defect.comment}` : ''}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+
+                      {/* Offline-Fotos; ältere Fotos liegen nur auf dem Server */}
+                      <PhotoCapture inspectionId={inspection.id} readOnly />
+                      {inspection.synced && (inspection.photos?.length || 0) > 0 && (
+                        <div className="text-touch-xs text-gray-500">
+                          ☁️ {inspection.photos!.length} Fotos auf dem Server
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default DoorDetail;
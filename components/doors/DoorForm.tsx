@@ -0,0 +1,171 @@
+// 🔧 InspecDoor Door Form - Tür offline anlegen oder Stammdaten korrigieren
+// Wird beim nächsten Upload an das Büro übertragen
+
+'use client'
+
+import React, { useState } from 'react';
+import { useOfflineData, useOfflineDoors } from '../../hooks/useOfflineData';
+import type { DoorInput } from '../../lib/db/syncManager';
+import type { Door } from '../../lib/db/offlineDB';
+
+interface DoorFormProps {
+  door?: Door;     // Bearbeiten statt neu anlegen
+  doorId?: string; // Gescannte ID eines vorgedruckten Etiketts
+  initialDoorNumber?: string;
+  initialCustomerId?: string;
+  onSaved?: (door: Door) => void;
+  onCancel?: () => void;
+  className?: string;
+}
+
+const TEXT_FIELDS: { field: keyof DoorInput; label: string; placeholder?: string }[] = [
+  { field: 'door_number', label: 'Türnummer', placeholder: 'z.B. T-101' },
+  { field: 'location', label: 'Standort', placeholder: 'z.B. Treppenhaus Nord, EG' },
+  { field: 'door_type', label: 'Typ', placeholder: 'z.B. T30' },
+  { field: 'manufacturer', label: 'Hersteller' },
+  { field: 'model', label: 'Modell' },
+  { field: 'year', label: 'Baujahr' }
+];
+
+export function DoorForm({
+  door,
+  doorId,
+  initialDoorNumber,
+  initialCustomerId,
+  onSaved,
+  onCancel,
+  className = ''
+}: DoorFormProps) {
+  const { customers, sites } = useOfflineData();
+  const { createDoor, updateDoor, isSaving, error } = useOfflineDoors();
+  const [values, setValues] = useState<DoorInput>(door ? {
+    customer_id: door.customer_id,
+    site_id: door.site_id,
+    location: door.location,
+    door_number: door.door_number,
+    door_type: door.door_type,
+    manufacturer: door.manufacturer,
+    model: door.model,
+    year: door.year,
+    notes: door.notes
+  } : {
+    customer_id: initialCustomerId || '',
+    location: '',
+    door_number: initialDoorNumber || ''
+  });
+
+  const updateValue = (changes: Partial<DoorInput>) => {
+    setValues(prev => ({ ...prev, ...changes }));
+  };
+
+  const customerSites = sites.filter(site => site.customer_id === values.customer_id);
+  const canSave = !isSaving && !!values.customer_id && !!values.location.trim();
+
+  const handleSave = async () => {
+    let saved: Door | null;
+    if (door) {
+      // Der Kunde einer bestehenden Tür wird nur im Büro umgehängt
+      const { customer_id: _customerId, ...changes } = values;
+      saved = await updateDoor(door.id, changes);
+    } else {
+      saved = await createDoor({ ...values, id: doorId });
+    }
+    if (saved) onSaved?.(saved);
+  };
+
+  return (
+    <div className={`door-form bg-white rounded-lg shadow-sm border p-6 space-y-4 ${className}`}>
+      <h2 className="text-touch-lg font-semibold">
+        {door ? `✏️ Tür ${door.door_number || ''} bearbeiten` : '➕ Neue Tür anlegen'}
+      </h2>
+
+      {doorId && (
+        <div className="text-touch-xs text-gray-600 p-2 bg-gray-50 rounded border">
+          🏷️ Etikett-ID: <span className="font-mono">{doorId}</span>
+        </div>
+      )}
+
+      <label className="block text-touch-sm text-gray-700">
+        Kunde *
+        <select
+          value={values.customer_id}
+          onChange={(e) => updateValue({ customer_id: e.target.value, site_id: undefined })}
+          disabled={!!door}
+          className="mt-1 w-full border border-gray-300 rounded-md p-3 text-touch-base disabled:bg-gray-100"
+        >
+          <option value="">Bitte wählen</option>
+          {customers.map((customer) => (
+            <option key={customer.id} value={customer.id}>{customer.name}</option>
+          ))}
+        </select>
+      </label>
+
+      {customerSites.length > 0 && (
+        <label className="block text-touch-sm text-gray-700">
+          Objekt
+          <select
+            value={values.site_id || ''}
+            onChange={(e) => updateValue({ site_id: e.target.value || undefined })}
+            className="mt-1 w-full border border-gray-300 rounded-md p-3 text-touch-base"
+          >
+            <option value="">Kein Objekt</option>
+            {customerSites.map((site) => (
+              <option key={site.id} value={site.id}>{site.site_name}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        {TEXT_FIELDS.map(({ field, label, placeholder }) => (
+          <label key={field} className="block text-touch-sm text-gray-700">
+            {label}{field === 'location' ? ' *' : ''}
+            <input
+              type="text"
+              value={values[field] || ''}
+              placeholder={placeholder}
+              onChange={(e) => updateValue({ [field]: e.target.value })}
+              className="mt-1 w-full border border-gray-300 rounded-md p-3 text-touch-base"
+            />
+          </label>
+        ))}
+      </div>
+
+      <label className="block text-touch-sm text-gray-700">
+        Notizen
+        <textarea
+          value={values.notes || ''}
+          onChange={(e) => updateValue({ notes: e.target.value })}
+          rows={3}
+          className="mt-1 w-full border border-gray-300 rounded-md p-3 text-touch-base"
+        />
+      </label>
+
+      {error && (
+        <div className="text-red-700 text-touch-sm">{error}</div>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          onClick={onCancel}
+          className="touch-button flex-1 bg-gray-100 text-gray-700 hover:bg-gray-200"
+        >
+          Abbrechen
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!canSave}
+          className={`touch-button flex-1 ${
+            canSave
+              ? 'bg-green-600 text-white hover:bg-green-700'
+              : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+          }`}
+        >
+          {isSaving ? 'Speichert...' : '💾 Offline speichern'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default DoorForm;
@@ -0,0 +1,111 @@
+// 🔧 InspecDoor Door Label Sheet - QR-Etiketten für die Türen eines Kunden
+// Vorschau, Drucken und Export als HTML-Datei (für den Druck im Büro)
+
+'use client'
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useOfflineData } from '../../hooks/useOfflineData';
+import { buildLabelSheetHtml } from '../../lib/scan/labelSheet';
+
+interface DoorLabelSheetProps {
+  initialCustomerId?: string;
+  className?: string;
+}
+
+export function DoorLabelSheet({ initialCustomerId, className = '' }: DoorLabelSheetProps) {
+  const { customers, doors } = useOfflineData();
+  const [customerId, setCustomerId] = useState(initialCustomerId || '');
+  const [sheetHtml, setSheetHtml] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const frameRef = useRef<HTMLIFrameElement>(null);
+
+  const customer = customers.find(entry => entry.id === customerId);
+  const customerDoors = useMemo(
+    () => doors.filter(door => door.customer_id === customerId),
+    [doors, customerId]
+  );
+
+  useEffect(() => {
+    if (!customer || customerDoors.length === 0) {
+      setSheetHtml(null);
+      return;
+    }
+
+    let cancelled = false;
+    buildLabelSheetHtml(customer, customerDoors, window.location.origin)
+      .then(html => { if (!cancelled) setSheetHtml(html); })
+      .catch(err => setError(err instanceof Error ? err.message : 'Etiketten konnten nicht erzeugt werden'));
+
+    return () => { cancelled = true; };
+  }, [customer, customerDoors]);
+
+  const handlePrint = () => {
+    frameRef.current?.contentWindow?.print();
+  };
+
+  const handleExport = () => {
+    if (!sheetHtml || !customer) return;
+
+    const url = URL.createObjectURL(new Blob([sheetHtml], { type: 'text/html' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `tuer-etiketten-${customer.name.replace(/[^a-zA-Z0-9äöüÄÖÜß-]+/g, '_')}.html`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className={`door-label-sheet space-y-4 ${className}`}>
+      <div className="bg-white rounded-lg shadow-sm border p-4 space-y-3">
+        <select
+          value={customerId}
+          onChange={(e) => setCustomerId(e.target.value)}
+          className="w-full border border-gray-300 rounded-md p-3 text-touch-base"
+        >
+          <option value="">Kunde wählen</option>
+          {customers.map((entry) => (
+            <option key={entry.id} value={entry.id}>{entry.name}</option>
+          ))}
+        </select>
+
+        {customer && (
+          <div className="text-touch-sm text-gray-600">
+            🏷️ {customerDoors.length} Etiketten ({Math.ceil(customerDoors.length / 24)} Bogen A4)
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            onClick={handlePrint}
+            disabled={!sheetHtml}
+            className="touch-button flex-1 bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500"
+          >
+            🖨️ Drucken
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!sheetHtml}
+            className="touch-button flex-1 bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:text-gray-400"
+          >
+            💾 Exportieren
+          </button>
+        </div>
+
+        {error && (
+          <div className="text-red-700 text-touch-sm">{error}</div>
+        )}
+      </div>
+
+      {sheetHtml && (
+        <iframe
+          ref={frameRef}
+          srcDoc={sheetHtml}
+          title="Etiketten-Vorschau"
+          className="w-full h-[70vh] bg-white border rounded-lg"
+        />
+      )}
+    </div>
+  );
+}
+
+export default DoorLabelSheet;
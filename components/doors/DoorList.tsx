@@ -0,0 +1,273 @@
+// 🔧 InspecDoor Door List - Alle Türen über alle Kunden
+// Filter nach Kunde, Standort, Typ, Hersteller und überfälliger Prüfung
+
+'use client'
+
+import React, { useMemo, useState } from 'react';
+import { useOfflineData } from '../../hooks/useOfflineData';
+import {
+  getDoorSyncState,
+  getLatestInspection,
+  getNextInspectionDue,
+  groupInspectionsByDoor,
+  isInspectionOverdue
+} from '../../lib/db/doorStatus';
+import { STATUS_LABELS, STATUS_STYLES } from '../inspections/inspectionLabels';
+import { DOOR_SYNC_LABELS, DOOR_SYNC_STYLES } from './doorLabels';
+import type { Door } from '../../lib/db/offlineDB';
+
+interface DoorListProps {
+  onDoorSelect?: (door: Door) => void;
+  initialCustomerId?: string; // Vorfilter, z.B. aus der globalen Suche
+  initialSiteId?: string;
+  className?: string;
+}
+
+interface DoorFilters {
+  search: string;
+  customerId: string;
+  siteId: string;
+  doorType: string;
+  manufacturer: string;
+  overdueOnly: boolean;
+}
+
+const EMPTY_FILTERS: DoorFilters = {
+  search: '',
+  customerId: '',
+  siteId: '',
+  doorType: '',
+  manufacturer: '',
+  overdueOnly: false
+};
+
+// Sortierte, eindeutige Werte für die Auswahllisten
+const distinctValues = (values: (string | undefined)[]): string[] =>
+  values
+    .filter((value): value is string => !!value)
+    .filter((value, index, all) => all.indexOf(value) === index)
+    .sort((a, b) => a.localeCompare(b, 'de'));
+
+export function DoorList({ onDoorSelect, initialCustomerId, initialSiteId, className = '' }: DoorListProps) {
+  const { customers, sites, doors, inspections, isLoading, error } = useOfflineData();
+  const [filters, setFilters] = useState<DoorFilters>({
+    ...EMPTY_FILTERS,
+    customerId: initialCustomerId || '',
+    siteId: initialSiteId || ''
+  });
+
+  const inspectionsByDoor = useMemo(() => groupInspectionsByDoor(inspections), [inspections]);
+
+  const customerNames = useMemo(() => {
+    const names: { [customerId: string]: string } = {};
+    customers.forEach(customer => { names[customer.id] = customer.name; });
+    return names;
+  }, [customers]);
+
+  const siteOptions = sites
+    .filter(site => !filters.customerId || site.customer_id === filters.customerId)
+    .sort((a, b) => a.site_name.localeCompare(b.site_name, 'de'));
+  const doorTypeOptions = distinctValues(doors.map(door => door.door_type));
+  const manufacturerOptions = distinctValues(doors.map(door => door.manufacturer));
+
+  const filteredDoors = useMemo(() => {
+    const search = filters.search.trim().toLowerCase();
+
+    return doors
+      .filter(door =>
+        (!filters.customerId || door.customer_id === filters.customerId) &&
+        (!filters.siteId || door.site_id === filters.siteId) &&
+        (!filters.doorType || door.door_type === filters.doorType) &&
+        (!filters.manufacturer || door.manufacturer === filters.manufacturer) &&
+        (!filters.overdueOnly || isInspectionOverdue(door, inspectionsByDoor[door.id] || [])) &&
+        (!search || [door.door_number, door.location, door.model]
+          .some(value => value && value.toLowerCase().indexOf(search) !== -1))
+      )
+      .sort((a, b) =>
+        (customerNames[a.customer_id] || '').localeCompare(customerNames[b.customer_id] || '', 'de') ||
+        (a.door_number || '').localeCompare(b.door_number || '', 'de', { numeric: true })
+      );
+  }, [doors, filters, inspectionsByDoor, customerNames]);
+
+  const updateFilter = (changes: Partial<DoorFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+  };
+
+  const hasActiveFilters = Object.keys(filters).some(key =>
+    filters[key as keyof DoorFilters] !== EMPTY_FILTERS[key as keyof DoorFilters]
+  );
+
+  if (isLoading) {
+    return (
+      <div className={`door-list-loading ${className}`}>
+        <div className="flex items-center justify-center p-8">
+          <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+          <span className="ml-3 text-touch-base">Lade Türen...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className={`door-list-error ${className}`}>
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+          <div className="text-red-800 text-touch-base font-medium mb-2">
+            ❌ Fehler beim Laden
+          </div>
+          <div className="text-red-700 text-touch-sm">{error}</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`door-list ${className}`}>
+      {/* Filter */}
+      <div className="bg-white rounded-lg shadow-sm border p-4 mb-4 space-y-3">
+        <input
+          type="search"
+          placeholder="🔍 Türnummer, Standort oder Modell"
+          value={filters.search}
+          onChange={(e) => updateFilter({ search: e.target.value })}
+          className="w-full border border-gray-300 rounded-md p-3 text-touch-base"
+        />
+
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={filters.customerId}
+            onChange={(e) => updateFilter({ customerId: e.target.value, siteId: '' })}
+            className="border border-gray-300 rounded-md p-2 text-touch-sm"
+          >
+            <option value="">Alle Kunden</option>
+            {customers.map((customer) => (
+              <option key={customer.id} value={customer.id}>{customer.name}</option>
+            ))}
+          </select>
+
+          <select
+            value={filters.siteId}
+            onChange={(e) => updateFilter({ siteId: e.target.value })}
+            className="border border-gray-300 rounded-md p-2 text-touch-sm"
+          >
+            <option value="">Alle Standorte</option>
+            {siteOptions.map((site) => (
+              <option key={site.id} value={site.id}>{site.site_name}</option>
+            ))}
+          </select>
+
+          <select
+            value={filters.doorType}
+            onChange={(e) => updateFilter({ doorType: e.target.value })}
+            className="border border-gray-300 rounded-md p-2 text-touch-sm"
+          >
+            <option value="">Alle Typen</option>
+            {doorTypeOptions.map((doorType) => (
+              <option key={doorType} value={doorType}>{doorType}</option>
+            ))}
+          </select>
+
+          <select
+            value={filters.manufacturer}
+            onChange={(e) => updateFilter({ manufacturer: e.target.value })}
+            className="border border-gray-300 rounded-md p-2 text-touch-sm"
+          >
+            <option value="">Alle Hersteller</option>
+            {manufacturerOptions.map((manufacturer) => (
+              <option key={manufacturer} value={manufacturer}>{manufacturer}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-3 text-touch-sm">
+            <input
+              type="checkbox"
+              checked={filters.overdueOnly}
+              onChange={(e) => updateFilter({ overdueOnly: e.target.checked })}
+              className="touch-target-44"
+            />
+            ⏰ Nur überfällige Prüfungen
+          </label>
+
+          {hasActiveFilters && (
+            <button
+              onClick={() => setFilters(EMPTY_FILTERS)}
+              className="text-touch-xs text-gray-500 underline"
+            >
+              Filter zurücksetzen
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="text-touch-sm text-gray-600 mb-2">
+        {filteredDoors.length} von {doors.length} Türen
+      </div>
+
+      {/* Door List */}
+      {filteredDoors.length === 0 ? (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-8 text-center">
+          <div className="text-6xl mb-4">🚪</div>
+          <div className="text-touch-base font-medium text-gray-700">
+            Keine passenden Türen
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {filteredDoors.map((door) => {
+            const doorInspections = inspectionsByDoor[door.id] || [];
+            const latest = getLatestInspection(doorInspections);
+            const nextDue = getNextInspectionDue(door, doorInspections);
+            const overdue = isInspectionOverdue(door, doorInspections);
+            const syncState = getDoorSyncState(door);
+
+            return (
+              <button
+                key={door.id}
+                onClick={() => onDoorSelect?.(door)}
+                className="touch-button w-full bg-white border border-gray-200 hover:bg-gray-50 text-left"
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex-1">
+                    <div className="text-touch-base font-medium text-gray-900">
+                      🚪 {door.door_number || 'Ohne Nummer'}
+                    </div>
+                    <div className="text-touch-sm text-gray-600">
+                      📍 {door.location} · {customerNames[door.customer_id] || 'Unbekannter Kunde'}
+                    </div>
+                    {(door.door_type || door.manufacturer) && (
+                      <div className="text-touch-xs text-gray-500">
+                        {[door.door_type, door.manufacturer, door.model].filter(Boolean).join(' · ')}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex flex-col items-end gap-1">
+                    {syncState && (
+                      <span className={`text-touch-xs px-2 py-1 rounded-full ${DOOR_SYNC_STYLES[syncState]}`}>
+                        {DOOR_SYNC_LABELS[syncState]}
+                      </span>
+                    )}
+                    {latest && (
+                      <span className={`text-touch-xs px-2 py-1 rounded-full ${STATUS_STYLES[latest.status]}`}>
+                        {STATUS_LABELS[latest.status]}
+                      </span>
+                    )}
+                    {overdue && (
+                      <span className="text-touch-xs px-2 py-1 rounded-full bg-orange-100 text-orange-800">
+                        ⏰ {nextDue ? `Fällig seit ${nextDue.toLocaleDateString('de-DE')}` : 'Nie geprüft'}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DoorList;
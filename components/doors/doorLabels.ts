@@ -0,0 +1,21 @@
+// 🔧 InspecDoor Tür-Labels - Kennzeichnung offline angelegter/geänderter Türen
+
+import type { DoorSyncState } from '../../lib/db/doorStatus';
+
+export const DOOR_SYNC_LABELS: Record<DoorSyncState, string> = {
+  new: '🆕 Neu (offline)',
+  changed: '✏️ Geändert (offline)',
+  uploaded: '⏳ Wartet auf Bestätigung'
+};
+
+export const DOOR_SYNC_STYLES: Record<DoorSyncState, string> = {
+  new: 'bg-purple-100 text-purple-800',
+  changed: 'bg-yellow-100 text-yellow-800',
+  uploaded: 'bg-blue-100 text-blue-800'
+};
+
+export const DOOR_SYNC_HINTS: Record<DoorSyncState, string> = {
+  new: 'Diese Tür wurde offline angelegt und wird beim nächsten Upload an das Büro übertragen.',
+  changed: 'Die Stammdaten wurden offline geändert und werden beim nächsten Upload an das Büro übertragen.',
+  uploaded: 'Die Tür bzw. ihre Änderungen wurden hochgeladen. Sie gelten als bestätigt, sobald der Server-Stand beim nächsten Download ankommt.'
+};
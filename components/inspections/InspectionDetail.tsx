@@ -0,0 +1,177 @@
+// 🔧 InspecDoor Inspection Detail - Eine Prüfung mit Checkliste und Fotos
+// Nur Anzeige; bearbeitet wird über den Prüfungs-Bildschirm der Tür
+
+'use client'
+
+import React from 'react';
+import { useOfflineData, useSignatureImage } from '../../hooks/useOfflineData';
+import { getDefects } from '../../lib/db/checklists';
+import PhotoCapture from '../photos/PhotoCapture';
+import { STATUS_LABELS, STATUS_STYLES, formatDate } from './inspectionLabels';
+import type { ChecklistItemResult, Door } from '../../lib/db/offlineDB';
+
+interface InspectionDetailProps {
+  inspectionId: string;
+  onDoorSelect?: (door: Door) => void;
+  className?: string;
+}
+
+const RESULT_LABELS: Record<ChecklistItemResult, string> = {
+  ok: '✓ OK',
+  defect: '✗ Mangel',
+  not_applicable: '– n.a.'
+};
+
+const RESULT_STYLES: Record<ChecklistItemResult, string> = {
+  ok: 'text-green-700',
+  defect: 'text-red-700 font-medium',
+  not_applicable: 'text-gray-500'
+};
+
+export function InspectionDetail({ inspectionId, onDoorSelect, className = '' }: InspectionDetailProps) {
+  const { customers, doors, inspections, isLoading } = useOfflineData();
+
+  const inspection = inspections.find(entry => entry.id === inspectionId);
+  const door = inspection ? doors.find(entry => entry.id === inspection.door_id) : undefined;
+  const customer = door ? customers.find(entry => entry.id === door.customer_id) : undefined;
+  const { imageUrl: signatureUrl } = useSignatureImage(inspection?.signature_id || null);
+
+  if (isLoading) {
+    return (
+      <div className={`flex items-center justify-center p-8 ${className}`}>
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        <span className="ml-3 text-touch-base">Lade Prüfung...</span>
+      </div>
+    );
+  }
+
+  if (!inspection) {
+    return (
+      <div className={`bg-gray-50 border border-gray-200 rounded-lg p-8 text-center ${className}`}>
+        <div className="text-touch-base font-medium text-gray-700">
+          Prüfung nicht mehr offline verfügbar
+        </div>
+      </div>
+    );
+  }
+
+  const checklist = inspection.checklist || [];
+  const defects = getDefects(checklist);
+
+  return (
+    <div className={`inspection-detail space-y-6 ${className}`}>
+      {/* 📋 INSPECTION HEADER */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div>
+            <h2 className="text-touch-lg font-semibold">
+              🚪 {door?.door_number || 'Unbekannte Tür'}
+            </h2>
+            <div className="text-touch-sm text-gray-600">
+              {door ? `📍 ${door.location} · ` : ''}{customer?.name || 'Unbekannter Kunde'}
+            </div>
+          </div>
+
+          <div className="flex flex-col items-end gap-1">
+            <span className={`text-touch-xs px-2 py-1 rounded-full ${STATUS_STYLES[inspection.status]}`}>
+              {STATUS_LABELS[inspection.status]}
+            </span>
+            {inspection.synced ? (
+              <span className="text-touch-xs px-2 py-1 rounded-full bg-gray-100 text-gray-700">
+                ☁️ Hochgeladen
+              </span>
+            ) : (
+              <span className="text-touch-xs px-2 py-1 rounded-full bg-blue-100 text-blue-800">
+                📵 Nicht hochgeladen
+              </span>
+            )}
+          </div>
+        </div>
+
+        <dl className="grid grid-cols-2 gap-x-6 gap-y-2 text-touch-sm">
+          <dt className="text-gray-500">Datum</dt>
+          <dd className="text-gray-900">{formatDate(inspection.inspection_date)}</dd>
+          <dt className="text-gray-500">Prüfer</dt>
+          <dd className="text-gray-900">{inspection.inspector_name}</dd>
+          <dt className="text-gray-500">Zuletzt geändert</dt>
+          <dd className="text-gray-900">{formatDate(inspection.updated_at)}</dd>
+          <dt className="text-gray-500">Mängel</dt>
+          <dd className={defects.length > 0 ? 'text-red-700 font-medium' : 'text-gray-900'}>
+            {defects.length}
+          </dd>
+          {inspection.signed_at && (
+            <>
+              <dt className="text-gray-500">Abnahme</dt>
+              <dd className="text-gray-900">
+                ✍️ {inspection.signed_by} · {formatDate(inspection.signed_at)}
+              </dd>
+            </>
+          )}
+        </dl>
+
+        {signatureUrl && (
+          <div className="mt-4">
+            {/* eslint-disable-next-line @next/next/no-img-element -- Blob-URL aus IndexedDB */}
+            <img
+              src={signatureUrl}
+              alt={`Unterschrift ${inspection.signed_by || ''}`.trim()}
+              className="h-20 bg-white border rounded-md"
+            />
+          </div>
+        )}
+
+        {inspection.notes && (
+          <div className="mt-4 p-3 bg-gray-50 rounded-md text-touch-sm text-gray-700">
+            {inspection.notes}
+          </div>
+        )}
+      </div>
+
+      {door && (
+        <button
+          onClick={() => onDoorSelect?.(door)}
+          className="touch-button w-full bg-secondary text-secondary-foreground hover:bg-secondary/80"
+        >
+          🚪 Zur Tür
+        </button>
+      )}
+
+      {/* ✅ CHECKLIST */}
+      {checklist.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border p-6">
+          <h3 className="text-touch-base font-semibold mb-3">✅ Checkliste ({checklist.length})</h3>
+          <ul className="divide-y divide-gray-100">
+            {checklist.map((item) => (
+              <li key={item.item_id} className="py-2 flex items-start justify-between gap-3">
+                <div>
+                  {item.category && (
+                    <div className="text-touch-xs text-gray-500">{item.category}</div>
+                  )}
+                  <div className="text-touch-sm text-gray-900">{item.label}</div>
+                  {item.comment && (
+                    <div className="text-touch-xs text-gray-600">{item.comment}</div>
+                  )}
+                </div>
+                <span className={`text-touch-sm whitespace-nowrap ${item.result ? RESULT_STYLES[item.result] : 'text-gray-400'}`}>
+                  {item.result ? RESULT_LABELS[item.result] : 'Offen'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* 📷 PHOTOS */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <PhotoCapture inspectionId={inspection.id} readOnly />
+        {inspection.synced && (inspection.photos?.length || 0) > 0 && (
+          <div className="mt-2 text-touch-xs text-gray-500">
+            ☁️ {inspection.photos!.length} Fotos auf dem Server
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default InspectionDetail;
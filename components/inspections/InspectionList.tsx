@@ -0,0 +1,325 @@
+// 🔧 InspecDoor Inspection List - Übersicht aller Prüfungen
+// Feierabend-Kontrolle: Ist alles erfasst und hochgeladen?
+
+'use client'
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { format, subDays } from 'date-fns';
+import { useInspectionOverview, useOfflineData } from '../../hooks/useOfflineData';
+import { STATUS_LABELS, STATUS_STYLES, formatDate } from './inspectionLabels';
+import type { Door, Inspection, InspectionStatus } from '../../lib/db/offlineDB';
+
+interface InspectionListProps {
+  onInspectionSelect?: (inspection: Inspection) => void;
+  onDoorSelect?: (door: Door) => void;
+  className?: string;
+}
+
+type SortOrder = 'date_desc' | 'date_asc' | 'customer' | 'door' | 'status';
+
+interface InspectionFilters {
+  from: string; // yyyy-MM-dd, lokales Datum
+  to: string;
+  status: InspectionStatus | '';
+  customerId: string;
+  unsyncedOnly: boolean;
+}
+
+const EMPTY_FILTERS: InspectionFilters = {
+  from: '',
+  to: '',
+  status: '',
+  customerId: '',
+  unsyncedOnly: false
+};
+
+const SORT_LABELS: Record<SortOrder, string> = {
+  date_desc: 'Neueste zuerst',
+  date_asc: 'Älteste zuerst',
+  customer: 'Kunde',
+  door: 'Türnummer',
+  status: 'Status'
+};
+
+const STATUS_ORDER: Record<InspectionStatus, number> = {
+  failed: 0,
+  pending: 1,
+  completed: 2
+};
+
+const toLocalDay = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+export function InspectionList({ onInspectionSelect, onDoorSelect, className = '' }: InspectionListProps) {
+  const { customers, doors } = useOfflineData();
+  const [filters, setFilters] = useState<InspectionFilters>(EMPTY_FILTERS);
+  const [sortOrder, setSortOrder] = useState<SortOrder>('date_desc');
+
+  const { inspections, isLoading, error } = useInspectionOverview(
+    filters.status || null,
+    filters.unsyncedOnly
+  );
+
+  const doorsById = useMemo(() => {
+    const map: { [doorId: string]: Door } = {};
+    doors.forEach(door => { map[door.id] = door; });
+    return map;
+  }, [doors]);
+
+  const customerNames = useMemo(() => {
+    const names: { [customerId: string]: string } = {};
+    customers.forEach(customer => { names[customer.id] = customer.name; });
+    return names;
+  }, [customers]);
+
+  const customerNameFor = useCallback((inspection: Inspection): string => {
+    const door = doorsById[inspection.door_id];
+    return (door && customerNames[door.customer_id]) || '';
+  }, [doorsById, customerNames]);
+
+  const filteredInspections = useMemo(() => {
+    const doorNumber = (inspection: Inspection) => doorsById[inspection.door_id]?.door_number || '';
+
+    return inspections
+      .filter(inspection => {
+        const day = toLocalDay(new Date(inspection.inspection_date));
+        return (!filters.from || day >= filters.from) &&
+          (!filters.to || day <= filters.to) &&
+          (!filters.customerId || doorsById[inspection.door_id]?.customer_id === filters.customerId);
+      })
+      .sort((a, b) => {
+        const byDate = b.inspection_date.localeCompare(a.inspection_date);
+        switch (sortOrder) {
+          case 'date_asc':
+            return -byDate;
+          case 'customer':
+            return customerNameFor(a).localeCompare(customerNameFor(b), 'de') || byDate;
+          case 'door':
+            return doorNumber(a).localeCompare(doorNumber(b), 'de', { numeric: true }) || byDate;
+          case 'status':
+            return STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || byDate;
+          default:
+            return byDate;
+        }
+      });
+  }, [inspections, filters, sortOrder, doorsById, customerNameFor]);
+
+  const unsyncedCount = filteredInspections.filter(inspection => !inspection.synced).length;
+
+  const updateFilter = (changes: Partial<InspectionFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+  };
+
+  const setDateRange = (days: number | null) => {
+    const today = new Date();
+    updateFilter(days === null
+      ? { from: '', to: '' }
+      : { from: toLocalDay(subDays(today, days)), to: toLocalDay(today) });
+  };
+
+  const hasActiveFilters = Object.keys(filters).some(key =>
+    filters[key as keyof InspectionFilters] !== EMPTY_FILTERS[key as keyof InspectionFilters]
+  );
+
+  if (error) {
+    return (
+      <div className={`inspection-list-error ${className}`}>
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+          <div className="text-red-800 text-touch-base font-medium mb-2">
+            ❌ Fehler beim Laden
+          </div>
+          <div className="text-red-700 text-touch-sm">{error}</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`inspection-list ${className}`}>
+      {/* Filter */}
+      <div className="bg-white rounded-lg shadow-sm border p-4 mb-4 space-y-3">
+        <div className="flex gap-2">
+          <button
+            onClick={() => setDateRange(0)}
+            className="touch-button flex-1 bg-gray-100 text-gray-700 hover:bg-gray-200 px-3 py-2"
+          >
+            Heute
+          </button>
+          <button
+            onClick={() => setDateRange(6)}
+            className="touch-button flex-1 bg-gray-100 text-gray-700 hover:bg-gray-200 px-3 py-2"
+          >
+            7 Tage
+          </button>
+          <button
+            onClick={() => setDateRange(null)}
+            className="touch-button flex-1 bg-gray-100 text-gray-700 hover:bg-gray-200 px-3 py-2"
+          >
+            Alle
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-touch-xs text-gray-600">
+            Von
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilter({ from: e.target.value })}
+              className="mt-1 w-full border border-gray-300 rounded-md p-2 text-touch-sm"
+            />
+          </label>
+          <label className="text-touch-xs text-gray-600">
+            Bis
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => updateFilter({ to: e.target.value })}
+              className="mt-1 w-full border border-gray-300 rounded-md p-2 text-touch-sm"
+            />
+          </label>
+
+          <select
+            value={filters.status}
+            onChange={(e) => updateFilter({ status: e.target.value as InspectionStatus | '' })}
+            className="border border-gray-300 rounded-md p-2 text-touch-sm"
+          >
+            <option value="">Alle Status</option>
+            {(Object.keys(STATUS_LABELS) as InspectionStatus[]).map((status) => (
+              <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+
+          <select
+            value={filters.customerId}
+            onChange={(e) => updateFilter({ customerId: e.target.value })}
+            className="border border-gray-300 rounded-md p-2 text-touch-sm"
+          >
+            <option value="">Alle Kunden</option>
+            {customers.map((customer) => (
+              <option key={customer.id} value={customer.id}>{customer.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <label className="flex items-center gap-3 text-touch-sm">
+            <input
+              type="checkbox"
+              checked={filters.unsyncedOnly}
+              onChange={(e) => updateFilter({ unsyncedOnly: e.target.checked })}
+              className="touch-target-44"
+            />
+            📵 Nur nicht hochgeladene
+          </label>
+
+          <select
+            value={sortOrder}
+            onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+            className="border border-gray-300 rounded-md p-2 text-touch-sm"
+          >
+            {(Object.keys(SORT_LABELS) as SortOrder[]).map((order) => (
+              <option key={order} value={order}>↕ {SORT_LABELS[order]}</option>
+            ))}
+          </select>
+        </div>
+
+        {hasActiveFilters && (
+          <button
+            onClick={() => setFilters(EMPTY_FILTERS)}
+            className="text-touch-xs text-gray-500 underline"
+          >
+            Filter zurücksetzen
+          </button>
+        )}
+      </div>
+
+      {/* Upload-Stand der gefilterten Prüfungen */}
+      {!isLoading && filteredInspections.length > 0 && (
+        unsyncedCount === 0 ? (
+          <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg text-touch-sm text-green-800">
+            ✅ Alle {filteredInspections.length} Prüfungen sind hochgeladen
+          </div>
+        ) : (
+          <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg text-touch-sm text-blue-800">
+            📵 {unsyncedCount} von {filteredInspections.length} Prüfungen noch nicht hochgeladen
+          </div>
+        )
+      )}
+
+      {/* Inspection List */}
+      {isLoading ? (
+        <div className="flex items-center justify-center p-8">
+          <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+          <span className="ml-3 text-touch-base">Lade Prüfungen...</span>
+        </div>
+      ) : filteredInspections.length === 0 ? (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-8 text-center">
+          <div className="text-6xl mb-4">📋</div>
+          <div className="text-touch-base font-medium text-gray-700">
+            Keine passenden Prüfungen
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {filteredInspections.map((inspection) => {
+            const door = doorsById[inspection.door_id];
+
+            return (
+              <div
+                key={inspection.id}
+                className="flex items-stretch gap-2 bg-white border border-gray-200 rounded-lg"
+              >
+                <button
+                  onClick={() => onInspectionSelect?.(inspection)}
+                  className="flex-1 p-3 text-left hover:bg-gray-50 rounded-l-lg"
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <div>
+                      <div className="text-touch-base font-medium text-gray-900">
+                        🚪 {door?.door_number || 'Unbekannte Tür'}
+                        <span className="ml-2 text-touch-sm font-normal text-gray-600">
+                          {formatDate(inspection.inspection_date)}
+                        </span>
+                      </div>
+                      <div className="text-touch-sm text-gray-600">
+                        {door ? `📍 ${door.location} · ` : ''}{customerNameFor(inspection) || 'Unbekannter Kunde'}
+                      </div>
+                      <div className="text-touch-xs text-gray-500">{inspection.inspector_name}</div>
+                    </div>
+
+                    <div className="flex flex-col items-end gap-1">
+                      <span className={`text-touch-xs px-2 py-1 rounded-full ${STATUS_STYLES[inspection.status]}`}>
+                        {STATUS_LABELS[inspection.status]}
+                      </span>
+                      {inspection.synced ? (
+                        <span className="text-touch-xs px-2 py-1 rounded-full bg-gray-100 text-gray-700">
+                          ☁️ Hochgeladen
+                        </span>
+                      ) : (
+                        <span className="text-touch-xs px-2 py-1 rounded-full bg-blue-100 text-blue-800">
+                          📵 Nicht hochgeladen
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </button>
+
+                {door && (
+                  <button
+                    onClick={() => onDoorSelect?.(door)}
+                    className="px-4 border-l border-gray-200 text-touch-sm text-gray-700 hover:bg-gray-50 rounded-r-lg"
+                    aria-label="Zur Tür"
+                  >
+                    🚪 →
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default InspectionList;
@@ -0,0 +1,402 @@
+// 🔧 InspecDoor Inspection Screen - Prüfung erfassen auf dem Tablet
+// Stammdaten, Prüfhistorie und Offline-Erfassung einer Tür
+
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useOfflineData, useOfflineInspections } from '../../hooks/useOfflineData';
+import { createChecklistFromTemplate, deriveInspectionStatus } from '../../lib/db/checklists';
+import { getInspectorName, setInspectorName as storeInspectorName } from '../../lib/settings';
+import { isInspectionSigned } from '../../lib/db/visits';
+import { generateUUID } from '../../lib/db/uuid';
+import PhotoCapture from '../photos/PhotoCapture';
+import { STATUS_LABELS, STATUS_STYLES, formatDate } from './inspectionLabels';
+import type {
+  ChecklistItemResult,
+  DefectSeverity,
+  Door,
+  Inspection,
+  InspectionChecklistItem,
+  InspectionStatus
+} from '../../lib/db/offlineDB';
+
+interface InspectionScreenProps {
+  door: Door;
+  startNew?: boolean; // Direkt mit einer neuen Prüfung beginnen (aus der Tür-Detailansicht)
+  className?: string;
+}
+
+const RESULT_OPTIONS: { value: ChecklistItemResult; label: string; active: string }[] = [
+  { value: 'ok', label: '✓ OK', active: 'bg-green-600 text-white' },
+  { value: 'defect', label: '✗ Mangel', active: 'bg-red-600 text-white' },
+  { value: 'not_applicable', label: '– n.a.', active: 'bg-gray-600 text-white' }
+];
+
+const SEVERITY_LABELS: Record<DefectSeverity, string> = {
+  minor: 'Gering',
+  major: 'Erheblich',
+  critical: 'Gefährlich'
+};
+
+export function InspectionScreen({ door, startNew = false, className = '' }: InspectionScreenProps) {
+  const { inspections, getInspectionsByDoor } = useOfflineData();
+  const {
+    createInspection,
+    updateInspection,
+    discardDraftPhotos,
+    getChecklistTemplate,
+    isCreating,
+    error
+  } = useOfflineInspections();
+
+  const [history, setHistory] = useState<Inspection[]>([]);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftId, setDraftId] = useState<string | null>(null); // id der neuen Prüfung, schon vor dem Speichern für Fotos
+  const [inspectorName, setInspectorName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [checklist, setChecklist] = useState<InspectionChecklistItem[]>([]);
+  const [templateId, setTemplateId] = useState<string | undefined>(undefined);
+  const [manualStatus, setManualStatus] = useState<InspectionStatus>('pending');
+
+  const loadHistory = useCallback(async () => {
+    try {
+      const inspections = await getInspectionsByDoor(door.id);
+      inspections.sort((a, b) => b.inspection_date.localeCompare(a.inspection_date));
+      setHistory(inspections);
+    } catch (err) {
+      console.error('Failed to load inspections for door:', door.id, err);
+    }
+  }, [door.id, getInspectionsByDoor]);
+
+  // Neu laden, sobald sich Prüfungen ändern (Speichern, Upload, andere Tabs)
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory, inspections]);
+
+  useEffect(() => {
+    setInspectorName(getInspectorName());
+  }, []);
+
+  const startNewInspection = async () => {
+    const template = await getChecklistTemplate(door.door_type);
+
+    setEditingId(null);
+    setDraftId(generateUUID());
+    setNotes('');
+    setManualStatus('pending');
+    setTemplateId(template?.id);
+    setChecklist(template ? createChecklistFromTemplate(template) : []);
+    setIsEditing(true);
+  };
+
+  // Nur beim Öffnen - nicht erneut, wenn die Vorlagen-Funktion wechselt
+  useEffect(() => {
+    if (startNew) startNewInspection();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const editInspection = (inspection: Inspection) => {
+    setEditingId(inspection.id);
+    setInspectorName(inspection.inspector_name);
+    setNotes(inspection.notes || '');
+    setManualStatus(inspection.status);
+    setTemplateId(inspection.checklist_template_id);
+    setChecklist(inspection.checklist || []);
+    setIsEditing(true);
+  };
+
+  const updateChecklistItem = (itemId: string, changes: Partial<InspectionChecklistItem>) => {
+    setChecklist(prev => prev.map(item =>
+      item.item_id === itemId ? { ...item, ...changes } : item
+    ));
+  };
+
+  const handleSave = async () => {
+    storeInspectorName(inspectorName);
+
+    const hasChecklist = checklist.length > 0;
+    let saved: boolean;
+
+    if (editingId) {
+      saved = await updateInspection(editingId, {
+        inspector_name: inspectorName,
+        notes,
+        ...(hasChecklist ? { checklist } : { status: manualStatus })
+      });
+    } else {
+      const inspectionId = await createInspection({
+        id: draftId || undefined,
+        door_id: door.id,
+        inspector_name: inspectorName,
+        notes,
+        ...(hasChecklist
+          ? { checklist, checklist_template_id: templateId }
+          : { status: manualStatus })
+      });
+      saved = inspectionId !== null;
+    }
+
+    if (saved) {
+      setIsEditing(false);
+      setEditingId(null);
+      setDraftId(null);
+      await loadHistory();
+    }
+  };
+
+  const handleCancel = () => {
+    setIsEditing(false);
+    setDraftId(null);
+  };
+
+  // Abbrechen, Zurück-Navigation oder Schließen der Ansicht: Fotos einer nie
+  // gespeicherten Prüfung verwerfen. Nach dem Speichern ist das ein No-op.
+  useEffect(() => {
+    if (!draftId) return;
+    return () => {
+      discardDraftPhotos(draftId);
+    };
+  }, [draftId, discardDraftPhotos]);
+
+  const currentStatus = checklist.length > 0 ? deriveInspectionStatus(checklist) : manualStatus;
+  const answeredItems = checklist.filter(item => item.result !== null).length;
+  const photoInspectionId = editingId || draftId;
+
+  return (
+    <div className={`inspection-screen space-y-6 ${className}`}>
+      {/* 🚪 DOOR MASTER DATA */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h2 className="text-touch-lg font-semibold mb-4">
+          🚪 {door.door_number || 'Ohne Nummer'}
+        </h2>
+        <dl className="grid grid-cols-2 gap-x-6 gap-y-2 text-touch-sm">
+          <dt className="text-gray-500">Standort</dt>
+          <dd className="text-gray-900">{door.location}</dd>
+          <dt className="text-gray-500">Typ</dt>
+          <dd className="text-gray-900">{door.door_type || '–'}</dd>
+          <dt className="text-gray-500">Hersteller</dt>
+          <dd className="text-gray-900">{door.manufacturer || '–'}</dd>
+          <dt className="text-gray-500">Modell</dt>
+          <dd className="text-gray-900">{door.model || '–'}</dd>
+          <dt className="text-gray-500">Baujahr</dt>
+          <dd className="text-gray-900">{door.year || '–'}</dd>
+        </dl>
+        {door.notes && (
+          <div className="mt-4 p-3 bg-gray-50 rounded-md text-touch-sm text-gray-700">
+            {door.notes}
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+          <div className="text-red-800 text-touch-sm font-medium">❌ Fehler</div>
+          <div className="text-red-700 text-touch-xs mt-1">{error}</div>
+        </div>
+      )}
+
+      {isEditing ? (
+        /* 📋 INSPECTION FORM */
+        <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-touch-base font-semibold">
+              {editingId ? '✏️ Prüfung bearbeiten' : '📋 Neue Prüfung'}
+            </h3>
+            <span className={`text-touch-xs px-2 py-1 rounded-full ${STATUS_STYLES[currentStatus]}`}>
+              {STATUS_LABELS[currentStatus]}
+            </span>
+          </div>
+
+          <label className="block">
+            <span className="text-touch-sm text-gray-700">Prüfer</span>
+            <input
+              type="text"
+              value={inspectorName}
+              onChange={(e) => setInspectorName(e.target.value)}
+              className="mt-1 w-full border border-gray-300 rounded-md p-3 text-touch-base"
+            />
+          </label>
+
+          {checklist.length > 0 ? (
+            <div className="space-y-3">
+              <div className="text-touch-xs text-gray-500">
+                {answeredItems} von {checklist.length} Prüfpunkten bewertet
+              </div>
+              {checklist.map((item) => (
+                <div key={item.item_id} className="border border-gray-200 rounded-md p-3">
+                  {item.category && (
+                    <div className="text-touch-xs text-gray-500">{item.category}</div>
+                  )}
+                  <div className="text-touch-sm font-medium text-gray-900 mb-2">{item.label}</div>
+
+                  <div className="flex gap-2">
+                    {RESULT_OPTIONS.map((option) => (
+                      <button
+                        key={option.value}
+                        onClick={() => updateChecklistItem(item.item_id, { result: option.value })}
+                        className={`touch-button flex-1 ${
+                          item.result === option.value
+                            ? option.active
+                            : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+
+                  {item.result === 'defect' && (
+                    <div className="mt-3 space-y-2">
+                      <div className="flex gap-2">
+                        {(Object.keys(SEVERITY_LABELS) as DefectSeverity[]).map((severity) => (
+                          <button
+                            key={severity}
+                            onClick={() => updateChecklistItem(item.item_id, { severity })}
+                            className={`touch-button flex-1 text-touch-xs ${
+                              item.severity === severity
+                                ? 'bg-orange-600 text-white'
+                                : 'bg-orange-50 text-orange-800 hover:bg-orange-100'
+                            }`}
+                          >
+                            {SEVERITY_LABELS[severity]}
+                          </button>
+                        ))}
+                      </div>
+                      <input
+                        type="text"
+                        placeholder="Kommentar zum Mangel"
+                        value={item.comment || ''}
+                        onChange={(e) => updateChecklistItem(item.item_id, { comment: e.target.value })}
+                        className="w-full border border-gray-300 rounded-md p-2 text-touch-sm"
+                      />
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div>
+              <div className="text-touch-xs text-gray-500 mb-2">
+                Keine Checkliste für diesen Türtyp vorhanden – Ergebnis manuell wählen
+              </div>
+              <div className="flex gap-2">
+                {(Object.keys(STATUS_LABELS) as InspectionStatus[]).map((status) => (
+                  <button
+                    key={status}
+                    onClick={() => setManualStatus(status)}
+                    className={`touch-button flex-1 ${
+                      manualStatus === status
+                        ? STATUS_STYLES[status]
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {STATUS_LABELS[status]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {photoInspectionId && (
+            <PhotoCapture inspectionId={photoInspectionId} />
+          )}
+
+          <label className="block">
+            <span className="text-touch-sm text-gray-700">Bemerkungen</span>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+              className="mt-1 w-full border border-gray-300 rounded-md p-3 text-touch-base"
+            />
+          </label>
+
+          <div className="flex gap-3">
+            <button
+              onClick={handleCancel}
+              className="touch-button flex-1 bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              Abbrechen
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isCreating || !inspectorName.trim()}
+              className={`touch-button flex-1 ${
+                !isCreating && inspectorName.trim()
+                  ? 'bg-green-600 text-white hover:bg-green-700'
+                  : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              }`}
+            >
+              {isCreating ? 'Speichert...' : '💾 Offline speichern'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={startNewInspection}
+          className="touch-button w-full bg-blue-600 text-white hover:bg-blue-700"
+        >
+          📋 Neue Prüfung starten
+        </button>
+      )}
+
+      {/* 🕓 INSPECTION HISTORY */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h3 className="text-touch-base font-semibold mb-3">🕓 Prüfhistorie ({history.length})</h3>
+
+        {history.length === 0 ? (
+          <div className="text-touch-sm text-gray-500 p-3 bg-gray-50 rounded border">
+            Noch keine Prüfungen vorhanden
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {history.map((inspection) => (
+              <div
+                key={inspection.id}
+                className="flex items-center justify-between border border-gray-200 rounded-md p-3"
+              >
+                <div>
+                  <div className="text-touch-sm font-medium text-gray-900">
+                    {formatDate(inspection.inspection_date)}
+                  </div>
+                  <div className="text-touch-xs text-gray-600">{inspection.inspector_name}</div>
+                  {inspection.notes && (
+                    <div className="text-touch-xs text-gray-500 line-clamp-2">{inspection.notes}</div>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <span className={`text-touch-xs px-2 py-1 rounded-full ${STATUS_STYLES[inspection.status]}`}>
+                    {STATUS_LABELS[inspection.status]}
+                  </span>
+                  {isInspectionSigned(inspection) && (
+                    <span className="text-touch-xs px-2 py-1 rounded-full bg-green-100 text-green-800">
+                      ✍️ Unterschrieben
+                    </span>
+                  )}
+                  {!inspection.synced && !isInspectionSigned(inspection) && (
+                    <>
+                      <span className="text-touch-xs px-2 py-1 rounded-full bg-blue-100 text-blue-800">
+                        📵 Nicht hochgeladen
+                      </span>
+                      <button
+                        onClick={() => editInspection(inspection)}
+                        disabled={isEditing}
+                        className="touch-button bg-gray-100 text-gray-700 hover:bg-gray-200 px-3 py-1"
+                      >
+                        ✏️
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default InspectionScreen;
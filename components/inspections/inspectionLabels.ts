@@ -0,0 +1,32 @@
+// 🔧 InspecDoor Prüfungs-Labels - Gemeinsame Anzeige für alle Prüfungs-Ansichten
+
+import type { InspectionStatus } from '../../lib/db/offlineDB';
+
+export const STATUS_LABELS: Record<InspectionStatus, string> = {
+  pending: '⏳ Offen',
+  completed: '✅ Bestanden',
+  failed: '❌ Mängel'
+};
+
+export const STATUS_STYLES: Record<InspectionStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+// Türpins auf dem Gebäudeplan - kräftige Farben, auch auf Grundrissen gut sichtbar
+export const STATUS_PIN_STYLES: Record<InspectionStatus, string> = {
+  pending: 'bg-yellow-400 text-yellow-900',
+  completed: 'bg-green-600 text-white',
+  failed: 'bg-red-600 text-white'
+};
+
+export const formatDate = (isoString: string): string => {
+  return new Date(isoString).toLocaleString('de-DE', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
@@ -0,0 +1,231 @@
+// 🔧 InspecDoor Photo Annotation Editor - Mängel auf Fotos markieren
+// Pfeile, Kreise, Freihand und Text als Vektor-Ebene über dem Original
+
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react';
+import { drawAnnotations } from '../../lib/photos/annotationRenderer';
+import { loadImage, releaseImage } from '../../lib/photos/imageProcessing';
+import type { AnnotationPoint, OfflinePhoto, PhotoAnnotation } from '../../lib/db/offlineDB';
+
+type AnnotationTool = PhotoAnnotation['type'];
+
+interface PhotoAnnotationEditorProps {
+  photo: OfflinePhoto;
+  onSave: (annotations: PhotoAnnotation[]) => void;
+  onCancel: () => void;
+}
+
+const TOOLS: { value: AnnotationTool; label: string }[] = [
+  { value: 'arrow', label: '↗ Pfeil' },
+  { value: 'circle', label: '◯ Kreis' },
+  { value: 'freehand', label: '✎ Freihand' },
+  { value: 'text', label: 'T Text' }
+];
+
+const COLORS = ['#dc2626', '#facc15', '#2563eb', '#ffffff'];
+
+const createAnnotationId = () => `annotation_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+export function PhotoAnnotationEditor({ photo, onSave, onCancel }: PhotoAnnotationEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imageRef = useRef<CanvasImageSource & { width: number; height: number } | null>(null);
+  const startRef = useRef<AnnotationPoint | null>(null);
+
+  const [annotations, setAnnotations] = useState<PhotoAnnotation[]>(photo.annotations || []);
+  const [draft, setDraft] = useState<PhotoAnnotation | null>(null);
+  const [tool, setTool] = useState<AnnotationTool>('arrow');
+  const [color, setColor] = useState(COLORS[0]);
+  const [isImageLoaded, setIsImageLoaded] = useState(false);
+
+  // Original einmalig laden
+  useEffect(() => {
+    let cancelled = false;
+
+    loadImage(photo.blob)
+      .then((image) => {
+        if (cancelled) {
+          releaseImage(image);
+          return;
+        }
+        imageRef.current = image;
+        setIsImageLoaded(true);
+      })
+      .catch(console.error);
+
+    return () => {
+      cancelled = true;
+      if (imageRef.current) {
+        releaseImage(imageRef.current);
+        imageRef.current = null;
+      }
+    };
+  }, [photo.blob]);
+
+  // Bild + Anmerkungen neu zeichnen
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const image = imageRef.current;
+    if (!canvas || !image || !isImageLoaded) return;
+
+    canvas.width = image.width;
+    canvas.height = image.height;
+
+    const context = canvas.getContext('2d');
+    if (!context) return;
+
+    context.drawImage(image, 0, 0, image.width, image.height);
+    drawAnnotations(context, draft ? [...annotations, draft] : annotations, image.width, image.height);
+  }, [annotations, draft, isImageLoaded]);
+
+  const toRelativePoint = (event: React.PointerEvent<HTMLCanvasElement>): AnnotationPoint => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height))
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toRelativePoint(event);
+
+    if (tool === 'text') {
+      const text = window.prompt('Beschriftung');
+      if (text && text.trim()) {
+        setAnnotations(prev => [...prev, {
+          id: createAnnotationId(),
+          type: 'text',
+          color,
+          position: point,
+          text: text.trim()
+        }]);
+      }
+      return;
+    }
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    startRef.current = point;
+
+    if (tool === 'freehand') {
+      setDraft({ id: createAnnotationId(), type: 'freehand', color, points: [point] });
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = startRef.current;
+    const image = imageRef.current;
+    if (!start || !image) return;
+
+    const point = toRelativePoint(event);
+
+    switch (tool) {
+      case 'arrow':
+        setDraft({ id: draft?.id || createAnnotationId(), type: 'arrow', color, from: start, to: point });
+        break;
+
+      case 'circle': {
+        // Radius relativ zur Bildbreite, Abstand in Pixeln messen
+        const dx = (point.x - start.x) * image.width;
+        const dy = (point.y - start.y) * image.height;
+        const radius = Math.sqrt(dx * dx + dy * dy) / image.width;
+        setDraft({ id: draft?.id || createAnnotationId(), type: 'circle', color, center: start, radius });
+        break;
+      }
+
+      case 'freehand':
+        setDraft(prev => prev && prev.type === 'freehand'
+          ? { ...prev, points: [...prev.points, point] }
+          : prev
+        );
+        break;
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (draft) {
+      setAnnotations(prev => [...prev, draft]);
+    }
+    setDraft(null);
+    startRef.current = null;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/90 flex flex-col">
+      {/* Toolbar */}
+      <div className="bg-white p-3 flex flex-wrap items-center gap-2">
+        {TOOLS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => setTool(option.value)}
+            className={`touch-button ${
+              tool === option.value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+
+        <div className="flex gap-2 mx-2">
+          {COLORS.map((option) => (
+            <button
+              key={option}
+              onClick={() => setColor(option)}
+              aria-label={`Farbe ${option}`}
+              className={`touch-target-44 rounded-full border-4 ${
+                color === option ? 'border-gray-900' : 'border-gray-200'
+              }`}
+              style={{ backgroundColor: option }}
+            />
+          ))}
+        </div>
+
+        <button
+          onClick={() => setAnnotations(prev => prev.slice(0, -1))}
+          disabled={annotations.length === 0}
+          className="touch-button bg-gray-100 text-gray-700 hover:bg-gray-200"
+        >
+          ↶ Rückgängig
+        </button>
+        <button
+          onClick={() => setAnnotations([])}
+          disabled={annotations.length === 0}
+          className="touch-button bg-gray-100 text-gray-700 hover:bg-gray-200"
+        >
+          🗑 Alle löschen
+        </button>
+
+        <div className="flex-1"></div>
+
+        <button
+          onClick={onCancel}
+          className="touch-button bg-gray-100 text-gray-700 hover:bg-gray-200"
+        >
+          Abbrechen
+        </button>
+        <button
+          onClick={() => onSave(annotations)}
+          className="touch-button bg-green-600 text-white hover:bg-green-700"
+        >
+          💾 Speichern
+        </button>
+      </div>
+
+      {/* Canvas */}
+      <div className="flex-1 flex items-center justify-center p-4 overflow-hidden">
+        {!isImageLoaded && (
+          <div className="w-8 h-8 border-4 border-white border-t-transparent rounded-full animate-spin"></div>
+        )}
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className={`max-w-full max-h-full touch-none ${isImageLoaded ? '' : 'hidden'}`}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default PhotoAnnotationEditor;
@@ -0,0 +1,141 @@
+// 🔧 InspecDoor Photo Capture - Kamera-Aufnahme für Prüfungen
+// Fotos werden vor dem Speichern komprimiert, Galerie nutzt Thumbnails
+
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useInspectionPhotos, useOfflineInspections } from '../../hooks/useOfflineData';
+import type { OfflinePhoto, PhotoAnnotation } from '../../lib/db/offlineDB';
+import PhotoAnnotationEditor from './PhotoAnnotationEditor';
+
+interface PhotoCaptureProps {
+  inspectionId: string;
+  readOnly?: boolean;
+  className?: string;
+}
+
+function PhotoThumbnail({ photo, onClick }: { photo: OfflinePhoto; onClick?: () => void }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(photo.thumbnail || photo.blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [photo]);
+
+  return (
+    <button
+      onClick={onClick}
+      className="relative aspect-square bg-gray-100 rounded-md overflow-hidden border border-gray-200"
+    >
+      {url && (
+        // eslint-disable-next-line @next/next/no-img-element -- Blob-URL aus IndexedDB, next/image kann sie nicht optimieren
+        <img src={url} alt={photo.filename} className="w-full h-full object-cover" />
+      )}
+      {!photo.synced && (
+        <span className="absolute top-1 right-1 w-3 h-3 bg-yellow-500 rounded-full"></span>
+      )}
+      {photo.annotations && photo.annotations.length > 0 && (
+        <span className="absolute bottom-1 left-1 bg-red-600 text-white text-touch-xs px-1 rounded">
+          ✎ {photo.annotations.length}
+        </span>
+      )}
+    </button>
+  );
+}
+
+export function PhotoCapture({
+  inspectionId,
+  readOnly = false,
+  className = ''
+}: PhotoCaptureProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { photos, reload } = useInspectionPhotos(inspectionId);
+  const { addPhoto, saveAnnotations, error } = useOfflineInspections();
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [annotatingPhoto, setAnnotatingPhoto] = useState<OfflinePhoto | null>(null);
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    if (files.length === 0) return;
+
+    setIsProcessing(true);
+    try {
+      for (const file of files) {
+        await addPhoto(inspectionId, file, file.name || `foto_${Date.now()}.jpg`);
+      }
+      await reload();
+    } finally {
+      setIsProcessing(false);
+      // Gleiche Datei erneut auswählbar machen
+      event.target.value = '';
+    }
+  };
+
+  const handleSaveAnnotations = async (annotations: PhotoAnnotation[]) => {
+    if (!annotatingPhoto) return;
+
+    const saved = await saveAnnotations(annotatingPhoto.id, annotations);
+    if (saved) {
+      setAnnotatingPhoto(null);
+      await reload();
+    }
+  };
+
+  return (
+    <div className={`photo-capture space-y-3 ${className}`}>
+      <div className="flex items-center justify-between">
+        <span className="text-touch-sm text-gray-700">📷 Fotos ({photos.length})</span>
+        {!readOnly && (
+          <button
+            onClick={() => inputRef.current?.click()}
+            disabled={isProcessing}
+            className={`touch-button ${
+              isProcessing
+                ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                : 'bg-blue-600 text-white hover:bg-blue-700'
+            }`}
+          >
+            {isProcessing ? 'Verarbeite...' : '📷 Foto aufnehmen'}
+          </button>
+        )}
+      </div>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        multiple
+        onChange={handleFiles}
+        className="hidden"
+      />
+
+      {error && (
+        <div className="text-red-700 text-touch-xs">{error}</div>
+      )}
+
+      {photos.length > 0 && (
+        <div className="grid grid-cols-4 gap-2">
+          {photos.map((photo) => (
+            <PhotoThumbnail
+              key={photo.id}
+              photo={photo}
+              onClick={readOnly ? undefined : () => setAnnotatingPhoto(photo)}
+            />
+          ))}
+        </div>
+      )}
+
+      {annotatingPhoto && (
+        <PhotoAnnotationEditor
+          photo={annotatingPhoto}
+          onSave={handleSaveAnnotations}
+          onCancel={() => setAnnotatingPhoto(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+export default PhotoCapture;
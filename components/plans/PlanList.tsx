@@ -0,0 +1,125 @@
+// 🔧 InspecDoor Plan List - Gebäudepläne je Standort
+// Zeigt, welche Pläne offline verfügbar sind und wie viele Türen platziert sind
+
+'use client'
+
+import React, { useMemo } from 'react';
+import { useOfflineData, usePlans } from '../../hooks/useOfflineData';
+import type { Plan } from '../../lib/db/offlineDB';
+
+interface PlanListProps {
+  siteId?: string; // Nur Pläne dieses Standorts
+  onPlanSelect?: (plan: Plan) => void;
+  className?: string;
+}
+
+export function PlanList({ siteId, onPlanSelect, className = '' }: PlanListProps) {
+  const { plans, cachedPlanIds, isLoading, error } = usePlans(siteId || null);
+  const { customers, sites, doors } = useOfflineData();
+
+  const pinCounts = useMemo(() => {
+    const counts: { [planId: string]: number } = {};
+    doors.forEach(door => {
+      if (door.plan_id) counts[door.plan_id] = (counts[door.plan_id] || 0) + 1;
+    });
+    return counts;
+  }, [doors]);
+
+  // Nach Standort gruppiert, Standorte und Pläne alphabetisch
+  const groups = useMemo(() => {
+    const bySite: { [siteId: string]: Plan[] } = {};
+    plans.forEach(plan => {
+      (bySite[plan.site_id] = bySite[plan.site_id] || []).push(plan);
+    });
+
+    return Object.keys(bySite)
+      .map(id => {
+        const site = sites.find(entry => entry.id === id);
+        const customer = site ? customers.find(entry => entry.id === site.customer_id) : undefined;
+        return {
+          siteId: id,
+          title: site ? site.site_name : 'Unbekannter Standort',
+          subtitle: customer?.name,
+          plans: bySite[id].sort((a, b) =>
+            [a.building, a.floor, a.plan_name].join(' ').localeCompare([b.building, b.floor, b.plan_name].join(' '), 'de', { numeric: true })
+          )
+        };
+      })
+      .sort((a, b) => a.title.localeCompare(b.title, 'de'));
+  }, [plans, sites, customers]);
+
+  if (isLoading) {
+    return (
+      <div className={`plan-list p-6 text-center text-gray-600 ${className}`}>
+        Lade Pläne...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className={`plan-list p-6 text-center text-red-700 ${className}`}>
+        {error}
+      </div>
+    );
+  }
+
+  if (groups.length === 0) {
+    return (
+      <div className={`plan-list bg-white rounded-lg shadow-sm border p-6 text-center text-gray-600 ${className}`}>
+        🗺️ Keine Gebäudepläne offline vorhanden
+      </div>
+    );
+  }
+
+  const cachedCount = plans.filter(plan => cachedPlanIds.indexOf(plan.id) !== -1).length;
+
+  return (
+    <div className={`plan-list space-y-4 ${className}`}>
+      {cachedCount < plans.length && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-touch-sm text-yellow-800">
+          📵 {plans.length - cachedCount} von {plans.length} Plänen sind noch nicht offline verfügbar
+        </div>
+      )}
+
+      {groups.map((group) => (
+        <div key={group.siteId} className="bg-white rounded-lg shadow-sm border">
+          <div className="p-4 border-b">
+            <div className="text-touch-base font-semibold">📍 {group.title}</div>
+            {group.subtitle && (
+              <div className="text-touch-sm text-gray-600">{group.subtitle}</div>
+            )}
+          </div>
+
+          <div className="divide-y">
+            {group.plans.map((plan) => {
+              const isCached = cachedPlanIds.indexOf(plan.id) !== -1;
+
+              return (
+                <button
+                  key={plan.id}
+                  onClick={() => onPlanSelect?.(plan)}
+                  className="w-full p-4 text-left hover:bg-gray-50 flex items-center justify-between gap-3"
+                >
+                  <div>
+                    <div className="text-touch-base font-medium">{plan.plan_name}</div>
+                    <div className="text-touch-sm text-gray-600">
+                      {[plan.building, plan.floor].filter(Boolean).join(' · ') || 'Ohne Gebäude/Etage'}
+                      {' · '}
+                      {pinCounts[plan.id] || 0} Türen platziert
+                    </div>
+                  </div>
+                  <span className="text-touch-xs text-gray-500 whitespace-nowrap">
+                    {isCached ? '✅ Offline' : '📵 Nicht geladen'}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default PlanList;
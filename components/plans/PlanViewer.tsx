@@ -0,0 +1,469 @@
+// 🔧 InspecDoor Plan Viewer - Gebäudeplan mit Türpins, offline
+// Verschieben/Zoomen per Finger (Pinch), Mausrad oder Buttons.
+// Pins zeigen den Status der letzten Prüfung; vor Ort lassen sie sich setzen.
+
+'use client'
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  useOfflineData,
+  useOfflineDoors,
+  usePlanFile,
+  usePlans
+} from '../../hooks/useOfflineData';
+import { getLatestInspection, groupInspectionsByDoor } from '../../lib/db/doorStatus';
+import { STATUS_LABELS, STATUS_PIN_STYLES } from '../inspections/inspectionLabels';
+import type { Door, InspectionStatus } from '../../lib/db/offlineDB';
+
+interface PlanViewerProps {
+  planId: string;
+  highlightDoorId?: string;     // Beim Öffnen auf diese Tür zoomen
+  initialPlacingDoorId?: string; // Direkt im Platzier-Modus für diese Tür starten
+  onDoorSelect?: (door: Door) => void;
+  className?: string;
+}
+
+interface ViewTransform {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+interface PointerPosition {
+  x: number;
+  y: number;
+}
+
+// Zoom relativ zur Ansicht "ganzer Plan"
+const MAX_ZOOM_FACTOR = 8;
+const HIGHLIGHT_ZOOM_FACTOR = 3;
+const BUTTON_ZOOM_STEP = 1.5;
+// Bis zu dieser Bewegung gilt eine Berührung als Tippen, nicht als Verschieben
+const TAP_TOLERANCE_PX = 8;
+
+const NO_INSPECTION_PIN_STYLE = 'bg-gray-500 text-white';
+
+const distance = (a: PointerPosition, b: PointerPosition): number =>
+  Math.sqrt((a.x - b.x) * (a.x - b.x) + (a.y - b.y) * (a.y - b.y));
+
+// Tippen auf Pins oder Zoom-Buttons setzt keine Tür
+const isButtonTarget = (target: EventTarget | null): boolean =>
+  target instanceof Element && !!target.closest('button');
+
+export function PlanViewer({
+  planId,
+  highlightDoorId,
+  initialPlacingDoorId,
+  onDoorSelect,
+  className = ''
+}: PlanViewerProps) {
+  const { plans, isLoading: plansLoading } = usePlans(null);
+  const { planFile, imageUrl, isLoading: fileLoading } = usePlanFile(planId);
+  const { sites, doors, inspections } = useOfflineData();
+  const { updatePlanPosition, isSaving, error } = useOfflineDoors();
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pointersRef = useRef<{ [pointerId: number]: PointerPosition }>({});
+  const gestureRef = useRef<{ start: PointerPosition; moved: boolean } | null>(null);
+  const lastGestureMovedRef = useRef(false);
+
+  const [view, setView] = useState<ViewTransform | null>(null);
+  const [isPlacing, setIsPlacing] = useState(!!initialPlacingDoorId);
+  const [placingDoorId, setPlacingDoorId] = useState(initialPlacingDoorId || '');
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+
+  const plan = plans.find(entry => entry.id === planId);
+  const site = plan ? sites.find(entry => entry.id === plan.site_id) : undefined;
+
+  const inspectionsByDoor = useMemo(() => groupInspectionsByDoor(inspections), [inspections]);
+
+  const pinnedDoors = useMemo(() => doors.filter(door =>
+    door.plan_id === planId && typeof door.plan_x === 'number' && typeof door.plan_y === 'number'
+  ), [doors, planId]);
+
+  // Türen des Standorts; Türen ohne Standort beim selben Kunden ebenfalls anbieten
+  const placeableDoors = useMemo(() => doors
+    .filter(door => plan && (
+      door.site_id === plan.site_id ||
+      (!door.site_id && !!site && door.customer_id === site.customer_id)
+    ))
+    .sort((a, b) => (a.door_number || '').localeCompare(b.door_number || '', 'de', { numeric: true })),
+  [doors, plan, site]);
+
+  // ================================================================
+  // ANSICHT (Verschieben & Zoomen)
+  // ================================================================
+
+  const getFitView = useCallback((): ViewTransform | null => {
+    const container = containerRef.current;
+    if (!container || !planFile) return null;
+
+    const scale = Math.min(
+      container.clientWidth / planFile.width,
+      container.clientHeight / planFile.height
+    );
+
+    return {
+      scale,
+      x: (container.clientWidth - planFile.width * scale) / 2,
+      y: (container.clientHeight - planFile.height * scale) / 2
+    };
+  }, [planFile]);
+
+  // Zoomt um einen Punkt im Container, der dabei an seiner Stelle bleibt
+  const zoomAt = useCallback((factor: number, centerX: number, centerY: number) => {
+    const fit = getFitView();
+    if (!fit) return;
+
+    setView(prev => {
+      if (!prev) return prev;
+
+      const scale = Math.min(fit.scale * MAX_ZOOM_FACTOR, Math.max(fit.scale, prev.scale * factor));
+      const ratio = scale / prev.scale;
+
+      return {
+        scale,
+        x: centerX - (centerX - prev.x) * ratio,
+        y: centerY - (centerY - prev.y) * ratio
+      };
+    });
+  }, [getFitView]);
+
+  const zoomAtCenter = (factor: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    zoomAt(factor, container.clientWidth / 2, container.clientHeight / 2);
+  };
+
+  // Beim Öffnen ganzen Plan zeigen - oder auf die gesuchte Tür zoomen
+  useEffect(() => {
+    const fit = getFitView();
+    const container = containerRef.current;
+    if (!fit || !container || !planFile) {
+      setView(null);
+      return;
+    }
+
+    const highlighted = highlightDoorId
+      ? pinnedDoors.find(door => door.id === highlightDoorId)
+      : undefined;
+
+    if (highlighted) {
+      const scale = fit.scale * HIGHLIGHT_ZOOM_FACTOR;
+      setView({
+        scale,
+        x: container.clientWidth / 2 - (highlighted.plan_x as number) * planFile.width * scale,
+        y: container.clientHeight / 2 - (highlighted.plan_y as number) * planFile.height * scale
+      });
+    } else {
+      setView(fit);
+    }
+    // Nur beim Wechsel der Plandatei neu ausrichten, nicht bei jeder Pin-Änderung
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [planFile, imageUrl, getFitView]);
+
+  // React registriert onWheel passiv - ohne preventDefault scrollt sonst die Seite
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = container.getBoundingClientRect();
+      zoomAt(event.deltaY < 0 ? 1.15 : 1 / 1.15, event.clientX - rect.left, event.clientY - rect.top);
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [zoomAt, imageUrl]);
+
+  // ================================================================
+  // GESTEN
+  // ================================================================
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    const pointers = pointersRef.current;
+    pointers[event.pointerId] = { x: event.clientX, y: event.clientY };
+
+    if (Object.keys(pointers).length === 1) {
+      gestureRef.current = { start: { x: event.clientX, y: event.clientY }, moved: false };
+    } else if (gestureRef.current) {
+      // Zweiter Finger: Pinch, kein Tippen mehr
+      gestureRef.current.moved = true;
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const pointers = pointersRef.current;
+    const previous = pointers[event.pointerId];
+    const container = containerRef.current;
+    if (!previous || !container) return;
+
+    const current = { x: event.clientX, y: event.clientY };
+    const gesture = gestureRef.current;
+    if (gesture && distance(gesture.start, current) > TAP_TOLERANCE_PX) {
+      gesture.moved = true;
+    }
+
+    const otherIds = Object.keys(pointers).map(Number).filter(id => id !== event.pointerId);
+
+    if (otherIds.length === 0) {
+      if (gesture?.moved) {
+        setView(prev => prev && {
+          ...prev,
+          x: prev.x + current.x - previous.x,
+          y: prev.y + current.y - previous.y
+        });
+      }
+    } else if (otherIds.length === 1) {
+      const other = pointers[otherIds[0]];
+      const rect = container.getBoundingClientRect();
+      const previousDistance = distance(previous, other);
+
+      if (previousDistance > 0) {
+        const previousMid = { x: (previous.x + other.x) / 2, y: (previous.y + other.y) / 2 };
+        const currentMid = { x: (current.x + other.x) / 2, y: (current.y + other.y) / 2 };
+
+        zoomAt(distance(current, other) / previousDistance, currentMid.x - rect.left, currentMid.y - rect.top);
+        setView(prev => prev && {
+          ...prev,
+          x: prev.x + currentMid.x - previousMid.x,
+          y: prev.y + currentMid.y - previousMid.y
+        });
+      }
+    }
+
+    pointers[event.pointerId] = current;
+  };
+
+  const handlePointerEnd = (event: React.PointerEvent<HTMLDivElement>) => {
+    const pointers = pointersRef.current;
+    if (!pointers[event.pointerId]) return;
+
+    delete pointers[event.pointerId];
+    if (Object.keys(pointers).length > 0) return;
+
+    const gesture = gestureRef.current;
+    gestureRef.current = null;
+    lastGestureMovedRef.current = !!gesture?.moved;
+
+    if (event.type === 'pointerup' && gesture && !gesture.moved && !isButtonTarget(event.target)) {
+      placeDoorAt(event.clientX, event.clientY);
+    }
+  };
+
+  // ================================================================
+  // PINS SETZEN
+  // ================================================================
+
+  const placeDoorAt = async (clientX: number, clientY: number) => {
+    const container = containerRef.current;
+    if (!isPlacing || !placingDoorId || !container || !view || !planFile) return;
+
+    const rect = container.getBoundingClientRect();
+    const x = (clientX - rect.left - view.x) / (planFile.width * view.scale);
+    const y = (clientY - rect.top - view.y) / (planFile.height * view.scale);
+    if (x < 0 || x > 1 || y < 0 || y > 1) return;
+
+    const door = await updatePlanPosition(placingDoorId, planId, x, y);
+    if (door) {
+      setSavedMessage(`📍 Tür ${door.door_number || door.location} platziert - wird beim nächsten Upload übertragen`);
+      setIsPlacing(false);
+    }
+  };
+
+  const handlePinClick = (door: Door) => {
+    // Ende einer Verschiebe-Geste auf einem Pin ist kein Antippen
+    if (lastGestureMovedRef.current) return;
+
+    if (isPlacing) {
+      setPlacingDoorId(door.id);
+    } else {
+      onDoorSelect?.(door);
+    }
+  };
+
+  const getPinStatus = (door: Door): InspectionStatus | null => {
+    const latest = getLatestInspection(inspectionsByDoor[door.id] || []);
+    return latest ? latest.status : null;
+  };
+
+  if (plansLoading || fileLoading) {
+    return (
+      <div className={`plan-viewer p-6 text-center text-gray-600 ${className}`}>
+        Lade Plan...
+      </div>
+    );
+  }
+
+  if (!plan) {
+    return (
+      <div className={`plan-viewer p-6 text-center text-gray-600 ${className}`}>
+        Plan nicht gefunden
+      </div>
+    );
+  }
+
+  return (
+    <div className={`plan-viewer space-y-4 ${className}`}>
+      <div className="bg-white rounded-lg shadow-sm border p-4 space-y-1">
+        <h2 className="text-touch-lg font-semibold">🗺️ {plan.plan_name}</h2>
+        <div className="text-touch-sm text-gray-600">
+          {[site?.site_name, plan.building, plan.floor].filter(Boolean).join(' · ')}
+        </div>
+        {planFile?.source_type === 'pdf' && (
+          <div className="text-touch-xs text-gray-500">
+            Aus PDF übernommen (Seite 1)
+          </div>
+        )}
+      </div>
+
+      {!imageUrl || !planFile ? (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-touch-sm text-yellow-800">
+          {plan.file_url
+            ? '📵 Plan ist noch nicht offline verfügbar - er wird beim nächsten Download (ggf. nur über WLAN) geladen.'
+            : 'Für diesen Plan ist keine Datei hinterlegt.'}
+        </div>
+      ) : (
+        <>
+          <div
+            ref={containerRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerEnd}
+            onPointerCancel={handlePointerEnd}
+            onPointerLeave={handlePointerEnd}
+            className={`relative h-[65vh] bg-gray-100 border rounded-lg overflow-hidden select-none touch-none ${
+              isPlacing ? 'cursor-crosshair' : 'cursor-grab'
+            }`}
+          >
+            {view && (
+              <div
+                className="absolute top-0 left-0 origin-top-left"
+                style={{
+                  width: planFile.width,
+                  height: planFile.height,
+                  transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`
+                }}
+              >
+                {/* eslint-disable-next-line @next/next/no-img-element -- Blob-URL aus IndexedDB */}
+                <img
+                  src={imageUrl}
+                  alt={plan.plan_name}
+                  draggable={false}
+                  className="w-full h-full pointer-events-none"
+                />
+
+                {pinnedDoors.map((door) => {
+                  const status = getPinStatus(door);
+                  const isSelected = door.id === highlightDoorId || (isPlacing && door.id === placingDoorId);
+
+                  return (
+                    <button
+                      key={door.id}
+                      onClick={() => handlePinClick(door)}
+                      title={`${door.door_number || ''} ${door.location}`.trim()}
+                      className={`absolute min-w-[2.75rem] h-11 px-2 rounded-full border-2 border-white shadow-md text-touch-xs font-bold whitespace-nowrap ${
+                        status ? STATUS_PIN_STYLES[status] : NO_INSPECTION_PIN_STYLE
+                      } ${isSelected ? 'ring-4 ring-blue-500' : ''}`}
+                      style={{
+                        left: `${(door.plan_x as number) * 100}%`,
+                        top: `${(door.plan_y as number) * 100}%`,
+                        // Mittelpunkt auf der Position; Pins bleiben beim Zoomen gleich groß
+                        transform: `translate(-50%, -50%) scale(${1 / view.scale})`
+                      }}
+                    >
+                      {door.door_number || '🚪'}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="absolute right-3 bottom-3 flex flex-col gap-2">
+              <button
+                onClick={() => zoomAtCenter(BUTTON_ZOOM_STEP)}
+                className="touch-button bg-white text-gray-800 shadow-md"
+                aria-label="Hineinzoomen"
+              >
+                ➕
+              </button>
+              <button
+                onClick={() => zoomAtCenter(1 / BUTTON_ZOOM_STEP)}
+                className="touch-button bg-white text-gray-800 shadow-md"
+                aria-label="Herauszoomen"
+              >
+                ➖
+              </button>
+              <button
+                onClick={() => setView(getFitView())}
+                className="touch-button bg-white text-gray-800 shadow-md"
+                aria-label="Ganzen Plan zeigen"
+              >
+                ⤢
+              </button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-3 text-touch-xs text-gray-600">
+            {(Object.keys(STATUS_PIN_STYLES) as InspectionStatus[]).map((status) => (
+              <span key={status} className="flex items-center gap-1">
+                <span className={`inline-block w-3 h-3 rounded-full ${STATUS_PIN_STYLES[status]}`}></span>
+                {STATUS_LABELS[status]}
+              </span>
+            ))}
+            <span className="flex items-center gap-1">
+              <span className={`inline-block w-3 h-3 rounded-full ${NO_INSPECTION_PIN_STYLE}`}></span>
+              Noch nicht geprüft
+            </span>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border p-4 space-y-3">
+            <div className="text-touch-base font-medium">📍 Tür auf dem Plan platzieren</div>
+            <select
+              value={placingDoorId}
+              onChange={(e) => { setPlacingDoorId(e.target.value); setSavedMessage(null); }}
+              className="w-full border border-gray-300 rounded-md p-3 text-touch-base"
+            >
+              <option value="">Tür wählen</option>
+              {placeableDoors.map((door) => (
+                <option key={door.id} value={door.id}>
+                  {door.door_number || 'Ohne Nummer'} - {door.location}
+                  {door.plan_id === planId ? ' (bereits platziert)' : ''}
+                </option>
+              ))}
+            </select>
+
+            <button
+              onClick={() => { setIsPlacing(!isPlacing); setSavedMessage(null); }}
+              disabled={!placingDoorId || isSaving}
+              className={`touch-button w-full ${
+                isPlacing
+                  ? 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  : 'bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500'
+              }`}
+            >
+              {isPlacing ? 'Abbrechen' : '📍 Position im Plan antippen'}
+            </button>
+
+            {isPlacing && (
+              <div className="text-touch-sm text-blue-700">
+                Tippen Sie im Plan auf die Stelle der Tür. Ein Pin lässt sich so auch verschieben.
+              </div>
+            )}
+
+            {savedMessage && (
+              <div className="text-touch-sm text-green-700">{savedMessage}</div>
+            )}
+
+            {error && (
+              <div className="text-red-700 text-touch-sm">{error}</div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default PlanViewer;
@@ -0,0 +1,195 @@
+// 🔧 InspecDoor Report Screen - Prüfbericht für einen Besuch erzeugen und teilen
+// Der Bericht entsteht offline auf dem Tablet, bleibt lokal gespeichert und
+// wird beim nächsten Upload automatisch ans Büro übertragen.
+
+'use client'
+
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { useOfflineData, useReports } from '../../hooks/useOfflineData';
+import { getVisitInspections, isInspectionSigned } from '../../lib/db/visits';
+import { formatDate } from '../inspections/inspectionLabels';
+import type { InspectionReport } from '../../lib/db/offlineDB';
+
+interface ReportScreenProps {
+  initialCustomerId?: string;
+  initialSiteId?: string;
+  className?: string;
+}
+
+const formatFileSize = (bytes: number): string =>
+  `${(bytes / (1024 * 1024)).toLocaleString('de-DE', { maximumFractionDigits: 1 })} MB`;
+
+const toFile = (report: InspectionReport): File =>
+  new File([report.blob], report.file_name, { type: 'application/pdf' });
+
+export function ReportScreen({ initialCustomerId, initialSiteId, className = '' }: ReportScreenProps) {
+  const { customers, sites, doors, inspections } = useOfflineData();
+
+  const [customerId, setCustomerId] = useState(initialCustomerId || '');
+  const [siteId, setSiteId] = useState(initialSiteId || '');
+  const [day, setDay] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [shareError, setShareError] = useState<string | null>(null);
+
+  const { reports, createReport, isGenerating, error } = useReports(customerId || null);
+
+  const customerSites = sites.filter(site => site.customer_id === customerId);
+
+  const visitInspections = useMemo(() => customerId
+    ? getVisitInspections({ customerId, siteId: siteId || undefined, day }, doors, inspections)
+    : [],
+  [customerId, siteId, day, doors, inspections]);
+
+  const doorCount = visitInspections
+    .map(inspection => inspection.door_id)
+    .filter((doorId, index, doorIds) => doorIds.indexOf(doorId) === index)
+    .length;
+  const signedCount = visitInspections.filter(isInspectionSigned).length;
+  const pendingCount = visitInspections.filter(inspection => inspection.status === 'pending').length;
+
+  const handleCreate = async () => {
+    setShareError(null);
+    await createReport({ customerId, siteId: siteId || undefined, day });
+  };
+
+  const handleSave = (report: InspectionReport) => {
+    const url = URL.createObjectURL(report.blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = report.file_name;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Teilen-Dialog des Tablets (Mail, Messenger, Drive) - sonst herunterladen
+  const handleShare = async (report: InspectionReport) => {
+    setShareError(null);
+    const file = toFile(report);
+
+    if (!navigator.canShare || !navigator.canShare({ files: [file] })) {
+      handleSave(report);
+      return;
+    }
+
+    try {
+      await navigator.share({ files: [file], title: report.file_name });
+    } catch (err) {
+      // Abbruch im Teilen-Dialog ist kein Fehler
+      if (err instanceof Error && err.name !== 'AbortError') {
+        setShareError(err.message);
+      }
+    }
+  };
+
+  return (
+    <div className={`report-screen space-y-4 ${className}`}>
+      {/* 👤 BESUCH */}
+      <div className="bg-white rounded-lg shadow-sm border p-4 space-y-3">
+        <select
+          value={customerId}
+          onChange={(e) => { setCustomerId(e.target.value); setSiteId(''); }}
+          className="w-full border border-gray-300 rounded-md p-3 text-touch-base"
+        >
+          <option value="">Kunde wählen</option>
+          {customers.map((customer) => (
+            <option key={customer.id} value={customer.id}>{customer.name}</option>
+          ))}
+        </select>
+
+        <div className="grid grid-cols-2 gap-3">
+          <select
+            value={siteId}
+            onChange={(e) => setSiteId(e.target.value)}
+            disabled={customerSites.length === 0}
+            className="w-full border border-gray-300 rounded-md p-3 text-touch-base disabled:bg-gray-100"
+          >
+            <option value="">Alle Objekte</option>
+            {customerSites.map((site) => (
+              <option key={site.id} value={site.id}>{site.site_name}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={day}
+            onChange={(e) => setDay(e.target.value)}
+            className="w-full border border-gray-300 rounded-md p-3 text-touch-base"
+          />
+        </div>
+
+        {customerId && (
+          <div className="text-touch-sm text-gray-600">
+            🚪 {doorCount} Türen geprüft · ✍️ {signedCount} von {visitInspections.length} Prüfungen unterschrieben
+          </div>
+        )}
+
+        {pendingCount > 0 && (
+          <div className="text-touch-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded p-3">
+            ⏳ {pendingCount} Prüfung{pendingCount !== 1 ? 'en' : ''} noch nicht abgeschlossen – im Bericht als offen markiert
+          </div>
+        )}
+
+        {error && (
+          <div className="text-red-700 text-touch-sm">{error}</div>
+        )}
+
+        <button
+          onClick={handleCreate}
+          disabled={isGenerating || doorCount === 0}
+          className="touch-button w-full bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500"
+        >
+          {isGenerating ? 'Erstelle Prüfbericht...' : '📄 Prüfbericht erstellen'}
+        </button>
+      </div>
+
+      {/* 📁 GESPEICHERTE BERICHTE */}
+      {customerId && (
+        <div className="bg-white rounded-lg shadow-sm border p-4 space-y-2">
+          <h3 className="text-touch-base font-semibold">📁 Gespeicherte Prüfberichte ({reports.length})</h3>
+
+          {shareError && (
+            <div className="text-red-700 text-touch-sm">{shareError}</div>
+          )}
+
+          {reports.length === 0 ? (
+            <div className="text-touch-sm text-gray-500 p-3 bg-gray-50 rounded border">
+              Noch keine Prüfberichte für diesen Kunden
+            </div>
+          ) : (
+            reports.map((report) => {
+              const site = sites.find(entry => entry.id === report.site_id);
+
+              return (
+                <div key={report.id} className="flex items-center gap-3 p-3 rounded border">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-touch-sm font-medium break-words">{report.file_name}</div>
+                    <div className="text-touch-xs text-gray-600">
+                      {site ? `${site.site_name} · ` : ''}
+                      {report.inspection_ids.length} Prüfungen · {formatFileSize(report.blob.size)} · erstellt {formatDate(report.created_at)}
+                    </div>
+                    <div className="text-touch-xs text-gray-500">
+                      {report.synced ? '✅ Ans Büro übertragen' : '⏳ Upload ausstehend'}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleSave(report)}
+                    className="touch-button bg-gray-100 text-gray-700 hover:bg-gray-200 px-3"
+                  >
+                    💾
+                  </button>
+                  <button
+                    onClick={() => handleShare(report)}
+                    className="touch-button bg-blue-600 text-white hover:bg-blue-700 px-3"
+                  >
+                    📤 Teilen
+                  </button>
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ReportScreen;
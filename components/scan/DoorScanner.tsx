@@ -0,0 +1,179 @@
+// 🔧 InspecDoor Door Scanner - Tür-Etikett mit der Tablet-Kamera scannen
+// Erkennung komplett offline; unbekannte Codes können als neue Tür angelegt werden
+
+'use client'
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { createCodeDetector } from '../../lib/scan/codeDetector';
+import { findDoorByCode, parseDoorCode, type ScannedDoorCode } from '../../lib/scan/doorCodes';
+import type { Door } from '../../lib/db/offlineDB';
+
+interface DoorScannerProps {
+  onDoorFound?: (door: Door) => void;
+  onCreateDoor?: (code: ScannedDoorCode) => void;
+  className?: string;
+}
+
+// Kamerabild alle 250ms prüfen - flüssig genug, schont den Akku
+const SCAN_INTERVAL_MS = 250;
+
+export function DoorScanner({ onDoorFound, onCreateDoor, className = '' }: DoorScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isScanning, setIsScanning] = useState(true);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [unknownCode, setUnknownCode] = useState<ScannedDoorCode | null>(null);
+  const [manualCode, setManualCode] = useState('');
+
+  const resolveCode = useCallback(async (raw: string) => {
+    const code = parseDoorCode(raw);
+    if (!code) return;
+
+    const door = await findDoorByCode(code);
+    if (door) {
+      onDoorFound?.(door);
+    } else {
+      setUnknownCode(code);
+    }
+  }, [onDoorFound]);
+
+  useEffect(() => {
+    if (!isScanning) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let cancelled = false;
+
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setCameraError('Diese Kamera wird vom Browser nicht unterstützt - Code bitte manuell eingeben');
+        return;
+      }
+
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: { ideal: 'environment' } },
+          audio: false
+        });
+        if (cancelled || !videoRef.current) return;
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        setCameraError(null);
+
+        const detector = await createCodeDetector();
+
+        const scanFrame = async () => {
+          if (cancelled || !videoRef.current) return;
+
+          try {
+            const raw = await detector.detect(videoRef.current);
+            if (raw && !cancelled) {
+              setIsScanning(false);
+              await resolveCode(raw);
+              return;
+            }
+          } catch (error) {
+            console.error('Code detection failed:', error);
+          }
+
+          timer = setTimeout(scanFrame, SCAN_INTERVAL_MS);
+        };
+
+        scanFrame();
+      } catch (error) {
+        console.error('Camera start failed:', error);
+        setCameraError('Kamera nicht verfügbar - Zugriff erlauben oder Code manuell eingeben');
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isScanning, resolveCode]);
+
+  const restartScan = () => {
+    setUnknownCode(null);
+    setManualCode('');
+    setIsScanning(true);
+  };
+
+  const handleManualSubmit = async () => {
+    if (!manualCode.trim()) return;
+    setIsScanning(false);
+    await resolveCode(manualCode);
+  };
+
+  return (
+    <div className={`door-scanner space-y-4 ${className}`}>
+      {isScanning && (
+        <div className="relative bg-black rounded-lg overflow-hidden aspect-video">
+          <video ref={videoRef} playsInline muted className="w-full h-full object-cover" />
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <div className="w-56 h-56 border-4 border-white/80 rounded-lg"></div>
+          </div>
+          <div className="absolute bottom-0 left-0 right-0 p-3 bg-black/50 text-white text-touch-sm text-center">
+            Etikett der Tür in den Rahmen halten
+          </div>
+        </div>
+      )}
+
+      {cameraError && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-touch-sm text-yellow-800">
+          📷 {cameraError}
+        </div>
+      )}
+
+      {unknownCode && (
+        <div className="bg-orange-50 border border-orange-200 rounded-lg p-4 space-y-3">
+          <div className="text-touch-base font-medium text-orange-800">
+            ❓ Unbekannter Code
+          </div>
+          <div className="text-touch-sm text-orange-700 font-mono break-all">{unknownCode.raw}</div>
+          <div className="text-touch-sm text-orange-700">
+            Diese Tür ist offline nicht vorhanden. Soll sie neu angelegt werden?
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={restartScan}
+              className="touch-button flex-1 bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              🔄 Erneut scannen
+            </button>
+            <button
+              onClick={() => onCreateDoor?.(unknownCode)}
+              className="touch-button flex-1 bg-blue-600 text-white hover:bg-blue-700"
+            >
+              ➕ Neue Tür anlegen
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!unknownCode && (
+        <div className="bg-white rounded-lg shadow-sm border p-4 flex gap-2">
+          <input
+            type="text"
+            placeholder="Code oder Türnummer eingeben"
+            value={manualCode}
+            onChange={(e) => setManualCode(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleManualSubmit(); }}
+            className="flex-1 border border-gray-300 rounded-md p-3 text-touch-base"
+          />
+          <button
+            onClick={handleManualSubmit}
+            disabled={!manualCode.trim()}
+            className="touch-button bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500"
+          >
+            Öffnen
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DoorScanner;
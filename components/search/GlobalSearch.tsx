@@ -0,0 +1,88 @@
+// 🔧 InspecDoor Global Search - Suchleiste für Kunden, Türen und Objekte
+// Arbeitet komplett offline auf dem lokalen Suchindex
+
+'use client'
+
+import React, { useState } from 'react';
+import { useOfflineSearch } from '../../hooks/useOfflineData';
+import type { SearchResult, SearchResultType } from '../../lib/search/searchIndex';
+import type { Customer, Door, Site } from '../../lib/db/offlineDB';
+
+interface GlobalSearchProps {
+  onCustomerSelect?: (customer: Customer) => void;
+  onDoorSelect?: (door: Door) => void;
+  onSiteSelect?: (site: Site) => void;
+  className?: string;
+}
+
+const TYPE_ICONS: Record<SearchResultType, string> = {
+  customer: '👥',
+  door: '🚪',
+  site: '🏢'
+};
+
+export function GlobalSearch({
+  onCustomerSelect,
+  onDoorSelect,
+  onSiteSelect,
+  className = ''
+}: GlobalSearchProps) {
+  const [query, setQuery] = useState('');
+  const { results, isSearching } = useOfflineSearch(query);
+
+  const handleSelect = (result: SearchResult) => {
+    setQuery('');
+
+    switch (result.type) {
+      case 'customer':
+        onCustomerSelect?.(result.record);
+        break;
+      case 'door':
+        onDoorSelect?.(result.record);
+        break;
+      case 'site':
+        onSiteSelect?.(result.record);
+        break;
+    }
+  };
+
+  return (
+    <div className={`global-search relative ${className}`}>
+      <input
+        type="search"
+        placeholder="🔍 Kunde, Tür oder Objekt suchen"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        className="w-full border border-gray-300 rounded-md p-3 text-touch-base"
+      />
+
+      {query.trim() && (
+        <div className="absolute left-0 right-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg z-30 max-h-96 overflow-y-auto">
+          {results.length === 0 ? (
+            <div className="p-4 text-touch-sm text-gray-500">
+              {isSearching ? 'Suche...' : 'Keine Treffer'}
+            </div>
+          ) : (
+            results.map((result) => (
+              <button
+                key={`${result.type}-${result.record.id}`}
+                onClick={() => handleSelect(result)}
+                className="w-full flex items-center gap-3 p-3 text-left hover:bg-gray-50 border-b border-gray-100 last:border-b-0"
+              >
+                <span className="text-touch-lg">{TYPE_ICONS[result.type]}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="text-touch-base font-medium text-gray-900 truncate">{result.title}</div>
+                  {result.subtitle && (
+                    <div className="text-touch-xs text-gray-600 truncate">{result.subtitle}</div>
+                  )}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default GlobalSearch;
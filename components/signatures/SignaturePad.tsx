@@ -0,0 +1,89 @@
+// 🔧 InspecDoor Signature Pad - Unterschrift mit Finger oder Stift
+// Striche als Vektordaten; das PNG entsteht erst beim Speichern
+
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  SIGNATURE_HEIGHT,
+  SIGNATURE_WIDTH,
+  drawSignatureStrokes,
+  type SignatureStroke
+} from '../../lib/signatures/signatureImage';
+import type { AnnotationPoint } from '../../lib/db/offlineDB';
+
+interface SignaturePadProps {
+  strokes: SignatureStroke[];
+  onChange: (strokes: SignatureStroke[]) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function SignaturePad({ strokes, onChange, disabled = false, className = '' }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [draft, setDraft] = useState<SignatureStroke | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    drawSignatureStrokes(context, draft ? [...strokes, draft] : strokes, canvas.width, canvas.height);
+  }, [strokes, draft]);
+
+  const toRelativePoint = (event: React.PointerEvent<HTMLCanvasElement>): AnnotationPoint => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height))
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDraft([toRelativePoint(event)]);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!draft) return;
+
+    const point = toRelativePoint(event);
+    setDraft(prev => prev && [...prev, point]);
+  };
+
+  const handlePointerUp = () => {
+    if (draft) {
+      onChange([...strokes, draft]);
+    }
+    setDraft(null);
+  };
+
+  return (
+    <div className={`signature-pad relative ${className}`}>
+      <canvas
+        ref={canvasRef}
+        width={SIGNATURE_WIDTH}
+        height={SIGNATURE_HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className={`w-full aspect-[3/1] bg-white border-2 border-dashed rounded-lg touch-none ${
+          disabled ? 'border-gray-200' : 'border-gray-400 cursor-crosshair'
+        }`}
+      />
+      {/* Unterschriftslinie */}
+      <div className="absolute left-[8%] right-[8%] bottom-[22%] border-b border-gray-300 pointer-events-none"></div>
+      {strokes.length === 0 && !draft && (
+        <div className="absolute inset-0 flex items-center justify-center text-touch-sm text-gray-400 pointer-events-none">
+          Hier unterschreiben
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SignaturePad;
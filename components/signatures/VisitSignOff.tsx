@@ -0,0 +1,250 @@
+// 🔧 InspecDoor Visit Sign-Off - Abnahme der Prüfergebnisse durch den Kunden
+// Unterschrift wird offline gespeichert und mit den Prüfungen hochgeladen;
+// danach sind die unterschriebenen Prüfungen gesperrt.
+
+'use client'
+
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { useOfflineData, useSignatures } from '../../hooks/useOfflineData';
+import { getDefects } from '../../lib/db/checklists';
+import { getVisitInspections, isInspectionSigned } from '../../lib/db/visits';
+import { renderSignatureImage, type SignatureStroke } from '../../lib/signatures/signatureImage';
+import SignaturePad from './SignaturePad';
+import { STATUS_LABELS, STATUS_STYLES, formatDate } from '../inspections/inspectionLabels';
+import type { Signature } from '../../lib/db/offlineDB';
+
+interface VisitSignOffProps {
+  initialCustomerId?: string;
+  initialSiteId?: string;
+  onSigned?: (signature: Signature) => void;
+  className?: string;
+}
+
+export function VisitSignOff({ initialCustomerId, initialSiteId, onSigned, className = '' }: VisitSignOffProps) {
+  const { customers, sites, doors, inspections } = useOfflineData();
+  const { signInspections, isSaving, error } = useSignatures();
+
+  const [customerId, setCustomerId] = useState(initialCustomerId || '');
+  const [siteId, setSiteId] = useState(initialSiteId || '');
+  const [day, setDay] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [excludedIds, setExcludedIds] = useState<string[]>([]);
+  const [signerName, setSignerName] = useState(
+    () => customers.find(customer => customer.id === initialCustomerId)?.contact_person || ''
+  );
+  const [strokes, setStrokes] = useState<SignatureStroke[]>([]);
+  const [signature, setSignature] = useState<Signature | null>(null);
+
+  const customerSites = sites.filter(site => site.customer_id === customerId);
+
+  const visitInspections = useMemo(() => customerId
+    ? getVisitInspections({ customerId, siteId: siteId || undefined, day }, doors, inspections)
+    : [],
+  [customerId, siteId, day, doors, inspections]);
+
+  // Offene und bereits unterschriebene Prüfungen können nicht (erneut) abgenommen werden
+  const selectedIds = visitInspections
+    .filter(inspection =>
+      inspection.status !== 'pending' &&
+      !isInspectionSigned(inspection) &&
+      excludedIds.indexOf(inspection.id) === -1
+    )
+    .map(inspection => inspection.id);
+
+  const canSign = !isSaving && selectedIds.length > 0 && !!signerName.trim() && strokes.length > 0;
+
+  const toggleInspection = (inspectionId: string) => {
+    setExcludedIds(prev => prev.indexOf(inspectionId) === -1
+      ? [...prev, inspectionId]
+      : prev.filter(id => id !== inspectionId)
+    );
+  };
+
+  const handleCustomerChange = (id: string) => {
+    setCustomerId(id);
+    setSiteId('');
+    setExcludedIds([]);
+    setSignerName(customers.find(customer => customer.id === id)?.contact_person || '');
+  };
+
+  const handleSign = async () => {
+    const image = await renderSignatureImage(strokes);
+    const saved = await signInspections({
+      customerId,
+      siteId: siteId || undefined,
+      inspectionIds: selectedIds,
+      signerName,
+      image
+    });
+
+    if (saved) {
+      setSignature(saved);
+      setStrokes([]);
+      onSigned?.(saved);
+    }
+  };
+
+  if (signature) {
+    return (
+      <div className={`visit-sign-off bg-green-50 border border-green-200 rounded-lg p-6 space-y-2 ${className}`}>
+        <div className="text-touch-lg font-semibold text-green-800">✍️ Abnahme gespeichert</div>
+        <div className="text-touch-sm text-green-700">
+          Unterschrieben von <strong>{signature.signer_name}</strong> am {formatDate(signature.signed_at)} für{' '}
+          {signature.inspection_ids.length} Prüfung{signature.inspection_ids.length !== 1 ? 'en' : ''}.
+        </div>
+        <div className="text-touch-sm text-green-700">
+          Die Prüfungen sind jetzt gesperrt und werden mit der Unterschrift beim nächsten Upload übertragen.
+        </div>
+        <button
+          onClick={() => setSignature(null)}
+          className="touch-button mt-2 bg-white text-gray-700 border hover:bg-gray-50"
+        >
+          Weitere Abnahme
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`visit-sign-off space-y-4 ${className}`}>
+      {/* 👤 BESUCH */}
+      <div className="bg-white rounded-lg shadow-sm border p-4 space-y-3">
+        <select
+          value={customerId}
+          onChange={(e) => handleCustomerChange(e.target.value)}
+          className="w-full border border-gray-300 rounded-md p-3 text-touch-base"
+        >
+          <option value="">Kunde wählen</option>
+          {customers.map((customer) => (
+            <option key={customer.id} value={customer.id}>{customer.name}</option>
+          ))}
+        </select>
+
+        <div className="grid grid-cols-2 gap-3">
+          <select
+            value={siteId}
+            onChange={(e) => { setSiteId(e.target.value); setExcludedIds([]); }}
+            disabled={customerSites.length === 0}
+            className="w-full border border-gray-300 rounded-md p-3 text-touch-base disabled:bg-gray-100"
+          >
+            <option value="">Alle Objekte</option>
+            {customerSites.map((site) => (
+              <option key={site.id} value={site.id}>{site.site_name}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={day}
+            onChange={(e) => { setDay(e.target.value); setExcludedIds([]); }}
+            className="w-full border border-gray-300 rounded-md p-3 text-touch-base"
+          />
+        </div>
+      </div>
+
+      {/* 📋 PRÜFUNGEN DES BESUCHS */}
+      {customerId && (
+        <div className="bg-white rounded-lg shadow-sm border p-4 space-y-2">
+          <h3 className="text-touch-base font-semibold">
+            📋 Prüfungen ({selectedIds.length} von {visitInspections.length} zur Abnahme)
+          </h3>
+
+          {visitInspections.length === 0 ? (
+            <div className="text-touch-sm text-gray-500 p-3 bg-gray-50 rounded border">
+              Keine Prüfungen an diesem Tag
+            </div>
+          ) : (
+            visitInspections.map((inspection) => {
+              const door = doors.find(entry => entry.id === inspection.door_id);
+              const signed = isInspectionSigned(inspection);
+              const selectable = inspection.status !== 'pending' && !signed;
+              const defectCount = getDefects(inspection.checklist || []).length;
+
+              return (
+                <label
+                  key={inspection.id}
+                  className={`flex items-center gap-3 p-3 rounded border ${selectable ? 'cursor-pointer' : 'bg-gray-50 text-gray-500'}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.indexOf(inspection.id) !== -1}
+                    disabled={!selectable}
+                    onChange={() => toggleInspection(inspection.id)}
+                    className="w-6 h-6"
+                  />
+                  <div className="flex-1">
+                    <div className="text-touch-sm font-medium">
+                      🚪 {door?.door_number || 'Ohne Nummer'} · {door?.location}
+                    </div>
+                    <div className="text-touch-xs text-gray-600">
+                      {inspection.inspector_name}
+                      {defectCount > 0 && ` · ${defectCount} Mängel`}
+                    </div>
+                  </div>
+                  {signed ? (
+                    <span className="text-touch-xs px-2 py-1 rounded-full bg-green-100 text-green-800">
+                      ✍️ {inspection.signed_by}
+                    </span>
+                  ) : (
+                    <span className={`text-touch-xs px-2 py-1 rounded-full ${STATUS_STYLES[inspection.status]}`}>
+                      {inspection.status === 'pending' ? '⏳ Erst abschließen' : STATUS_LABELS[inspection.status]}
+                    </span>
+                  )}
+                </label>
+              );
+            })
+          )}
+        </div>
+      )}
+
+      {/* ✍️ UNTERSCHRIFT */}
+      {selectedIds.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border p-4 space-y-3">
+          <label className="block text-touch-sm text-gray-700">
+            Name des Unterzeichners *
+            <input
+              type="text"
+              value={signerName}
+              onChange={(e) => setSignerName(e.target.value)}
+              placeholder="Vor- und Nachname"
+              className="mt-1 w-full border border-gray-300 rounded-md p-3 text-touch-base"
+            />
+          </label>
+
+          <SignaturePad strokes={strokes} onChange={setStrokes} disabled={isSaving} />
+
+          <div className="text-touch-xs text-gray-600">
+            Mit der Unterschrift werden die Ergebnisse von {selectedIds.length} Prüfung
+            {selectedIds.length !== 1 ? 'en' : ''} abgenommen. Danach können sie nicht mehr geändert werden.
+          </div>
+
+          {error && (
+            <div className="text-red-700 text-touch-sm">{error}</div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              onClick={() => setStrokes([])}
+              disabled={strokes.length === 0 || isSaving}
+              className="touch-button flex-1 bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:text-gray-400"
+            >
+              🗑 Löschen
+            </button>
+            <button
+              onClick={handleSign}
+              disabled={!canSign}
+              className={`touch-button flex-1 ${
+                canSign
+                  ? 'bg-green-600 text-white hover:bg-green-700'
+                  : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              }`}
+            >
+              {isSaving ? 'Speichert...' : '✍️ Abnahme speichern'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default VisitSignOff;
@@ -0,0 +1,164 @@
+// 🔧 InspecDoor Conflict Resolver - Eigene vs. Büro-Änderungen
+// Gegenüberstellung mit "Meine behalten", "Server übernehmen" und Feldauswahl
+
+'use client'
+
+import React, { useState } from 'react';
+import { useSyncConflicts } from '../../hooks/useOfflineData';
+import {
+  formatFieldValue,
+  getConflictingFields,
+  mergeConflictRecords,
+  type FieldChoice
+} from '../../lib/db/conflicts';
+import type { SyncConflict } from '../../lib/db/offlineDB';
+
+interface ConflictResolverProps {
+  onResolved?: () => void;
+  className?: string;
+}
+
+const ENTITY_LABELS: Record<SyncConflict['entity'], string> = {
+  inspections: '📋 Prüfung',
+  doors: '🚪 Tür'
+};
+
+const FIELD_LABELS: { [field: string]: string } = {
+  inspector_name: 'Prüfer',
+  inspection_date: 'Prüfdatum',
+  status: 'Status',
+  notes: 'Bemerkungen',
+  checklist: 'Checkliste',
+  photos: 'Fotos',
+  location: 'Standort',
+  door_number: 'Türnummer',
+  door_type: 'Typ',
+  manufacturer: 'Hersteller',
+  model: 'Modell',
+  year: 'Baujahr'
+};
+
+function ConflictDetail({
+  conflict,
+  onResolve
+}: {
+  conflict: SyncConflict;
+  onResolve: (resolution: 'mine' | 'theirs' | 'merge', choices: { [field: string]: FieldChoice }) => void;
+}) {
+  const fields = getConflictingFields(conflict);
+  const [choices, setChoices] = useState<{ [field: string]: FieldChoice }>({});
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-[1fr_2fr_2fr] gap-2 text-touch-xs font-medium text-gray-500">
+        <div>Feld</div>
+        <div>📱 Meine Fassung</div>
+        <div>🏢 Büro</div>
+      </div>
+
+      {fields.map((field) => {
+        const choice = choices[field] || 'mine';
+        return (
+          <div key={field} className="grid grid-cols-[1fr_2fr_2fr] gap-2 text-touch-sm">
+            <div className="text-gray-700 font-medium">{FIELD_LABELS[field] || field}</div>
+            {(['mine', 'theirs'] as FieldChoice[]).map((side) => (
+              <button
+                key={side}
+                onClick={() => setChoices(prev => ({ ...prev, [field]: side }))}
+                className={`text-left p-2 rounded-md border break-words line-clamp-2 ${
+                  choice === side ? 'border-blue-600 bg-blue-50' : 'border-gray-200 bg-white'
+                }`}
+              >
+                {formatFieldValue(side === 'mine' ? conflict.local_record : conflict.server_record, field)}
+              </button>
+            ))}
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap gap-2 pt-2">
+        <button
+          onClick={() => onResolve('mine', choices)}
+          className="touch-button flex-1 bg-blue-600 text-white hover:bg-blue-700"
+        >
+          📱 Meine behalten
+        </button>
+        <button
+          onClick={() => onResolve('theirs', choices)}
+          className="touch-button flex-1 bg-gray-600 text-white hover:bg-gray-700"
+        >
+          🏢 Büro übernehmen
+        </button>
+        <button
+          onClick={() => onResolve('merge', choices)}
+          className="touch-button flex-1 bg-green-600 text-white hover:bg-green-700"
+        >
+          🔀 Auswahl zusammenführen
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function ConflictResolver({ onResolved, className = '' }: ConflictResolverProps) {
+  const { conflicts, error, resolveConflict } = useSyncConflicts();
+  const [openConflictId, setOpenConflictId] = useState<string | null>(null);
+
+  if (conflicts.length === 0) return null;
+
+  const handleResolve = async (
+    conflict: SyncConflict,
+    resolution: 'mine' | 'theirs' | 'merge',
+    choices: { [field: string]: FieldChoice }
+  ) => {
+    const merged = resolution === 'merge' ? mergeConflictRecords(conflict, choices) : undefined;
+    const resolved = await resolveConflict(conflict.id, resolution, merged);
+    if (resolved) {
+      setOpenConflictId(null);
+      onResolved?.();
+    }
+  };
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border border-orange-300 p-6 mb-6 ${className}`}>
+      <h3 className="text-touch-base font-semibold mb-1 text-orange-800">
+        ⚠️ {conflicts.length} Konflikt{conflicts.length !== 1 ? 'e' : ''}
+      </h3>
+      <p className="text-touch-xs text-gray-600 mb-4">
+        Diese Datensätze wurden zwischenzeitlich im Büro geändert und noch nicht hochgeladen.
+      </p>
+
+      {error && (
+        <div className="mb-3 text-red-700 text-touch-xs">{error}</div>
+      )}
+
+      <div className="space-y-2">
+        {conflicts.map((conflict) => (
+          <div key={conflict.id} className="border border-gray-200 rounded-md">
+            <button
+              onClick={() => setOpenConflictId(openConflictId === conflict.id ? null : conflict.id)}
+              className="touch-button w-full text-left bg-orange-50 hover:bg-orange-100"
+            >
+              <div className="text-touch-sm font-medium">{ENTITY_LABELS[conflict.entity]}</div>
+              <div className="text-touch-xs text-gray-600">
+                {getConflictingFields(conflict).length} abweichende Felder ·{' '}
+                erkannt {new Date(conflict.detected_at).toLocaleString('de-DE')}
+              </div>
+            </button>
+
+            {openConflictId === conflict.id && (
+              <div className="p-3">
+                <ConflictDetail
+                  conflict={conflict}
+                  onResolve={(resolution, choices) => handleResolve(conflict, resolution, choices)}
+                />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default ConflictResolver;
@@ -0,0 +1,71 @@
+// 🔧 InspecDoor Day Plan - Was ist offline auf dem Tablet?
+// Übersicht der vorgeladenen Aufträge und Kunden
+
+'use client'
+
+import React from 'react';
+import { useDayPlan } from '../../hooks/useOfflineData';
+
+interface DayPlanProps {
+  className?: string;
+}
+
+export function DayPlan({ className = '' }: DayPlanProps) {
+  const { scope, assignments, customers, doorCounts, isLoading } = useDayPlan();
+
+  if (isLoading) return null;
+
+  const customerName = (customerId: string) =>
+    customers.find(customer => customer.id === customerId)?.name || 'Unbekannter Kunde';
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border p-6 mb-6 ${className}`}>
+      <h3 className="text-touch-base font-semibold mb-3">📅 Tagesplan</h3>
+
+      {scope.mode === 'full' ? (
+        <div className="text-touch-sm text-gray-600">
+          Vollständiger Download – alle {customers.length} Kunden sind offline verfügbar.
+        </div>
+      ) : assignments.length > 0 ? (
+        <div className="space-y-2">
+          {assignments.map((assignment) => (
+            <div key={assignment.id} className="border border-gray-200 rounded-md p-3">
+              <div className="flex items-center justify-between">
+                <div className="text-touch-sm font-medium text-gray-900">
+                  {customerName(assignment.customer_id)}
+                </div>
+                <span className="bg-blue-100 text-blue-800 text-touch-xs px-2 py-1 rounded-full">
+                  {doorCounts[assignment.customer_id] || 0} Türen
+                </span>
+              </div>
+              <div className="text-touch-xs text-gray-600">
+                {new Date(assignment.scheduled_date).toLocaleDateString('de-DE')}
+                {assignment.title && ` · ${assignment.title}`}
+              </div>
+              {assignment.notes && (
+                <div className="text-touch-xs text-gray-500 line-clamp-2">{assignment.notes}</div>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : customers.length > 0 ? (
+        <div className="space-y-2">
+          {customers.map((customer) => (
+            <div key={customer.id} className="flex items-center justify-between border border-gray-200 rounded-md p-3">
+              <div className="text-touch-sm font-medium text-gray-900">{customer.name}</div>
+              <span className="bg-blue-100 text-blue-800 text-touch-xs px-2 py-1 rounded-full">
+                {doorCounts[customer.id] || 0} Türen
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-touch-sm text-gray-500 p-3 bg-gray-50 rounded border">
+          Keine Aufträge vorgeladen
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DayPlan;
@@ -0,0 +1,171 @@
+// 🔧 InspecDoor Download Scope - Was wird morgens aufs Tablet geladen?
+// Eigene Aufträge, Zeitraum, Kundenauswahl oder alle Daten
+
+'use client'
+
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { syncManager } from '../../lib/db/syncManager';
+import { getInspectorName } from '../../lib/settings';
+import type { DownloadScope } from '../../lib/db/offlineDB';
+
+interface DownloadScopeSelectorProps {
+  scope: DownloadScope;
+  onChange: (scope: DownloadScope) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const MODE_LABELS: Record<DownloadScope['mode'], string> = {
+  assigned: '📅 Meine Aufträge heute',
+  date_range: '🗓 Aufträge im Zeitraum',
+  customers: '👥 Kunden auswählen',
+  full: '🏢 Alle Daten'
+};
+
+export function DownloadScopeSelector({
+  scope,
+  onChange,
+  disabled = false,
+  className = ''
+}: DownloadScopeSelectorProps) {
+  const [directory, setDirectory] = useState<{ id: string; name: string }[]>([]);
+  const [directoryError, setDirectoryError] = useState<string | null>(null);
+
+  const technicianName = scope.mode === 'assigned' || scope.mode === 'date_range'
+    ? scope.technician_name
+    : getInspectorName();
+
+  const selectMode = (mode: DownloadScope['mode']) => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+
+    switch (mode) {
+      case 'full':
+        onChange({ mode: 'full' });
+        break;
+      case 'assigned':
+        onChange({ mode: 'assigned', technician_name: technicianName });
+        break;
+      case 'date_range':
+        onChange({ mode: 'date_range', technician_name: technicianName, from: today, to: today });
+        break;
+      case 'customers':
+        onChange({ mode: 'customers', customer_ids: [] });
+        break;
+    }
+  };
+
+  const loadDirectory = async () => {
+    try {
+      setDirectoryError(null);
+      setDirectory(await syncManager.fetchCustomerDirectory());
+    } catch (err) {
+      setDirectoryError(err instanceof Error ? err.message : 'Kundenverzeichnis nicht abrufbar');
+    }
+  };
+
+  const toggleCustomer = (customerId: string) => {
+    if (scope.mode !== 'customers') return;
+
+    const selected = scope.customer_ids;
+    onChange({
+      mode: 'customers',
+      customer_ids: selected.indexOf(customerId) === -1
+        ? selected.concat(customerId)
+        : selected.filter(id => id !== customerId)
+    });
+  };
+
+  return (
+    <div className={`download-scope space-y-3 ${className}`}>
+      <div className="text-touch-sm font-medium text-gray-700">Download-Umfang</div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {(Object.keys(MODE_LABELS) as DownloadScope['mode'][]).map((mode) => (
+          <button
+            key={mode}
+            onClick={() => selectMode(mode)}
+            disabled={disabled}
+            className={`touch-button text-touch-sm ${
+              scope.mode === mode ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {MODE_LABELS[mode]}
+          </button>
+        ))}
+      </div>
+
+      {(scope.mode === 'assigned' || scope.mode === 'date_range') && (
+        <label className="block">
+          <span className="text-touch-xs text-gray-600">Techniker</span>
+          <input
+            type="text"
+            value={scope.technician_name}
+            onChange={(e) => onChange({ ...scope, technician_name: e.target.value })}
+            disabled={disabled}
+            className="mt-1 w-full border border-gray-300 rounded-md p-2 text-touch-sm"
+          />
+        </label>
+      )}
+
+      {scope.mode === 'date_range' && (
+        <div className="grid grid-cols-2 gap-2">
+          <label className="block">
+            <span className="text-touch-xs text-gray-600">Von</span>
+            <input
+              type="date"
+              value={scope.from}
+              onChange={(e) => onChange({ ...scope, from: e.target.value })}
+              disabled={disabled}
+              className="mt-1 w-full border border-gray-300 rounded-md p-2 text-touch-sm"
+            />
+          </label>
+          <label className="block">
+            <span className="text-touch-xs text-gray-600">Bis</span>
+            <input
+              type="date"
+              value={scope.to}
+              onChange={(e) => onChange({ ...scope, to: e.target.value })}
+              disabled={disabled}
+              className="mt-1 w-full border border-gray-300 rounded-md p-2 text-touch-sm"
+            />
+          </label>
+        </div>
+      )}
+
+      {scope.mode === 'customers' && (
+        <div className="space-y-2">
+          <button
+            onClick={loadDirectory}
+            disabled={disabled}
+            className="touch-button w-full bg-gray-100 text-gray-700 hover:bg-gray-200 text-touch-sm"
+          >
+            🔍 Kundenverzeichnis abrufen ({scope.customer_ids.length} ausgewählt)
+          </button>
+
+          {directoryError && (
+            <div className="text-red-700 text-touch-xs">{directoryError}</div>
+          )}
+
+          {directory.length > 0 && (
+            <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-md divide-y">
+              {directory.map((customer) => (
+                <label key={customer.id} className="flex items-center gap-3 p-3 text-touch-sm">
+                  <input
+                    type="checkbox"
+                    checked={scope.customer_ids.indexOf(customer.id) !== -1}
+                    onChange={() => toggleCustomer(customer.id)}
+                    className="touch-target-44"
+                  />
+                  {customer.name}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DownloadScopeSelector;
@@ -0,0 +1,103 @@
+// 🔧 InspecDoor Outbox List - Fehlgeschlagene Uploads einzeln behandeln
+// Erneut versuchen oder bewusst verwerfen
+
+'use client'
+
+import React from 'react';
+import { useOutbox } from '../../hooks/useOfflineData';
+import { MAX_OUTBOX_ATTEMPTS } from '../../lib/db/syncManager';
+import type { OutboxItem } from '../../lib/db/offlineDB';
+
+interface OutboxListProps {
+  onChange?: () => void;
+  className?: string;
+}
+
+const OPERATION_LABELS: Record<OutboxItem['operation'], string> = {
+  upload_inspection: '📋 Prüfung',
+  upload_photo: '📷 Foto',
+  upload_door: '🚪 Tür',
+  upload_report: '📄 Prüfbericht'
+};
+
+const formatTime = (isoString?: string): string => {
+  if (!isoString) return '–';
+  return new Date(isoString).toLocaleString('de-DE', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+export function OutboxList({ onChange, className = '' }: OutboxListProps) {
+  const { failedItems, busyItemId, error, retryItem, discardItem } = useOutbox();
+
+  if (failedItems.length === 0) return null;
+
+  const handleRetry = async (itemId: string) => {
+    await retryItem(itemId);
+    onChange?.();
+  };
+
+  const handleDiscard = async (item: OutboxItem) => {
+    const question = item.operation === 'upload_photo'
+      ? 'Foto-Upload verwerfen? Das Foto bleibt auf dem Gerät, wird aber nicht hochgeladen.'
+      : 'Änderung wirklich verwerfen? Sie wird nicht hochgeladen.';
+    if (!window.confirm(question)) return;
+    await discardItem(item.id);
+    onChange?.();
+  };
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border border-red-200 p-6 mb-6 ${className}`}>
+      <h3 className="text-touch-base font-semibold mb-3 text-red-800">
+        ❌ {failedItems.length} fehlgeschlagene Upload{failedItems.length !== 1 ? 's' : ''}
+      </h3>
+
+      {error && (
+        <div className="mb-3 text-red-700 text-touch-xs">{error}</div>
+      )}
+
+      <div className="space-y-2">
+        {failedItems.map((item) => (
+          <div key={item.id} className="border border-gray-200 rounded-md p-3">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex-1 min-w-0">
+                <div className="text-touch-sm font-medium text-gray-900">
+                  {OPERATION_LABELS[item.operation]}
+                </div>
+                <div className="text-touch-xs text-red-700 break-words">{item.last_error}</div>
+                <div className="text-touch-xs text-gray-500">
+                  {item.attempts} Versuch{item.attempts !== 1 ? 'e' : ''} · zuletzt {formatTime(item.last_attempt_at)}
+                  {item.attempts < MAX_OUTBOX_ATTEMPTS
+                    ? ` · nächster automatisch ${formatTime(item.next_retry_at)}`
+                    : ' · nur noch manuell'}
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleRetry(item.id)}
+                  disabled={busyItemId !== null}
+                  className="touch-button bg-blue-600 text-white hover:bg-blue-700 px-3"
+                >
+                  {busyItemId === item.id ? '…' : '↻'}
+                </button>
+                <button
+                  onClick={() => handleDiscard(item)}
+                  disabled={busyItemId !== null}
+                  className="touch-button bg-gray-100 text-gray-700 hover:bg-gray-200 px-3"
+                >
+                  🗑
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default OutboxList;
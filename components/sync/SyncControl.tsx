@@ -3,8 +3,15 @@
 
 'use client'
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useSyncStatus, useSyncOperations, useOfflineStats } from '../../hooks/useOfflineData';
+import { getDownloadScope, setDownloadScope } from '../../lib/settings';
+import type { DownloadScope } from '../../lib/db/offlineDB';
+import ConflictResolver from './ConflictResolver';
+import DayPlan from './DayPlan';
+import DownloadScopeSelector from './DownloadScopeSelector';
+import OutboxList from './OutboxList';
+import SyncPolicySettings from './SyncPolicySettings';
 
 interface SyncControlProps {
   className?: string;
@@ -16,7 +23,8 @@ export function SyncControl({ className = '' }: SyncControlProps) {
     lastSync, 
     lastDownload, 
     pendingUploads, 
-    syncInProgress 
+    syncInProgress,
+    refreshStatus
   } = useSyncStatus();
   
   const { 
@@ -30,6 +38,16 @@ export function SyncControl({ className = '' }: SyncControlProps) {
   } = useSyncOperations();
   
   const { stats } = useOfflineStats();
+  const [scope, setScope] = useState<DownloadScope>({ mode: 'full' });
+
+  useEffect(() => {
+    setScope(getDownloadScope());
+  }, []);
+
+  const handleScopeChange = (nextScope: DownloadScope) => {
+    setScope(nextScope);
+    setDownloadScope(nextScope);
+  };
 
   const formatTime = (isoString: string | null): string => {
     if (!isoString) return 'Nie';
@@ -42,20 +60,13 @@ export function SyncControl({ className = '' }: SyncControlProps) {
     });
   };
 
-  const handleDownload = async () => {
-    const success = await downloadData();
-    if (success) {
-      // Optionally trigger a page refresh or state update
-      window.location.reload();
-    }
+  // Listen, Zähler und Badges aktualisieren sich über die Store-Events selbst
+  const handleDownload = async (fullRefresh = false) => {
+    await downloadData({ fullRefresh, scope });
   };
 
-  const handleUpload = async () => {
-    const success = await uploadChanges();
-    if (success) {
-      // Optionally trigger a page refresh or state update
-      window.location.reload();
-    }
+  const handleUpload = async (ignorePolicy = false) => {
+    await uploadChanges({ ignorePolicy });
   };
 
   return (
@@ -147,11 +158,19 @@ export function SyncControl({ className = '' }: SyncControlProps) {
           </div>
         )}
 
+        {/* Download Scope */}
+        <DownloadScopeSelector
+          scope={scope}
+          onChange={handleScopeChange}
+          disabled={isDownloading || syncInProgress}
+          className="mb-4"
+        />
+
         {/* Action Buttons */}
         <div className="space-y-3">
           {/* Morning Download Button */}
           <button
-            onClick={handleDownload}
+            onClick={() => handleDownload()}
             disabled={!isOnline || isDownloading || syncInProgress}
             className={`touch-button w-full ${
               isOnline && !isDownloading && !syncInProgress
@@ -165,14 +184,24 @@ export function SyncControl({ className = '' }: SyncControlProps) {
                 Lädt Daten...
               </span>
             ) : (
-              '📥 Alle Daten laden'
+              lastDownload ? '📥 Änderungen laden' : '📥 Alle Daten laden'
             )}
           </button>
 
+          {lastDownload && (
+            <button
+              onClick={() => handleDownload(true)}
+              disabled={!isOnline || isDownloading || syncInProgress}
+              className="w-full text-touch-xs text-gray-500 underline disabled:opacity-50"
+            >
+              Alle Daten vollständig neu laden
+            </button>
+          )}
+
           {/* Evening Upload Button */}
           {pendingUploads > 0 && (
             <button
-              onClick={handleUpload}
+              onClick={() => handleUpload()}
               disabled={!isOnline || isUploading || syncInProgress}
               className={`touch-button w-full ${
                 isOnline && !isUploading && !syncInProgress
@@ -193,6 +222,21 @@ export function SyncControl({ className = '' }: SyncControlProps) {
         </div>
       </div>
 
+      {/* 📶 SYNC POLICY */}
+      <SyncPolicySettings
+        onUploadAnyway={isOnline ? () => handleUpload(true) : undefined}
+        disabled={isUploading || syncInProgress}
+      />
+
+      {/* 📅 DAY PLAN */}
+      <DayPlan />
+
+      {/* ❌ FAILED UPLOADS */}
+      <OutboxList onChange={refreshStatus} />
+
+      {/* ⚠️ SYNC CONFLICTS */}
+      <ConflictResolver onResolved={refreshStatus} />
+
       {/* 📊 OFFLINE STATISTICS */}
       <div className="bg-white rounded-lg shadow-sm border p-6">
         <h3 className="text-touch-base font-semibold mb-3">📊 Offline-Daten</h3>
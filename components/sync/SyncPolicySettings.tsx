@@ -0,0 +1,83 @@
+// 🔧 InspecDoor Sync Policy - Datentarif schonen
+// Fotos und Pläne nur über WLAN; Prüfungen mit Fotos warten mit, alle anderen gehen sofort raus
+
+'use client'
+
+import React from 'react';
+import { useSyncPolicy } from '../../hooks/useOfflineData';
+import type { SyncPolicy } from '../../lib/db/offlineDB';
+
+interface SyncPolicySettingsProps {
+  onUploadAnyway?: () => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const POLICY_OPTIONS: { key: keyof SyncPolicy; label: string; hint: string }[] = [
+  {
+    key: 'photos_unmetered_only',
+    label: '📷 Fotos nur über WLAN hochladen',
+    hint: 'Prüfungen ohne Fotos werden trotzdem sofort übertragen, Prüfungen mit Fotos erst zusammen mit ihnen'
+  },
+  {
+    key: 'plans_unmetered_only',
+    label: '🗺 Pläne nur über WLAN laden',
+    hint: 'Große Gebäudepläne beim Morning Download auslassen'
+  },
+  {
+    key: 'always_metered',
+    label: '📶 Tablet nutzt nur mobile Daten',
+    hint: 'Für Geräte, die die Verbindungsart nicht melden (z. B. iPad)'
+  }
+];
+
+export function SyncPolicySettings({ onUploadAnyway, disabled = false, className = '' }: SyncPolicySettingsProps) {
+  const { policy, photoReason, heldPhotos, planReason, updatePolicy } = useSyncPolicy();
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border p-6 mb-6 ${className}`}>
+      <h3 className="text-touch-base font-semibold mb-3">📶 Datenverbrauch</h3>
+
+      {(heldPhotos > 0 || planReason) && (
+        <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md space-y-1">
+          {heldPhotos > 0 && (
+            <div className="text-yellow-800 text-touch-sm font-medium">
+              ⏸️ {heldPhotos} {photoReason}
+            </div>
+          )}
+          {planReason && (
+            <div className="text-yellow-800 text-touch-sm font-medium">⏸️ {planReason}</div>
+          )}
+          {heldPhotos > 0 && onUploadAnyway && (
+            <button
+              onClick={onUploadAnyway}
+              disabled={disabled}
+              className="text-touch-xs text-yellow-900 underline disabled:opacity-50"
+            >
+              Fotos trotzdem jetzt über mobile Daten hochladen
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {POLICY_OPTIONS.map((option) => (
+          <label key={option.key} className="flex items-start gap-3 p-2 text-touch-sm">
+            <input
+              type="checkbox"
+              checked={policy[option.key]}
+              onChange={(e) => updatePolicy({ [option.key]: e.target.checked })}
+              className="touch-target-44 mt-1"
+            />
+            <span>
+              <span className="block text-gray-900">{option.label}</span>
+              <span className="block text-touch-xs text-gray-500">{option.hint}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default SyncPolicySettings;
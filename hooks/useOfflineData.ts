@@ -4,8 +4,55 @@
 'use client'
 
 import { useState, useEffect, useCallback } from 'react';
-import { offlineDB, type Customer, type Door, type Inspection } from '../lib/db/offlineDB';
-import { syncManager, type SyncProgress } from '../lib/db/syncManager';
+import {
+  offlineDB,
+  type Assignment,
+  type ChecklistTemplate,
+  type Customer,
+  type DeliveryLocation,
+  type Door,
+  type DownloadScope,
+  type Inspection,
+  type InspectionChecklistItem,
+  type InspectionReport,
+  type InspectionStatus,
+  type OfflinePhoto,
+  type OutboxItem,
+  type PhotoAnnotation,
+  type Plan,
+  type PlanFile,
+  type Signature,
+  type Site,
+  type SyncConflict,
+  type SyncPolicy
+} from '../lib/db/offlineDB';
+import {
+  syncManager,
+  type DoorInput,
+  type DownloadOptions,
+  type SyncProgress,
+  type UploadOptions
+} from '../lib/db/syncManager';
+import { DEFAULT_SYNC_POLICY, getNetworkConnection } from '../lib/db/syncPolicy';
+import { recoverStaleSyncLock, subscribeToSyncState } from '../lib/db/syncLock';
+import type { ConflictRecord, ConflictResolution } from '../lib/db/conflicts';
+import { getSearchIndex, subscribeToSearchIndex, type SearchResult } from '../lib/search/searchIndex';
+import type { Visit } from '../lib/db/visits';
+
+// ================================================================
+// STORE CHANGES
+// ================================================================
+
+// Lädt neu, sobald einer der Stores beschrieben wurde - in diesem Tab,
+// einem anderen Tab oder im Service Worker. Ersetzt Polling und Reloads.
+function useStoreChanges(stores: string[], onChange: () => void) {
+  const storeKey = stores.join(',');
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    return offlineDB.subscribe(storeKey.split(','), onChange);
+  }, [storeKey, onChange]);
+}
 
 // ================================================================
 // OFFLINE DATA HOOK
@@ -13,6 +60,8 @@ import { syncManager, type SyncProgress } from '../lib/db/syncManager';
 
 export function useOfflineData() {
   const [customers, setCustomers] = useState<Customer[]>([]);
+  const [deliveryLocations, setDeliveryLocations] = useState<DeliveryLocation[]>([]);
+  const [sites, setSites] = useState<Site[]>([]);
   const [doors, setDoors] = useState<Door[]>([]);
   const [inspections, setInspections] = useState<Inspection[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -20,18 +69,21 @@ export function useOfflineData() {
 
   const loadOfflineData = useCallback(async () => {
     try {
-      setIsLoading(true);
       setError(null);
       
       await offlineDB.init();
       
-      const [customersData, doorsData, inspectionsData] = await Promise.all([
+      const [customersData, deliveryLocationsData, sitesData, doorsData, inspectionsData] = await Promise.all([
         offlineDB.getAllCustomers(),
+        offlineDB.getAllDeliveryLocations(),
+        offlineDB.getAllSites(),
         offlineDB.getAllDoors(),
         offlineDB.getAllInspections()
       ]);
 
       setCustomers(customersData);
+      setDeliveryLocations(deliveryLocationsData);
+      setSites(sitesData);
       setDoors(doorsData);
       setInspections(inspectionsData);
     } catch (err) {
@@ -55,8 +107,12 @@ export function useOfflineData() {
     loadOfflineData();
   }, [loadOfflineData]);
 
+  useStoreChanges(['customers', 'delivery_locations', 'sites', 'doors', 'inspections'], loadOfflineData);
+
   return {
     customers,
+    deliveryLocations,
+    sites,
     doors,
     inspections,
     isLoading,
@@ -124,16 +180,43 @@ export function useSyncStatus() {
     }
   }, [isOnline, syncInProgress, loadSyncStatus]);
 
-  // Periodic sync status refresh
+  // Auto-sync when switching to Wi-Fi (zurückgehaltene Fotos nachholen)
   useEffect(() => {
-    if (typeof window !== 'undefined') {
+    const connection = getNetworkConnection();
+    if (!connection) return;
+
+    const handleConnectionChange = () => {
+      syncManager.autoSyncIfOnline()
+        .then((didSync) => {
+          if (didSync) {
+            loadSyncStatus();
+          }
+        })
+        .catch(console.error);
+    };
+
+    connection.addEventListener('change', handleConnectionChange);
+    return () => connection.removeEventListener('change', handleConnectionChange);
+  }, [loadSyncStatus]);
+
+  // Hängengebliebene Sperre aus abgestürzten Tabs lösen, dann Status aller
+  // Tabs und des Service Workers mitverfolgen
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+
+    recoverStaleSyncLock()
+      .catch(error => console.error('Failed to recover sync lock:', error))
+      .finally(loadSyncStatus);
+
+    return subscribeToSyncState((message) => {
+      setSyncInProgress(message.in_progress);
       loadSyncStatus();
-      
-      const interval = setInterval(loadSyncStatus, 30000); // Every 30 seconds
-      return () => clearInterval(interval);
-    }
+    });
   }, [loadSyncStatus]);
 
+  // Zähler und Zeitstempel sofort nach jedem Upload/Download/Enqueue
+  useStoreChanges(['sync_status', 'outbox'], loadSyncStatus);
+
   return {
     isOnline,
     lastSync,
@@ -156,7 +239,7 @@ export function useSyncOperations() {
   const [uploadProgress, setUploadProgress] = useState<SyncProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const downloadData = useCallback(async () => {
+  const downloadData = useCallback(async (options?: DownloadOptions) => {
     if (typeof window === 'undefined' || !navigator.onLine) {
       setError('Internet-Verbindung erforderlich für Download');
       return false;
@@ -169,7 +252,7 @@ export function useSyncOperations() {
 
       await syncManager.downloadForToday((progress) => {
         setDownloadProgress(progress);
-      });
+      }, options);
 
       return true;
     } catch (err) {
@@ -180,7 +263,7 @@ export function useSyncOperations() {
     }
   }, []);
 
-  const uploadChanges = useCallback(async () => {
+  const uploadChanges = useCallback(async (options?: UploadOptions) => {
     if (typeof window === 'undefined' || !navigator.onLine) {
       setError('Internet-Verbindung erforderlich für Upload');
       return false;
@@ -193,7 +276,7 @@ export function useSyncOperations() {
 
       await syncManager.uploadPendingChanges((progress) => {
         setUploadProgress(progress);
-      });
+      }, options);
 
       return true;
     } catch (err) {
@@ -222,7 +305,9 @@ export function useSyncOperations() {
 export function useOfflineStats() {
   const [stats, setStats] = useState({
     customers: 0,
+    sites: 0,
     doors: 0,
+    plans: 0,
     inspections: 0,
     photos: 0,
     pendingUploads: 0
@@ -234,7 +319,6 @@ export function useOfflineStats() {
     if (typeof window === 'undefined') return;
     
     try {
-      setIsLoading(true);
       const offlineStats = await syncManager.getOfflineStats();
       setStats(offlineStats);
     } catch (error) {
@@ -245,15 +329,11 @@ export function useOfflineStats() {
   }, []);
 
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      loadStats();
-      
-      // Refresh stats every minute
-      const interval = setInterval(loadStats, 60000);
-      return () => clearInterval(interval);
-    }
+    loadStats();
   }, [loadStats]);
 
+  useStoreChanges(['customers', 'sites', 'doors', 'plans', 'inspections', 'photos', 'outbox'], loadStats);
+
   return {
     stats,
     isLoading,
@@ -270,10 +350,13 @@ export function useOfflineInspections() {
   const [error, setError] = useState<string | null>(null);
 
   const createInspection = useCallback(async (inspectionData: {
+    id?: string;
     door_id: string;
     inspector_name: string;
-    status: 'pending' | 'completed' | 'failed';
+    status?: InspectionStatus;
     notes?: string;
+    checklist_template_id?: string;
+    checklist?: InspectionChecklistItem[];
   }) => {
     if (typeof window === 'undefined') return null;
     
@@ -291,6 +374,28 @@ export function useOfflineInspections() {
     }
   }, []);
 
+  const updateInspection = useCallback(async (inspectionId: string, changes: {
+    inspector_name?: string;
+    status?: InspectionStatus;
+    notes?: string;
+    checklist?: InspectionChecklistItem[];
+  }) => {
+    if (typeof window === 'undefined') return false;
+
+    try {
+      setIsCreating(true);
+      setError(null);
+
+      await syncManager.updateOfflineInspection(inspectionId, changes);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Speichern der Prüfung');
+      return false;
+    } finally {
+      setIsCreating(false);
+    }
+  }, []);
+
   const addPhoto = useCallback(async (inspectionId: string, photoBlob: Blob, filename: string) => {
     if (typeof window === 'undefined') return null;
     
@@ -304,10 +409,700 @@ export function useOfflineInspections() {
     }
   }, []);
 
+  const discardDraftPhotos = useCallback(async (inspectionId: string) => {
+    if (typeof window === 'undefined') return;
+
+    try {
+      await syncManager.discardDraftPhotos(inspectionId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Verwerfen der Fotos');
+    }
+  }, []);
+
+  const getChecklistTemplate = useCallback(async (doorType?: string): Promise<ChecklistTemplate | null> => {
+    if (typeof window === 'undefined') return null;
+
+    try {
+      return await syncManager.getChecklistTemplateForDoorType(doorType);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Laden der Checkliste');
+      return null;
+    }
+  }, []);
+
+  const saveAnnotations = useCallback(async (photoId: string, annotations: PhotoAnnotation[]) => {
+    if (typeof window === 'undefined') return false;
+
+    try {
+      setError(null);
+      await syncManager.updatePhotoAnnotations(photoId, annotations);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Speichern der Markierungen');
+      return false;
+    }
+  }, []);
+
   return {
     createInspection,
+    updateInspection,
     addPhoto,
+    discardDraftPhotos,
+    saveAnnotations,
+    getChecklistTemplate,
     isCreating,
     error
   };
 }
+
+// ================================================================
+// OFFLINE DOOR CREATION HOOK
+// ================================================================
+
+export function useOfflineDoors() {
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const createDoor = useCallback(async (doorData: DoorInput & { id?: string }): Promise<Door | null> => {
+    if (typeof window === 'undefined') return null;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      return await syncManager.createOfflineDoor(doorData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Anlegen der Tür');
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  const updateDoor = useCallback(async (
+    doorId: string,
+    changes: Partial<Omit<DoorInput, 'customer_id'>>
+  ): Promise<Door | null> => {
+    if (typeof window === 'undefined') return null;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      return await syncManager.updateOfflineDoor(doorId, changes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Speichern der Tür');
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  const updatePlanPosition = useCallback(async (
+    doorId: string,
+    planId: string,
+    x: number,
+    y: number
+  ): Promise<Door | null> => {
+    if (typeof window === 'undefined') return null;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      return await syncManager.updateDoorPlanPosition(doorId, planId, x, y);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Speichern der Planposition');
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  return {
+    createDoor,
+    updateDoor,
+    updatePlanPosition,
+    isSaving,
+    error
+  };
+}
+
+// ================================================================
+// SIGNATURES HOOK
+// ================================================================
+
+export function useSignatures() {
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const signInspections = useCallback(async (data: {
+    customerId: string;
+    siteId?: string;
+    inspectionIds: string[];
+    signerName: string;
+    image: Blob;
+  }): Promise<Signature | null> => {
+    if (typeof window === 'undefined') return null;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      return await syncManager.signInspections(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Speichern der Unterschrift');
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  return {
+    signInspections,
+    isSaving,
+    error
+  };
+}
+
+// Unterschriftsbild als Object-URL; liegt nur auf dem Tablet, das abgenommen hat
+export function useSignatureImage(signatureId: string | null) {
+  const [signature, setSignature] = useState<Signature | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+
+  const loadSignature = useCallback(async () => {
+    if (typeof window === 'undefined') return;
+
+    if (!signatureId) {
+      setSignature(null);
+      return;
+    }
+
+    try {
+      await offlineDB.init();
+      setSignature(await offlineDB.getSignature(signatureId));
+    } catch (error) {
+      console.error('Failed to load signature:', signatureId, error);
+    }
+  }, [signatureId]);
+
+  useEffect(() => {
+    loadSignature();
+  }, [loadSignature]);
+
+  useStoreChanges(['signatures'], loadSignature);
+
+  useEffect(() => {
+    if (!signature) {
+      setImageUrl(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(signature.blob);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [signature]);
+
+  return {
+    signature,
+    imageUrl
+  };
+}
+
+// ================================================================
+// REPORTS HOOK
+// ================================================================
+
+// Lokal gespeicherte Prüfberichte eines Kunden, neueste zuerst
+export function useReports(customerId: string | null) {
+  const [reports, setReports] = useState<InspectionReport[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReports = useCallback(async () => {
+    if (typeof window === 'undefined') return;
+
+    if (!customerId) {
+      setReports([]);
+      return;
+    }
+
+    try {
+      await offlineDB.init();
+      const customerReports = await offlineDB.getReportsByCustomer(customerId);
+      setReports(customerReports.sort((a, b) => b.created_at.localeCompare(a.created_at)));
+    } catch (err) {
+      console.error('Failed to load reports:', customerId, err);
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
+
+  useStoreChanges(['reports'], loadReports);
+
+  const createReport = useCallback(async (visit: Visit): Promise<InspectionReport | null> => {
+    if (typeof window === 'undefined') return null;
+
+    try {
+      setIsGenerating(true);
+      setError(null);
+      return await syncManager.createInspectionReport(visit);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Erstellen des Prüfberichts');
+      return null;
+    } finally {
+      setIsGenerating(false);
+    }
+  }, []);
+
+  return {
+    reports,
+    createReport,
+    isGenerating,
+    error
+  };
+}
+
+// ================================================================
+// PLANS HOOKS
+// ================================================================
+
+// Pläne eines Standorts (oder alle) samt Info, welche offline anzeigbar sind
+export function usePlans(siteId: string | null) {
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [cachedPlanIds, setCachedPlanIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPlans = useCallback(async () => {
+    if (typeof window === 'undefined') return;
+
+    try {
+      setError(null);
+      await offlineDB.init();
+
+      const [plansData, cachedIds] = await Promise.all([
+        siteId ? offlineDB.getPlansBySite(siteId) : offlineDB.getAllPlans(),
+        offlineDB.getCachedPlanIds()
+      ]);
+
+      setPlans(plansData);
+      setCachedPlanIds(cachedIds);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Laden der Pläne');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [siteId]);
+
+  useEffect(() => {
+    loadPlans();
+  }, [loadPlans]);
+
+  useStoreChanges(['plans', 'plan_files'], loadPlans);
+
+  return {
+    plans,
+    cachedPlanIds,
+    isLoading,
+    error,
+    reload: loadPlans
+  };
+}
+
+// Plandatei als Object-URL für <img>; wird beim Wechsel wieder freigegeben
+export function usePlanFile(planId: string | null) {
+  const [planFile, setPlanFile] = useState<PlanFile | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadPlanFile = useCallback(async () => {
+    if (typeof window === 'undefined') return;
+
+    if (!planId) {
+      setPlanFile(null);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      await offlineDB.init();
+      setPlanFile(await offlineDB.getPlanFile(planId));
+    } catch (error) {
+      console.error('Failed to load plan file:', planId, error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [planId]);
+
+  useEffect(() => {
+    loadPlanFile();
+  }, [loadPlanFile]);
+
+  useStoreChanges(['plan_files'], loadPlanFile);
+
+  useEffect(() => {
+    if (!planFile) {
+      setImageUrl(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(planFile.blob);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [planFile]);
+
+  return {
+    planFile,
+    imageUrl,
+    isLoading
+  };
+}
+
+// ================================================================
+// INSPECTIONS OVERVIEW HOOK
+// ================================================================
+
+export function useInspectionOverview(status: InspectionStatus | null, unsyncedOnly: boolean) {
+  const [inspections, setInspections] = useState<Inspection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadInspections = useCallback(async () => {
+    if (typeof window === 'undefined') return;
+
+    try {
+      setError(null);
+      await offlineDB.init();
+
+      // Status über den Index; synced ist ein Boolean und damit kein
+      // gültiger IndexedDB-Schlüssel - der Index bleibt leer, daher filtern
+      let result: Inspection[];
+      if (status) {
+        result = await offlineDB.getInspectionsByStatus(status);
+        if (unsyncedOnly) result = result.filter(inspection => !inspection.synced);
+      } else if (unsyncedOnly) {
+        result = await offlineDB.getPendingInspections();
+      } else {
+        result = await offlineDB.getAllInspections();
+      }
+
+      setInspections(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Laden der Prüfungen');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, unsyncedOnly]);
+
+  useEffect(() => {
+    loadInspections();
+  }, [loadInspections]);
+
+  useStoreChanges(['inspections'], loadInspections);
+
+  return {
+    inspections,
+    isLoading,
+    error,
+    reload: loadInspections
+  };
+}
+
+// ================================================================
+// OFFLINE SEARCH HOOK
+// ================================================================
+
+export function useOfflineSearch(query: string, limit = 20) {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const runSearch = useCallback(async () => {
+    if (typeof window === 'undefined' || !query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    try {
+      setIsSearching(true);
+      const index = await getSearchIndex();
+      setResults(index.search(query, limit));
+    } catch (error) {
+      console.error('Offline search failed:', error);
+    } finally {
+      setIsSearching(false);
+    }
+  }, [query, limit]);
+
+  useEffect(() => {
+    runSearch();
+  }, [runSearch]);
+
+  // Index wurde nach storeCustomers/storeDoors neu aufgebaut
+  useEffect(() => subscribeToSearchIndex(runSearch), [runSearch]);
+
+  return {
+    results,
+    isSearching
+  };
+}
+
+// ================================================================
+// INSPECTION PHOTOS HOOK
+// ================================================================
+
+export function useInspectionPhotos(inspectionId: string | null) {
+  const [photos, setPhotos] = useState<OfflinePhoto[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadPhotos = useCallback(async () => {
+    if (typeof window === 'undefined' || !inspectionId) {
+      setPhotos([]);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const inspectionPhotos = await syncManager.getPhotosForInspection(inspectionId);
+      setPhotos(inspectionPhotos);
+    } catch (error) {
+      console.error('Failed to load photos for inspection:', inspectionId, error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [inspectionId]);
+
+  useEffect(() => {
+    loadPhotos();
+  }, [loadPhotos]);
+
+  useStoreChanges(['photos'], loadPhotos);
+
+  return {
+    photos,
+    isLoading,
+    reload: loadPhotos
+  };
+}
+
+// ================================================================
+// SYNC CONFLICTS HOOK
+// ================================================================
+
+export function useSyncConflicts() {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadConflicts = useCallback(async () => {
+    if (typeof window === 'undefined') return;
+
+    try {
+      setConflicts(await syncManager.getConflicts());
+    } catch (err) {
+      console.error('Failed to load sync conflicts:', err);
+    }
+  }, []);
+
+  const resolveConflict = useCallback(async (
+    conflictId: string,
+    resolution: ConflictResolution,
+    mergedRecord?: ConflictRecord
+  ) => {
+    try {
+      setError(null);
+      await syncManager.resolveConflict(conflictId, resolution, mergedRecord);
+      await loadConflicts();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Konflikt konnte nicht aufgelöst werden');
+      return false;
+    }
+  }, [loadConflicts]);
+
+  useEffect(() => {
+    loadConflicts();
+  }, [loadConflicts]);
+
+  useStoreChanges(['conflicts'], loadConflicts);
+
+  return {
+    conflicts,
+    error,
+    resolveConflict,
+    reload: loadConflicts
+  };
+}
+
+// ================================================================
+// DAY PLAN HOOK
+// ================================================================
+
+export function useDayPlan() {
+  const [scope, setScope] = useState<DownloadScope>({ mode: 'full' });
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [doorCounts, setDoorCounts] = useState<{ [customerId: string]: number }>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadDayPlan = useCallback(async () => {
+    if (typeof window === 'undefined') return;
+
+    try {
+      const dayPlan = await syncManager.getDayPlan();
+      const doors = await offlineDB.getAllDoors();
+
+      const counts: { [customerId: string]: number } = {};
+      doors.forEach(door => {
+        counts[door.customer_id] = (counts[door.customer_id] || 0) + 1;
+      });
+
+      setScope(dayPlan.scope);
+      setAssignments(dayPlan.assignments);
+      setCustomers(dayPlan.customers);
+      setDoorCounts(counts);
+    } catch (error) {
+      console.error('Failed to load day plan:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDayPlan();
+  }, [loadDayPlan]);
+
+  useStoreChanges(['assignments', 'customers', 'doors', 'sync_status'], loadDayPlan);
+
+  return {
+    scope,
+    assignments,
+    customers,
+    doorCounts,
+    isLoading,
+    reload: loadDayPlan
+  };
+}
+
+// ================================================================
+// OUTBOX HOOK
+// ================================================================
+
+export function useOutbox() {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadItems = useCallback(async () => {
+    if (typeof window === 'undefined') return;
+
+    try {
+      setItems(await syncManager.getOutboxItems());
+    } catch (err) {
+      console.error('Failed to load outbox:', err);
+    }
+  }, []);
+
+  const retryItem = useCallback(async (itemId: string) => {
+    if (!navigator.onLine) {
+      setError('Internet-Verbindung erforderlich für Upload');
+      return;
+    }
+
+    try {
+      setBusyItemId(itemId);
+      setError(null);
+      await syncManager.retryOutboxItem(itemId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erneuter Versuch fehlgeschlagen');
+    } finally {
+      setBusyItemId(null);
+      await loadItems();
+    }
+  }, [loadItems]);
+
+  const discardItem = useCallback(async (itemId: string) => {
+    try {
+      setBusyItemId(itemId);
+      setError(null);
+      await syncManager.discardOutboxItem(itemId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verwerfen fehlgeschlagen');
+    } finally {
+      setBusyItemId(null);
+      await loadItems();
+    }
+  }, [loadItems]);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  useStoreChanges(['outbox'], loadItems);
+
+  return {
+    items,
+    failedItems: items.filter(item => item.last_error),
+    busyItemId,
+    error,
+    retryItem,
+    discardItem,
+    reload: loadItems
+  };
+}
+
+// ================================================================
+// SYNC-RICHTLINIE HOOK
+// ================================================================
+
+export function useSyncPolicy() {
+  const [policy, setPolicy] = useState<SyncPolicy>(DEFAULT_SYNC_POLICY);
+  const [photoReason, setPhotoReason] = useState<string | null>(null);
+  const [heldPhotos, setHeldPhotos] = useState(0);
+  const [planReason, setPlanReason] = useState<string | null>(null);
+
+  const loadPolicy = useCallback(async () => {
+    if (typeof window === 'undefined') return;
+
+    try {
+      const [currentPolicy, heldBack] = await Promise.all([
+        syncManager.getSyncPolicy(),
+        syncManager.getHeldBackInfo()
+      ]);
+      setPolicy(currentPolicy);
+      setPhotoReason(heldBack.photoReason);
+      setHeldPhotos(heldBack.heldPhotos);
+      setPlanReason(heldBack.planReason);
+    } catch (error) {
+      console.error('Failed to load sync policy:', error);
+    }
+  }, []);
+
+  const updatePolicy = useCallback(async (changes: Partial<SyncPolicy>) => {
+    try {
+      await syncManager.setSyncPolicy({ ...policy, ...changes });
+      await loadPolicy();
+    } catch (error) {
+      console.error('Failed to save sync policy:', error);
+    }
+  }, [policy, loadPolicy]);
+
+  // Wechsel WLAN <-> Mobilfunk sofort berücksichtigen
+  useEffect(() => {
+    loadPolicy();
+
+    const connection = getNetworkConnection();
+    if (!connection) return;
+
+    connection.addEventListener('change', loadPolicy);
+    return () => connection.removeEventListener('change', loadPolicy);
+  }, [loadPolicy]);
+
+  useStoreChanges(['sync_status', 'outbox'], loadPolicy);
+
+  return {
+    policy,
+    photoReason,
+    heldPhotos,
+    planReason,
+    updatePolicy,
+    reload: loadPolicy
+  };
+}
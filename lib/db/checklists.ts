@@ -0,0 +1,48 @@
+// 🔧 InspecDoor Checklisten - Prüfpunkte je Türtyp (DIN/EN)
+// Reine Hilfsfunktionen, keine Datenbankzugriffe
+
+import type {
+  ChecklistTemplate,
+  InspectionChecklistItem,
+  InspectionStatus
+} from './offlineDB';
+
+// Fallback-Vorlage, wenn für einen Türtyp keine eigene existiert
+export const DEFAULT_DOOR_TYPE = 'default';
+
+// ================================================================
+// CHECKLIST AUS VORLAGE ERZEUGEN
+// ================================================================
+
+export function createChecklistFromTemplate(template: ChecklistTemplate): InspectionChecklistItem[] {
+  return template.items.map(item => ({
+    item_id: item.id,
+    category: item.category,
+    label: item.label,
+    result: null,
+    severity: item.default_severity
+  }));
+}
+
+// ================================================================
+// GESAMTSTATUS AUS EINZELERGEBNISSEN
+// ================================================================
+// - Noch nicht alle Punkte bewertet       → 'pending'
+// - Mindestens ein erheblicher Mangel     → 'failed'
+// - Sonst (ok, n.a., nur geringe Mängel)  → 'completed'
+
+export function deriveInspectionStatus(checklist: InspectionChecklistItem[]): InspectionStatus {
+  if (checklist.length === 0 || checklist.some(item => item.result === null)) {
+    return 'pending';
+  }
+
+  const hasBlockingDefect = checklist.some(item =>
+    item.result === 'defect' && item.severity !== 'minor'
+  );
+
+  return hasBlockingDefect ? 'failed' : 'completed';
+}
+
+export function getDefects(checklist: InspectionChecklistItem[]): InspectionChecklistItem[] {
+  return checklist.filter(item => item.result === 'defect');
+}
@@ -0,0 +1,112 @@
+// 🔧 InspecDoor Konflikte - Feldvergleich & Zusammenführen
+// Reine Hilfsfunktionen für den Konfliktdialog in der Sync-Ansicht
+
+import type { ConflictEntity, Door, Inspection, SyncConflict } from './offlineDB';
+
+type ConflictRecord = Inspection | Door;
+type FieldChoice = 'mine' | 'theirs';
+type ConflictResolution = 'mine' | 'theirs' | 'merge';
+
+// Technische Felder, die für den Vergleich keine Rolle spielen
+const IGNORED_FIELDS = ['id', 'updated_at', 'server_updated_at', 'synced', 'offline_created'];
+
+// Spalten, die uploadInspection/uploadDoor auf den Server schreiben. Nur sie
+// können abweichen - lokale Felder wie signature_id oder synced nie.
+const SERVER_FIELDS: Record<ConflictEntity, string[]> = {
+  inspections: [
+    'door_id', 'inspector_name', 'inspection_date', 'status', 'notes', 'checklist_template_id',
+    'checklist', 'photos', 'signed_by', 'signed_at', 'signature_path'
+  ],
+  doors: [
+    'customer_id', 'site_id', 'location', 'door_number', 'door_type', 'manufacturer',
+    'model', 'year', 'notes', 'plan_id', 'plan_x', 'plan_y'
+  ]
+};
+
+const fieldValue = (record: ConflictRecord, field: string): unknown =>
+  (record as unknown as Record<string, unknown>)[field];
+
+// ================================================================
+// WERTVERGLEICH
+// ================================================================
+
+// Gleicher Inhalt trotz anderer Darstellung: jsonb sortiert Schlüssel um,
+// Postgres liefert Zeitstempel mit '+00:00' statt 'Z', fehlend ist null -
+// auch ein leeres Feld, das der Upload als null schreibt
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+const isEmpty = (value: unknown): boolean => value === undefined || value === null || value === '';
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (isEmpty(a) && isEmpty(b)) return true;
+
+  if (typeof a === 'string' && typeof b === 'string' && ISO_TIMESTAMP.test(a) && ISO_TIMESTAMP.test(b)) {
+    return new Date(a).getTime() === new Date(b).getTime();
+  }
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((entry, index) => isSameValue(entry, b[index]));
+  }
+
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    const left = a as Record<string, unknown>;
+    const right = b as Record<string, unknown>;
+    return Object.keys(left).concat(Object.keys(right)).every(key => isSameValue(left[key], right[key]));
+  }
+
+  return a === b;
+}
+
+// ================================================================
+// ABWEICHENDE FELDER
+// ================================================================
+
+export function getConflictingFields(conflict: SyncConflict): string[] {
+  return SERVER_FIELDS[conflict.entity].filter(field =>
+    !isSameValue(fieldValue(conflict.local_record, field), fieldValue(conflict.server_record, field))
+  );
+}
+
+export function formatFieldValue(record: ConflictRecord, field: string): string {
+  const value = fieldValue(record, field);
+  if (isEmpty(value)) return '–';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// ================================================================
+// EIGENE ÜBERTRAGUNG ERKENNEN
+// ================================================================
+
+// Steht auf dem Server schon genau das, was wir schreiben wollten, kam eine
+// frühere Übertragung an und nur die Antwort ging verloren - kein Konflikt
+export function matchesServerRecord(
+  values: { [field: string]: unknown },
+  serverRecord: { [field: string]: unknown }
+): boolean {
+  return Object.keys(values)
+    .filter(field => IGNORED_FIELDS.indexOf(field) === -1 && field !== 'created_at')
+    .every(field => isSameValue(values[field], serverRecord[field]));
+}
+
+// ================================================================
+// FELDWEISE ZUSAMMENFÜHREN
+// ================================================================
+
+export function mergeConflictRecords(
+  conflict: SyncConflict,
+  choices: { [field: string]: FieldChoice }
+): ConflictRecord {
+  const merged = { ...conflict.local_record } as unknown as Record<string, unknown>;
+
+  getConflictingFields(conflict).forEach(field => {
+    if (choices[field] === 'theirs') {
+      merged[field] = fieldValue(conflict.server_record, field);
+    }
+  });
+
+  return merged as unknown as ConflictRecord;
+}
+
+export type { ConflictRecord, FieldChoice, ConflictResolution };
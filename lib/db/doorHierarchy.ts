@@ -0,0 +1,183 @@
+// 🔧 InspecDoor Tür-Hierarchie - Kunde → Objekt/Lieferort → Gebäude/Etage → Tür
+// Reine Hilfsfunktionen, keine Datenbankzugriffe. Gebäude und Etage kommen aus
+// dem Plan, auf dem die Tür platziert ist, sonst aus dem Standort-Freitext.
+
+import { getDefects } from './checklists';
+import { getLatestInspection } from './doorStatus';
+import type { Customer, DeliveryLocation, Door, Inspection, Plan, Site } from './offlineDB';
+
+interface HierarchyCounts {
+  doors: number;
+  openDefects: number; // Mängel aus der jeweils letzten Prüfung
+}
+
+interface FloorNode {
+  key: string;
+  building?: string;
+  floor?: string;
+  label: string;
+  doors: Door[];
+  counts: HierarchyCounts;
+}
+
+interface SiteNode {
+  key: string;
+  site: Site | null; // null: Türen ohne (bekanntes) Objekt
+  deliveryLocation: DeliveryLocation | null;
+  floors: FloorNode[];
+  counts: HierarchyCounts;
+}
+
+interface CustomerNode {
+  customer: Customer;
+  sites: SiteNode[];
+  counts: HierarchyCounts;
+}
+
+const NO_SITE_KEY = 'none';
+
+// ================================================================
+// GEBÄUDE & ETAGE
+// ================================================================
+
+// Typische Schreibweisen auf Türlisten: "EG", "1. OG", "OG 2", "UG", "KG", "DG", "Haus B"
+const FLOOR_PATTERN = /\b(\d+\.\s*OG|OG\s*\d+|[1-9]\.\s*Etage|EG|UG|KG|DG|Erdgeschoss|Keller|Dachgeschoss|Tiefgarage|TG)\b/i;
+const BUILDING_PATTERN = /\b((?:(?:Haus|Gebäude|Bauteil|Bau|Block|Trakt)\s+|Geb\.\s*)[A-Za-z0-9]+)\b/i;
+
+export function getDoorBuildingAndFloor(door: Door, plan?: Plan): { building?: string; floor?: string } {
+  if (plan && (plan.building || plan.floor)) {
+    return { building: plan.building, floor: plan.floor };
+  }
+
+  const floorMatch = door.location.match(FLOOR_PATTERN);
+  const buildingMatch = door.location.match(BUILDING_PATTERN);
+
+  return {
+    building: buildingMatch ? buildingMatch[1] : undefined,
+    floor: floorMatch ? floorMatch[1].replace(/\s+/g, ' ') : undefined
+  };
+}
+
+// Keller unten, Dach oben - damit ein Gebäude Etage für Etage abgearbeitet werden kann
+export function getFloorRank(floor?: string): number {
+  if (!floor) return 1000;
+
+  const normalized = floor.toUpperCase();
+  if (/TG|TIEFGARAGE/.test(normalized)) return -2;
+  if (/UG|KG|KELLER/.test(normalized)) return -1;
+  if (/EG|ERDGESCHOSS/.test(normalized)) return 0;
+  if (/DG|DACH/.test(normalized)) return 500;
+
+  const level = normalized.match(/\d+/);
+  return level ? Number(level[0]) : 999;
+}
+
+// ================================================================
+// BAUM AUFBAUEN
+// ================================================================
+
+const emptyCounts = (): HierarchyCounts => ({ doors: 0, openDefects: 0 });
+
+const addCounts = (target: HierarchyCounts, source: HierarchyCounts): void => {
+  target.doors += source.doors;
+  target.openDefects += source.openDefects;
+};
+
+export function countOpenDefects(inspections: Inspection[]): number {
+  const latest = getLatestInspection(inspections);
+  return latest ? getDefects(latest.checklist || []).length : 0;
+}
+
+const compareFloors = (a: FloorNode, b: FloorNode): number =>
+  (a.building || '').localeCompare(b.building || '', 'de', { numeric: true }) ||
+  getFloorRank(a.floor) - getFloorRank(b.floor) ||
+  a.label.localeCompare(b.label, 'de');
+
+const compareDoors = (a: Door, b: Door): number =>
+  (a.door_number || '').localeCompare(b.door_number || '', 'de', { numeric: true });
+
+export function buildDoorHierarchy(data: {
+  customers: Customer[];
+  deliveryLocations: DeliveryLocation[];
+  sites: Site[];
+  doors: Door[];
+  plans: Plan[];
+  inspectionsByDoor: { [doorId: string]: Inspection[] };
+}): CustomerNode[] {
+  const sitesById: { [id: string]: Site } = {};
+  data.sites.forEach(site => { sitesById[site.id] = site; });
+
+  const locationsById: { [id: string]: DeliveryLocation } = {};
+  data.deliveryLocations.forEach(location => { locationsById[location.id] = location; });
+
+  const plansById: { [id: string]: Plan } = {};
+  data.plans.forEach(plan => { plansById[plan.id] = plan; });
+
+  // Türen nach Kunde → Objekt → Gebäude/Etage einsortieren
+  const floorsByCustomer: { [customerId: string]: { [siteKey: string]: { [floorKey: string]: FloorNode } } } = {};
+
+  data.doors.forEach(door => {
+    const siteKey = door.site_id && sitesById[door.site_id] ? door.site_id : NO_SITE_KEY;
+    const { building, floor } = getDoorBuildingAndFloor(door, door.plan_id ? plansById[door.plan_id] : undefined);
+    const floorKey = `${building || ''}|${floor || ''}`;
+
+    const customerSites = floorsByCustomer[door.customer_id] = floorsByCustomer[door.customer_id] || {};
+    const siteFloors = customerSites[siteKey] = customerSites[siteKey] || {};
+    const node = siteFloors[floorKey] = siteFloors[floorKey] || {
+      key: floorKey,
+      building,
+      floor,
+      label: [building, floor].filter(Boolean).join(' · ') || 'Ohne Gebäude/Etage',
+      doors: [],
+      counts: emptyCounts()
+    };
+
+    node.doors.push(door);
+    node.counts.doors += 1;
+    node.counts.openDefects += countOpenDefects(data.inspectionsByDoor[door.id] || []);
+  });
+
+  return data.customers.map(customer => {
+    const customerSites = floorsByCustomer[customer.id] || {};
+    const customerCounts = emptyCounts();
+
+    // Auch Objekte ohne Türen zeigen - dort werden vor Ort oft neue erfasst
+    const siteKeys = data.sites
+      .filter(site => site.customer_id === customer.id)
+      .map(site => site.id);
+    if (customerSites[NO_SITE_KEY]) siteKeys.push(NO_SITE_KEY);
+
+    const sites = siteKeys.map(siteKey => {
+      const site = siteKey === NO_SITE_KEY ? null : sitesById[siteKey];
+      const floors = Object.keys(customerSites[siteKey] || {})
+        .map(floorKey => customerSites[siteKey][floorKey])
+        .sort(compareFloors);
+      const siteCounts = emptyCounts();
+
+      floors.forEach(floor => {
+        floor.doors.sort(compareDoors);
+        addCounts(siteCounts, floor.counts);
+      });
+      addCounts(customerCounts, siteCounts);
+
+      return {
+        key: siteKey,
+        site,
+        deliveryLocation: site?.delivery_location_id ? locationsById[site.delivery_location_id] || null : null,
+        floors,
+        counts: siteCounts
+      };
+    });
+
+    // Nach Lieferort gruppiert, Türen ohne Objekt zuletzt
+    sites.sort((a, b) =>
+      Number(!a.site) - Number(!b.site) ||
+      (a.deliveryLocation?.location_name || '').localeCompare(b.deliveryLocation?.location_name || '', 'de') ||
+      (a.site?.site_name || '').localeCompare(b.site?.site_name || '', 'de')
+    );
+
+    return { customer, sites, counts: customerCounts };
+  });
+}
+
+export type { HierarchyCounts, FloorNode, SiteNode, CustomerNode };
@@ -0,0 +1,72 @@
+// 🔧 InspecDoor Tür-Status - Letzte Prüfung und Fälligkeit
+// Reine Hilfsfunktionen, keine Datenbankzugriffe
+
+import { addMonths } from 'date-fns';
+import type { Door, Inspection } from './offlineDB';
+
+// Prüfintervall (DIN 14677: Feststellanlagen/Feuerschutztüren jährlich)
+export const INSPECTION_INTERVAL_MONTHS = Number(process.env.NEXT_PUBLIC_INSPECTION_INTERVAL_MONTHS) || 12;
+
+// ================================================================
+// LETZTE PRÜFUNG
+// ================================================================
+
+// Jüngste Prüfung einer Tür aus der Offline-Historie
+export function getLatestInspection(inspections: Inspection[]): Inspection | null {
+  return inspections.reduce<Inspection | null>((latest, inspection) =>
+    !latest || inspection.inspection_date > latest.inspection_date ? inspection : latest,
+  null);
+}
+
+// Offline liegt nur die jüngere Historie - das Server-Feld deckt ältere Prüfungen ab
+export function getLastInspectionDate(door: Door, inspections: Inspection[]): string | null {
+  const finished = inspections.filter(inspection => inspection.status !== 'pending');
+  const latest = getLatestInspection(finished);
+  const candidates = [latest?.inspection_date, door.last_inspection_date]
+    .filter((date): date is string => !!date)
+    .sort();
+
+  return candidates.length > 0 ? candidates[candidates.length - 1] : null;
+}
+
+// ================================================================
+// FÄLLIGKEIT
+// ================================================================
+
+export function getNextInspectionDue(door: Door, inspections: Inspection[]): Date | null {
+  const lastDate = getLastInspectionDate(door, inspections);
+  return lastDate ? addMonths(new Date(lastDate), INSPECTION_INTERVAL_MONTHS) : null;
+}
+
+// Nie geprüfte Türen gelten als überfällig
+export function isInspectionOverdue(door: Door, inspections: Inspection[], now = new Date()): boolean {
+  const due = getNextInspectionDue(door, inspections);
+  return !due || due < now;
+}
+
+// Prüfungen nach Tür gruppieren (für Listen über viele Türen)
+export function groupInspectionsByDoor(inspections: Inspection[]): { [doorId: string]: Inspection[] } {
+  const groups: { [doorId: string]: Inspection[] } = {};
+  inspections.forEach(inspection => {
+    (groups[inspection.door_id] = groups[inspection.door_id] || []).push(inspection);
+  });
+  return groups;
+}
+
+// ================================================================
+// ABGLEICH MIT DEM BÜRO
+// ================================================================
+
+// new:       offline angelegt, noch nicht hochgeladen
+// changed:   offline geändert, noch nicht hochgeladen
+// uploaded:  angelegt oder geändert und hochgeladen, aber noch nicht per Download vom Büro bestätigt
+type DoorSyncState = 'new' | 'changed' | 'uploaded';
+
+export function getDoorSyncState(door: Door): DoorSyncState | null {
+  if (door.synced === false) return door.offline_created ? 'new' : 'changed';
+  // offline_created ohne Markierung: vor dieser Unterscheidung hochgeladen
+  if (door.awaiting_confirmation || door.offline_created) return 'uploaded';
+  return null;
+}
+
+export type { DoorSyncState };
@@ -1,6 +1,8 @@
 // 🔧 InspecDoor Offline Database - IndexedDB für Tablet-Workflows
 // Basierend auf Best-Practice Field Worker App Patterns
 
+import { generateUUID, isLegacyOfflineId } from './uuid';
+
 interface Customer {
   id: string;
   name: string;
@@ -14,6 +16,7 @@ interface Customer {
 interface Door {
   id: string;
   customer_id: string;
+  site_id?: string;
   location: string;
   door_number: string;
   door_type?: string;
@@ -21,49 +24,479 @@ interface Door {
   model?: string;
   year?: string;
   notes?: string;
+  last_inspection_date?: string; // Vom Server gepflegt - offline liegt nur ein Teil der Historie
+  created_at: string;
+  updated_at: string;
+  // Stand des Servers beim letzten Download (Optimistic Concurrency)
+  server_updated_at?: string;
+  // Position auf dem Gebäudeplan, relativ zur Planbreite/-höhe (0..1)
+  plan_id?: string;
+  plan_x?: number;
+  plan_y?: number;
+  // Offline-spezifische Felder - fehlen bei vom Server geladenen Türen
+  synced?: boolean;
+  offline_created?: boolean;
+  // Hochgeladen, aber noch nicht per Download vom Server bestätigt
+  awaiting_confirmation?: boolean;
+}
+
+// ================================================================
+// CHECKLISTEN (Prüfung nach DIN/EN je Türtyp)
+// ================================================================
+
+type InspectionStatus = 'pending' | 'completed' | 'failed';
+type ChecklistItemResult = 'ok' | 'defect' | 'not_applicable';
+type DefectSeverity = 'minor' | 'major' | 'critical';
+
+interface ChecklistTemplateItem {
+  id: string;
+  category?: string;
+  label: string;
+  description?: string;
+  norm_reference?: string;
+  default_severity: DefectSeverity;
+}
+
+interface ChecklistTemplate {
+  id: string;
+  door_type: string;
+  name: string;
+  norm?: string;
+  items: ChecklistTemplateItem[];
   created_at: string;
   updated_at: string;
 }
 
+interface InspectionChecklistItem {
+  item_id: string;
+  category?: string;
+  label: string;
+  result: ChecklistItemResult | null;
+  severity?: DefectSeverity;
+  comment?: string;
+}
+
 interface Inspection {
   id: string;
   door_id: string;
   inspector_name: string;
   inspection_date: string;
-  status: 'pending' | 'completed' | 'failed';
+  status: InspectionStatus;
   notes?: string;
-  photos?: string[];
+  checklist_template_id?: string;
+  checklist?: InspectionChecklistItem[];
+  photos?: string[]; // Storage-Pfade im Bucket 'door-photos'
+  // Abnahme durch den Kunden - unterschriebene Prüfungen sind gesperrt
+  signature_id?: string;
+  signed_by?: string;
+  signed_at?: string;
+  signature_path?: string; // Storage-Pfad des Unterschriftsbilds
   created_at: string;
   updated_at: string;
   // Offline-spezifische Felder
   synced: boolean;
   offline_created: boolean;
+  server_updated_at?: string; // Stand des Servers beim letzten Download/Upload
+}
+
+// ================================================================
+// FOTO-ANMERKUNGEN (Vektordaten, getrennt vom Originalbild)
+// ================================================================
+// Koordinaten sind relativ zur Bildgröße (0..1), damit die Anmerkungen
+// unabhängig von Anzeige- und Upload-Auflösung passen.
+
+interface AnnotationPoint {
+  x: number;
+  y: number;
 }
 
+type PhotoAnnotation =
+  | { id: string; type: 'arrow'; color: string; from: AnnotationPoint; to: AnnotationPoint }
+  | { id: string; type: 'circle'; color: string; center: AnnotationPoint; radius: number }
+  | { id: string; type: 'freehand'; color: string; points: AnnotationPoint[] }
+  | { id: string; type: 'text'; color: string; position: AnnotationPoint; text: string };
+
 interface OfflinePhoto {
   id: string;
   inspection_id: string;
   blob: Blob;
+  thumbnail?: Blob; // Kleine Vorschau für schnelle Galerien
+  width?: number;
+  height?: number;
+  mime_type?: string;
+  annotations?: PhotoAnnotation[];
   filename: string;
+  storage_path?: string;           // Pfad im Bucket nach erfolgreichem Upload
+  annotated_storage_path?: string; // Flaches Bild mit Markierungen
+  upload_url?: string;             // Laufender TUS-Upload zum Fortsetzen nach Abbruch
+  upload_offset?: number;          // Davon bereits bestätigte Bytes
+  draft?: boolean;                 // Prüfung noch nie gespeichert - nicht in der Outbox
+  upload_discarded?: boolean;      // Upload verworfen - bleibt lokal, nicht in der Outbox
+  created_at: string;
+  synced: boolean;
+}
+
+interface DeliveryLocation {
+  id: string;
+  customer_id: string;
+  location_name: string;
+  address?: string;
+  postal_code?: string;
+  city?: string;
+  contact_person?: string;
+  phone?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface Site {
+  id: string;
+  customer_id: string;
+  delivery_location_id?: string;
+  site_name: string;
+  address?: string;
+  postal_code?: string;
+  city?: string;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface Plan {
+  id: string;
+  site_id: string;
+  plan_name: string;
+  building?: string;
+  floor?: string;
+  file_url?: string;
+  file_type?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Offline zwischengespeicherte Plandatei. PDFs werden beim Download einmal
+// als Bild gerendert, damit der Viewer nur noch Bilder anzeigen muss.
+interface PlanFile {
+  plan_id: string;
+  file_url: string;      // Quelle - ändert sie sich, wird neu geladen
+  blob: Blob;
+  mime_type: string;
+  width: number;
+  height: number;
+  source_type: 'image' | 'pdf';
+  cached_at: string;
+}
+
+// ================================================================
+// UNTERSCHRIFTEN (Abnahme eines Prüfbesuchs durch den Kunden)
+// ================================================================
+
+interface Signature {
+  id: string;
+  customer_id: string;
+  site_id?: string;
+  inspection_ids: string[]; // Alle Prüfungen des Besuchs, die damit abgenommen wurden
+  signer_name: string;
+  signed_at: string;
+  blob: Blob;               // PNG, schwarz auf transparent
+  mime_type: string;
+  storage_path?: string;    // Pfad im Bucket nach erfolgreichem Upload
+  synced: boolean;
+}
+
+// ================================================================
+// PRÜFBERICHTE (auf dem Tablet erzeugte PDFs)
+// ================================================================
+
+interface InspectionReport {
+  id: string;
+  customer_id: string;
+  site_id?: string;
+  day: string;              // Besuchstag yyyy-MM-dd
+  inspection_ids: string[]; // Prüfungen, die im Bericht stehen
+  file_name: string;
+  blob: Blob;               // application/pdf
   created_at: string;
+  storage_path?: string;    // Pfad im Bucket nach erfolgreichem Upload
   synced: boolean;
 }
 
+// ================================================================
+// TAGESPLANUNG (Aufträge & Download-Umfang)
+// ================================================================
+
+interface Assignment {
+  id: string;
+  technician_name: string;
+  customer_id: string;
+  site_id?: string;
+  scheduled_date: string; // YYYY-MM-DD
+  title?: string;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+type DownloadScope =
+  | { mode: 'full' }
+  | { mode: 'assigned'; technician_name: string }
+  | { mode: 'date_range'; technician_name: string; from: string; to: string }
+  | { mode: 'customers'; customer_ids: string[] };
+
+// ================================================================
+// OUTBOX (ausstehende Uploads mit Wiederholungen)
+// ================================================================
+
+type OutboxOperation = 'upload_inspection' | 'upload_photo' | 'upload_door' | 'upload_report';
+
+interface OutboxItem {
+  id: string; // `${operation}:${record_id}`
+  operation: OutboxOperation;
+  record_id: string;
+  inspection_id: string; // Fotos werden immer vor ihrer Prüfung übertragen; bei Türen/Berichten deren ID
+  attempts: number;
+  last_error?: string;
+  last_attempt_at?: string;
+  next_retry_at: string;
+  created_at: string;
+}
+
+// ================================================================
+// SYNC-KONFLIKTE (Büro hat denselben Datensatz geändert)
+// ================================================================
+
+type ConflictEntity = 'inspections' | 'doors';
+
+interface SyncConflict {
+  id: string; // `${entity}:${record_id}`
+  entity: ConflictEntity;
+  record_id: string;
+  local_record: Inspection | Door;
+  server_record: Inspection | Door;
+  detected_at: string;
+}
+
+// ================================================================
+// SYNC-RICHTLINIE (Datentarif schonen)
+// ================================================================
+
+interface SyncPolicy {
+  photos_unmetered_only: boolean; // Fotos nur über WLAN/LAN hochladen
+  plans_unmetered_only: boolean;  // Pläne nur über WLAN/LAN laden
+  always_metered: boolean;        // Tablet hat nur SIM - auch ohne Network Information API
+}
+
+// Fallback-Sperre für Browser ohne Web Locks API (Lease mit Heartbeat)
+interface SyncLease {
+  holder_id: string;   // Tab bzw. Service Worker, der gerade synchronisiert
+  activity: string;
+  expires_at: string;  // Ohne Heartbeat verfällt die Sperre von selbst
+}
+
 interface SyncStatus {
   id: string;
   last_sync: string;
   pending_uploads: number;
   last_download: string;
-  sync_in_progress: boolean;
+  sync_in_progress: boolean;       // Veraltet - maßgeblich ist die Sperre (syncLock)
+  table_watermarks?: { [table: string]: string }; // Jüngstes updated_at je Tabelle (Delta-Sync)
+  inspection_history_days?: number; // Zeitfenster des letzten Prüfungs-Downloads
+  download_scope?: DownloadScope;  // Umfang des letzten Downloads
+  scope_customer_ids?: string[];   // Kunden im Tagesplan (leer bei Vollständig)
+  sync_policy?: SyncPolicy;        // Auch für den Service Worker lesbar
+  sync_lease?: SyncLease;
 }
 
+// ================================================================
+// SCHEMA MIGRATIONS
+// ================================================================
+// Jede Migration hebt das Schema um genau eine Version an. Bestehende
+// Tablets durchlaufen beim Öffnen alle noch fehlenden Schritte der Reihe
+// nach, ohne dass vorhandene Offline-Daten verloren gehen.
+// Neue Migrationen immer nur HINTEN anhängen, nie bestehende ändern!
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+const MIGRATIONS: Migration[] = [
+  // v1: Kunden, Türen, Prüfungen, Fotos, Sync-Status
+  (db) => {
+    // Customers Store
+    if (!db.objectStoreNames.contains('customers')) {
+      const customersStore = db.createObjectStore('customers', { keyPath: 'id' });
+      customersStore.createIndex('name', 'name', { unique: false });
+    }
+
+    // Doors Store
+    if (!db.objectStoreNames.contains('doors')) {
+      const doorsStore = db.createObjectStore('doors', { keyPath: 'id' });
+      doorsStore.createIndex('customer_id', 'customer_id', { unique: false });
+      doorsStore.createIndex('location', 'location', { unique: false });
+    }
+
+    // Inspections Store
+    if (!db.objectStoreNames.contains('inspections')) {
+      const inspectionsStore = db.createObjectStore('inspections', { keyPath: 'id' });
+      inspectionsStore.createIndex('door_id', 'door_id', { unique: false });
+      inspectionsStore.createIndex('synced', 'synced', { unique: false });
+      inspectionsStore.createIndex('status', 'status', { unique: false });
+    }
+
+    // Photos Store (Blobs für Offline-Fotos)
+    if (!db.objectStoreNames.contains('photos')) {
+      const photosStore = db.createObjectStore('photos', { keyPath: 'id' });
+      photosStore.createIndex('inspection_id', 'inspection_id', { unique: false });
+      photosStore.createIndex('synced', 'synced', { unique: false });
+    }
+
+    // Sync Status Store
+    if (!db.objectStoreNames.contains('sync_status')) {
+      db.createObjectStore('sync_status', { keyPath: 'id' });
+    }
+  },
+
+  // v2: Lieferorte, Standorte, Gebäudepläne
+  (db) => {
+    if (!db.objectStoreNames.contains('delivery_locations')) {
+      const deliveryLocationsStore = db.createObjectStore('delivery_locations', { keyPath: 'id' });
+      deliveryLocationsStore.createIndex('customer_id', 'customer_id', { unique: false });
+    }
+
+    if (!db.objectStoreNames.contains('sites')) {
+      const sitesStore = db.createObjectStore('sites', { keyPath: 'id' });
+      sitesStore.createIndex('customer_id', 'customer_id', { unique: false });
+      sitesStore.createIndex('delivery_location_id', 'delivery_location_id', { unique: false });
+    }
+
+    if (!db.objectStoreNames.contains('plans')) {
+      const plansStore = db.createObjectStore('plans', { keyPath: 'id' });
+      plansStore.createIndex('site_id', 'site_id', { unique: false });
+    }
+  },
+
+  // v3: Checklisten-Vorlagen je Türtyp
+  (db) => {
+    if (!db.objectStoreNames.contains('checklist_templates')) {
+      const templatesStore = db.createObjectStore('checklist_templates', { keyPath: 'id' });
+      templatesStore.createIndex('door_type', 'door_type', { unique: false });
+    }
+  },
+
+  // v4: Alte 'offline_…'-IDs noch nicht hochgeladener Prüfungen durch UUIDs
+  // ersetzen. Läuft in der Upgrade-Transaktion, also alles-oder-nichts.
+  (_db, transaction) => {
+    const inspectionsStore = transaction.objectStore('inspections');
+    const photosStore = transaction.objectStore('photos');
+
+    inspectionsStore.openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+
+      const inspection = cursor.value as Inspection;
+      if (!inspection.synced && isLegacyOfflineId(inspection.id)) {
+        const oldId = inspection.id;
+        const newId = generateUUID();
+
+        inspectionsStore.put({ ...inspection, id: newId });
+        cursor.delete();
+
+        // Fotos umhängen; bereits unter dem alten Pfad hochgeladene
+        // Fotos werden unter dem neuen Pfad erneut hochgeladen
+        photosStore.index('inspection_id').openCursor(oldId).onsuccess = (photoEvent) => {
+          const photoCursor = (photoEvent.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!photoCursor) return;
+
+          const photo = photoCursor.value as OfflinePhoto;
+          photoCursor.update({
+            ...photo,
+            inspection_id: newId,
+            storage_path: undefined,
+            annotated_storage_path: undefined,
+            synced: false
+          });
+          photoCursor.continue();
+        };
+      }
+
+      cursor.continue();
+    };
+  },
+
+  // v5: Sync-Konflikte
+  (db) => {
+    if (!db.objectStoreNames.contains('conflicts')) {
+      const conflictsStore = db.createObjectStore('conflicts', { keyPath: 'id' });
+      conflictsStore.createIndex('entity', 'entity', { unique: false });
+    }
+  },
+
+  // v6: Aufträge für den Tagesplan
+  (db) => {
+    if (!db.objectStoreNames.contains('assignments')) {
+      const assignmentsStore = db.createObjectStore('assignments', { keyPath: 'id' });
+      assignmentsStore.createIndex('customer_id', 'customer_id', { unique: false });
+      assignmentsStore.createIndex('scheduled_date', 'scheduled_date', { unique: false });
+    }
+  },
+
+  // v7: Outbox. Die bisher über das 'synced'-Flag erkannten Uploads übernimmt
+  // reconcileOutbox() nach dem Upgrade - hier gelesen, sähen die Cursor noch die
+  // alten 'offline_…'-IDs, deren Umschreibung aus v4 erst später ausgeführt wird.
+  (db) => {
+    if (db.objectStoreNames.contains('outbox')) return;
+
+    const outboxStore = db.createObjectStore('outbox', { keyPath: 'id' });
+    outboxStore.createIndex('inspection_id', 'inspection_id', { unique: false });
+  },
+
+  // v8: Plandateien für den Offline-Planviewer
+  (db) => {
+    if (!db.objectStoreNames.contains('plan_files')) {
+      db.createObjectStore('plan_files', { keyPath: 'plan_id' });
+    }
+  },
+
+  // v9: Unterschriften der Kunden (Abnahme je Besuch)
+  (db) => {
+    if (!db.objectStoreNames.contains('signatures')) {
+      const signaturesStore = db.createObjectStore('signatures', { keyPath: 'id' });
+      signaturesStore.createIndex('customer_id', 'customer_id', { unique: false });
+    }
+  },
+
+  // v10: Prüfberichte als PDF zum Teilen und späteren Upload
+  (db) => {
+    if (!db.objectStoreNames.contains('reports')) {
+      const reportsStore = db.createObjectStore('reports', { keyPath: 'id' });
+      reportsStore.createIndex('customer_id', 'customer_id', { unique: false });
+    }
+  }
+];
+
+// ================================================================
+// ÄNDERUNGS-EVENTS
+// ================================================================
+// Nach jedem Schreibzugriff erfahren alle Hooks - auch in anderen Tabs und
+// aus dem Service Worker -, welche Stores sich geändert haben.
+
+type StoreChangeListener = (stores: string[]) => void;
+
+const CHANGE_CHANNEL_NAME = 'inspecdoor-db-changes';
+const CHANGE_BATCH_MS = 50; // Bulk-Downloads erzeugen nur ein Event je Schub
+
+const DRAFT_PHOTO_MAX_AGE_MS = 12 * 60 * 60 * 1000; // Entwurfsfotos ohne Prüfung beim Start verwerfen
+
 class OfflineDB {
   private db: IDBDatabase | null = null;
   private dbName = 'InspecDoorOffline';
-  private version = 1;
+  private version = MIGRATIONS.length;
+  private changeListeners: { stores: string[]; listener: StoreChangeListener }[] = [];
+  private pendingChanges: string[] = [];
+  private changeTimer: ReturnType<typeof setTimeout> | null = null;
+  private changeChannel: BroadcastChannel | null = null;
+  private outboxReconciled: Promise<void> | null = null;
 
   async init(): Promise<void> {
-    return new Promise((resolve, reject) => {
+    await new Promise<void>((resolve, reject) => {
       const request = indexedDB.open(this.dbName, this.version);
 
       request.onerror = () => reject(request.error);
@@ -73,44 +506,173 @@ class OfflineDB {
       };
 
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
+        const db = request.result;
+        const transaction = request.transaction!;
 
-        // Customers Store
-        if (!db.objectStoreNames.contains('customers')) {
-          const customersStore = db.createObjectStore('customers', { keyPath: 'id' });
-          customersStore.createIndex('name', 'name', { unique: false });
+        // Nur die Migrationen ausführen, die dieses Gerät noch nicht hat
+        for (let version = event.oldVersion; version < MIGRATIONS.length; version++) {
+          MIGRATIONS[version](db, transaction);
         }
+      };
+    });
 
-        // Doors Store
-        if (!db.objectStoreNames.contains('doors')) {
-          const doorsStore = db.createObjectStore('doors', { keyPath: 'id' });
-          doorsStore.createIndex('customer_id', 'customer_id', { unique: false });
-          doorsStore.createIndex('location', 'location', { unique: false });
-        }
+    // Einmal je Instanz - danach halten die Schreibmethoden die Outbox aktuell
+    if (!this.outboxReconciled) {
+      this.outboxReconciled = this.reconcileOutbox().catch(error => {
+        console.error('Outbox reconcile failed:', error);
+      });
+    }
+    await this.outboxReconciled;
+  }
 
-        // Inspections Store
-        if (!db.objectStoreNames.contains('inspections')) {
-          const inspectionsStore = db.createObjectStore('inspections', { keyPath: 'id' });
-          inspectionsStore.createIndex('door_id', 'door_id', { unique: false });
-          inspectionsStore.createIndex('synced', 'synced', { unique: false });
-          inspectionsStore.createIndex('status', 'status', { unique: false });
-        }
+  // Outbox mit den Datensätzen abgleichen: Jeder nicht hochgeladene Datensatz
+  // braucht einen Eintrag, Einträge ohne Datensatz fallen weg, Foto-Einträge
+  // folgen der aktuellen Prüfungs-ID. Fängt Lücken durch Abstürze zwischen zwei
+  // Schreibzugriffen und durch die Migration alter Geräte ab. Entwurfsfotos
+  // ohne Prüfung (App während einer neuen Prüfung geschlossen) werden gelöscht.
+  private reconcileOutbox(): Promise<void> {
+    const stores = ['inspections', 'photos', 'doors', 'reports', 'outbox'];
 
-        // Photos Store (Blobs für Offline-Fotos)
-        if (!db.objectStoreNames.contains('photos')) {
-          const photosStore = db.createObjectStore('photos', { keyPath: 'id' });
-          photosStore.createIndex('inspection_id', 'inspection_id', { unique: false });
-          photosStore.createIndex('synced', 'synced', { unique: false });
+    return new Promise((resolve, reject) => {
+      const transaction = this.writeTransaction(stores);
+      const outboxStore = transaction.objectStore('outbox');
+      const now = new Date().toISOString();
+
+      const existing: { [itemId: string]: OutboxItem } = {};
+      const seen: { [itemId: string]: boolean } = {};
+      const inspectionIds: { [inspectionId: string]: boolean } = {};
+      const draftPhotos: OfflinePhoto[] = [];
+      let openScans = 4;
+
+      const expect = (operation: OutboxOperation, recordId: string, inspectionId: string, needsUpload: boolean) => {
+        const itemId = `${operation}:${recordId}`;
+        const item = existing[itemId];
+
+        if (item) {
+          seen[itemId] = true;
+          if (item.inspection_id !== inspectionId) {
+            outboxStore.put({ ...item, inspection_id: inspectionId });
+          }
+        } else if (needsUpload) {
+          outboxStore.put({
+            id: itemId,
+            operation,
+            record_id: recordId,
+            inspection_id: inspectionId,
+            attempts: 0,
+            next_retry_at: now,
+            created_at: now
+          } as OutboxItem);
         }
+      };
 
-        // Sync Status Store
-        if (!db.objectStoreNames.contains('sync_status')) {
-          db.createObjectStore('sync_status', { keyPath: 'id' });
-        }
+      const finishScan = () => {
+        openScans--;
+        if (openScans > 0) return;
+
+        Object.keys(existing)
+          .filter(itemId => !seen[itemId])
+          .forEach(itemId => outboxStore.delete(itemId));
+
+        // Junge Entwürfe schonen - die Prüfung kann in einem anderen Tab noch offen sein
+        const draftCutoff = new Date(Date.now() - DRAFT_PHOTO_MAX_AGE_MS).toISOString();
+        const photosStore = transaction.objectStore('photos');
+        draftPhotos
+          .filter(photo => !inspectionIds[photo.inspection_id] && photo.created_at < draftCutoff)
+          .forEach(photo => photosStore.delete(photo.id));
+      };
+
+      const scan = <T>(storeName: string, visit: (record: T) => void) => {
+        transaction.objectStore(storeName).openCursor().onsuccess = (event) => {
+          const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor) {
+            finishScan();
+            return;
+          }
+          visit(cursor.value as T);
+          cursor.continue();
+        };
+      };
+
+      const outboxRequest = outboxStore.getAll();
+      outboxRequest.onsuccess = () => {
+        (outboxRequest.result as OutboxItem[]).forEach(item => { existing[item.id] = item; });
+
+        scan<Inspection>('inspections', inspection => {
+          inspectionIds[inspection.id] = true;
+          expect('upload_inspection', inspection.id, inspection.id, !inspection.synced);
+        });
+        scan<OfflinePhoto>('photos', photo => {
+          if (photo.draft) draftPhotos.push(photo);
+          expect('upload_photo', photo.id, photo.inspection_id, !photo.synced && !photo.draft && !photo.upload_discarded);
+        });
+        // Vom Server geladene Türen haben kein 'synced' - nur explizit false zählt
+        scan<Door>('doors', door =>
+          expect('upload_door', door.id, door.id, door.synced === false));
+        scan<InspectionReport>('reports', report =>
+          expect('upload_report', report.id, report.id, !report.synced));
       };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // ================================================================
+  // CHANGE EVENTS
+  // ================================================================
+
+  subscribe(stores: string[], listener: StoreChangeListener): () => void {
+    this.getChangeChannel();
+
+    const entry = { stores, listener };
+    this.changeListeners.push(entry);
+
+    return () => {
+      this.changeListeners = this.changeListeners.filter(existing => existing !== entry);
+    };
+  }
+
+  private writeTransaction(storeNames: string[]): IDBTransaction {
+    const transaction = this.db!.transaction(storeNames, 'readwrite');
+    transaction.addEventListener('complete', () => this.notifyChange(storeNames));
+    return transaction;
+  }
+
+  private notifyChange(storeNames: string[]): void {
+    storeNames.forEach(storeName => {
+      if (this.pendingChanges.indexOf(storeName) === -1) this.pendingChanges.push(storeName);
+    });
+
+    if (this.changeTimer) return;
+
+    this.changeTimer = setTimeout(() => {
+      const stores = this.pendingChanges;
+      this.pendingChanges = [];
+      this.changeTimer = null;
+
+      this.getChangeChannel()?.postMessage(stores);
+      this.dispatchChange(stores);
+    }, CHANGE_BATCH_MS);
+  }
+
+  private dispatchChange(stores: string[]): void {
+    this.changeListeners.forEach(({ stores: watched, listener }) => {
+      if (watched.some(storeName => stores.indexOf(storeName) !== -1)) {
+        listener(stores);
+      }
     });
   }
 
+  // BroadcastChannel stellt eigene Nachrichten nicht zu - lokal direkt verteilen
+  private getChangeChannel(): BroadcastChannel | null {
+    if (!this.changeChannel && typeof BroadcastChannel !== 'undefined') {
+      this.changeChannel = new BroadcastChannel(CHANGE_CHANNEL_NAME);
+      this.changeChannel.onmessage = (event: MessageEvent<string[]>) => this.dispatchChange(event.data);
+    }
+    return this.changeChannel;
+  }
+
   // ================================================================
   // CUSTOMERS CRUD
   // ================================================================
@@ -132,7 +694,7 @@ class OfflineDB {
     if (!this.db) throw new Error('Database not initialized');
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(['customers'], 'readwrite');
+      const transaction = this.writeTransaction(['customers']);
       const store = transaction.objectStore('customers');
 
       // Bulk insert
@@ -176,11 +738,47 @@ class OfflineDB {
     });
   }
 
+  async getDoor(doorId: string): Promise<Door | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['doors'], 'readonly');
+      const store = transaction.objectStore('doors');
+      const request = store.get(doorId);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getPendingDoors(): Promise<Door[]> {
+    const doors = await this.getAllDoors();
+    return doors.filter(door => door.synced === false);
+  }
+
+  async getDoorsAwaitingConfirmation(): Promise<Door[]> {
+    const doors = await this.getAllDoors();
+    return doors.filter(door => door.synced !== false && door.awaiting_confirmation);
+  }
+
+  async storeDoor(door: Door): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.writeTransaction(['doors']);
+      const store = transaction.objectStore('doors');
+      const request = store.put(door);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   async storeDoors(doors: Door[]): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(['doors'], 'readwrite');
+      const transaction = this.writeTransaction(['doors']);
       const store = transaction.objectStore('doors');
 
       doors.forEach(door => {
@@ -209,6 +807,19 @@ class OfflineDB {
     });
   }
 
+  async getInspection(inspectionId: string): Promise<Inspection | null> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['inspections'], 'readonly');
+      const store = transaction.objectStore('inspections');
+      const request = store.get(inspectionId);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   async getInspectionsByDoor(doorId: string): Promise<Inspection[]> {
     if (!this.db) throw new Error('Database not initialized');
     
@@ -223,6 +834,20 @@ class OfflineDB {
     });
   }
 
+  async getInspectionsByStatus(status: InspectionStatus): Promise<Inspection[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['inspections'], 'readonly');
+      const store = transaction.objectStore('inspections');
+      const index = store.index('status');
+      const request = index.getAll(status);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   async getPendingInspections(): Promise<Inspection[]> {
     if (!this.db) throw new Error('Database not initialized');
     
@@ -245,7 +870,7 @@ class OfflineDB {
     if (!this.db) throw new Error('Database not initialized');
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(['inspections'], 'readwrite');
+      const transaction = this.writeTransaction(['inspections']);
       const store = transaction.objectStore('inspections');
       const request = store.put(inspection);
 
@@ -258,7 +883,7 @@ class OfflineDB {
     if (!this.db) throw new Error('Database not initialized');
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(['inspections'], 'readwrite');
+      const transaction = this.writeTransaction(['inspections']);
       const store = transaction.objectStore('inspections');
 
       inspections.forEach(inspection => {
@@ -270,113 +895,723 @@ class OfflineDB {
     });
   }
 
+  // Erstes Speichern einer Prüfung: Datensatz, vorab aufgenommene Fotos und
+  // ihre Uploads in einer Transaktion - kein Foto bleibt als Entwurf zurück
+  async storeNewInspection(inspection: Inspection, photos: OfflinePhoto[], outboxItems: OutboxItem[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.writeTransaction(['inspections', 'photos', 'outbox']);
+      transaction.objectStore('inspections').put(inspection);
+
+      const photosStore = transaction.objectStore('photos');
+      photos.forEach(photo => photosStore.put(photo));
+
+      const outboxStore = transaction.objectStore('outbox');
+      outboxItems.forEach(item => outboxStore.put(item));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
   // ================================================================
-  // PHOTOS CRUD (BLOB STORAGE)
+  // DELIVERY LOCATIONS CRUD (LIEFERORTE)
   // ================================================================
 
-  async storePhoto(photo: OfflinePhoto): Promise<void> {
+  async getAllDeliveryLocations(): Promise<DeliveryLocation[]> {
     if (!this.db) throw new Error('Database not initialized');
-
+    
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(['photos'], 'readwrite');
-      const store = transaction.objectStore('photos');
-      const request = store.put(photo);
+      const transaction = this.db!.transaction(['delivery_locations'], 'readonly');
+      const store = transaction.objectStore('delivery_locations');
+      const request = store.getAll();
 
-      request.onsuccess = () => resolve();
+      request.onsuccess = () => resolve(request.result);
       request.onerror = () => reject(request.error);
     });
   }
 
-  async getPhotosByInspection(inspectionId: string): Promise<OfflinePhoto[]> {
+  async getDeliveryLocationsByCustomer(customerId: string): Promise<DeliveryLocation[]> {
     if (!this.db) throw new Error('Database not initialized');
     
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(['photos'], 'readonly');
-      const store = transaction.objectStore('photos');
-      const index = store.index('inspection_id');
-      const request = index.getAll(inspectionId);
+      const transaction = this.db!.transaction(['delivery_locations'], 'readonly');
+      const store = transaction.objectStore('delivery_locations');
+      const index = store.index('customer_id');
+      const request = index.getAll(customerId);
 
       request.onsuccess = () => resolve(request.result);
       request.onerror = () => reject(request.error);
     });
   }
 
-  async getPendingPhotos(): Promise<OfflinePhoto[]> {
+  async storeDeliveryLocations(deliveryLocations: DeliveryLocation[]): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
-    
+
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(['photos'], 'readonly');
-      const store = transaction.objectStore('photos');
-      const request = store.getAll();
+      const transaction = this.writeTransaction(['delivery_locations']);
+      const store = transaction.objectStore('delivery_locations');
 
-      request.onsuccess = () => {
-        // Filter für unsynced photos
-        const allPhotos = request.result;
-        const pendingPhotos = allPhotos.filter(photo => !photo.synced);
-        resolve(pendingPhotos);
-      };
-      request.onerror = () => reject(request.error);
+      deliveryLocations.forEach(deliveryLocation => {
+        store.put(deliveryLocation);
+      });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
     });
   }
 
   // ================================================================
-  // SYNC STATUS
+  // SITES CRUD (STANDORTE)
   // ================================================================
 
-  async getSyncStatus(): Promise<SyncStatus | null> {
+  async getAllSites(): Promise<Site[]> {
     if (!this.db) throw new Error('Database not initialized');
     
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(['sync_status'], 'readonly');
-      const store = transaction.objectStore('sync_status');
-      const request = store.get('main');
+      const transaction = this.db!.transaction(['sites'], 'readonly');
+      const store = transaction.objectStore('sites');
+      const request = store.getAll();
 
-      request.onsuccess = () => resolve(request.result || null);
+      request.onsuccess = () => resolve(request.result);
       request.onerror = () => reject(request.error);
     });
   }
 
-  async updateSyncStatus(status: Partial<SyncStatus>): Promise<void> {
+  async getSitesByCustomer(customerId: string): Promise<Site[]> {
     if (!this.db) throw new Error('Database not initialized');
-
+    
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(['sync_status'], 'readwrite');
-      const store = transaction.objectStore('sync_status');
-      
-      const getRequest = store.get('main');
-      getRequest.onsuccess = () => {
-        const currentStatus = getRequest.result || {
-          id: 'main',
-          last_sync: '',
-          pending_uploads: 0,
-          last_download: '',
-          sync_in_progress: false
-        };
+      const transaction = this.db!.transaction(['sites'], 'readonly');
+      const store = transaction.objectStore('sites');
+      const index = store.index('customer_id');
+      const request = index.getAll(customerId);
 
-        const updatedStatus = { ...currentStatus, ...status };
-        const putRequest = store.put(updatedStatus);
-        
-        putRequest.onsuccess = () => resolve();
-        putRequest.onerror = () => reject(putRequest.error);
-      };
-      
-      getRequest.onerror = () => reject(getRequest.error);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
     });
   }
 
-  // ================================================================
-  // UTILITY METHODS
-  // ================================================================
-
-  async clearAllData(): Promise<void> {
+  async getSitesByDeliveryLocation(deliveryLocationId: string): Promise<Site[]> {
     if (!this.db) throw new Error('Database not initialized');
-
-    const stores = ['customers', 'doors', 'inspections', 'photos', 'sync_status'];
     
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(stores, 'readwrite');
-      
-      stores.forEach(storeName => {
+      const transaction = this.db!.transaction(['sites'], 'readonly');
+      const store = transaction.objectStore('sites');
+      const index = store.index('delivery_location_id');
+      const request = index.getAll(deliveryLocationId);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async storeSites(sites: Site[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.writeTransaction(['sites']);
+      const store = transaction.objectStore('sites');
+
+      sites.forEach(site => {
+        store.put(site);
+      });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // ================================================================
+  // PLANS CRUD (GEBÄUDEPLÄNE)
+  // ================================================================
+
+  async getAllPlans(): Promise<Plan[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['plans'], 'readonly');
+      const store = transaction.objectStore('plans');
+      const request = store.getAll();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getPlansBySite(siteId: string): Promise<Plan[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['plans'], 'readonly');
+      const store = transaction.objectStore('plans');
+      const index = store.index('site_id');
+      const request = index.getAll(siteId);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async storePlans(plans: Plan[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.writeTransaction(['plans']);
+      const store = transaction.objectStore('plans');
+
+      plans.forEach(plan => {
+        store.put(plan);
+      });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getPlanFile(planId: string): Promise<PlanFile | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['plan_files'], 'readonly');
+      const store = transaction.objectStore('plan_files');
+      const request = store.get(planId);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Nur die Schlüssel - die Plandateien selbst sind mehrere MB groß
+  async getCachedPlanIds(): Promise<string[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['plan_files'], 'readonly');
+      const store = transaction.objectStore('plan_files');
+      const request = store.getAllKeys();
+
+      request.onsuccess = () => resolve(request.result as string[]);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async storePlanFile(planFile: PlanFile): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.writeTransaction(['plan_files']);
+      const store = transaction.objectStore('plan_files');
+      const request = store.put(planFile);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // ================================================================
+  // CHECKLIST TEMPLATES
+  // ================================================================
+
+  async getAllChecklistTemplates(): Promise<ChecklistTemplate[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['checklist_templates'], 'readonly');
+      const store = transaction.objectStore('checklist_templates');
+      const request = store.getAll();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getChecklistTemplatesByDoorType(doorType: string): Promise<ChecklistTemplate[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['checklist_templates'], 'readonly');
+      const store = transaction.objectStore('checklist_templates');
+      const index = store.index('door_type');
+      const request = index.getAll(doorType);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async storeChecklistTemplates(templates: ChecklistTemplate[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.writeTransaction(['checklist_templates']);
+      const store = transaction.objectStore('checklist_templates');
+
+      templates.forEach(template => {
+        store.put(template);
+      });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // ================================================================
+  // PHOTOS CRUD (BLOB STORAGE)
+  // ================================================================
+
+  async storePhoto(photo: OfflinePhoto): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.writeTransaction(['photos']);
+      const store = transaction.objectStore('photos');
+      const request = store.put(photo);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getPhoto(photoId: string): Promise<OfflinePhoto | null> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['photos'], 'readonly');
+      const store = transaction.objectStore('photos');
+      const request = store.get(photoId);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getPhotosByInspection(inspectionId: string): Promise<OfflinePhoto[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['photos'], 'readonly');
+      const store = transaction.objectStore('photos');
+      const index = store.index('inspection_id');
+      const request = index.getAll(inspectionId);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getPendingPhotos(): Promise<OfflinePhoto[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['photos'], 'readonly');
+      const store = transaction.objectStore('photos');
+      const request = store.getAll();
+
+      request.onsuccess = () => {
+        // Filter für unsynced photos
+        const allPhotos = request.result;
+        const pendingPhotos = allPhotos.filter(photo => !photo.synced && !photo.draft && !photo.upload_discarded);
+        resolve(pendingPhotos);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // ================================================================
+  // ASSIGNMENTS (TAGESPLAN)
+  // ================================================================
+
+  async getAllAssignments(): Promise<Assignment[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['assignments'], 'readonly');
+      const store = transaction.objectStore('assignments');
+      const request = store.getAll();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Tagesplan ersetzen statt ergänzen - alte Aufträge sind nicht mehr relevant
+  async replaceAssignments(assignments: Assignment[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.writeTransaction(['assignments']);
+      const store = transaction.objectStore('assignments');
+
+      store.clear();
+      assignments.forEach(assignment => {
+        store.put(assignment);
+      });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // ================================================================
+  // SIGNATURES
+  // ================================================================
+
+  async getSignature(signatureId: string): Promise<Signature | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['signatures'], 'readonly');
+      const store = transaction.objectStore('signatures');
+      const request = store.get(signatureId);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getSignaturesByCustomer(customerId: string): Promise<Signature[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['signatures'], 'readonly');
+      const store = transaction.objectStore('signatures');
+      const index = store.index('customer_id');
+      const request = index.getAll(customerId);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async storeSignature(signature: Signature): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.writeTransaction(['signatures']);
+      const store = transaction.objectStore('signatures');
+      const request = store.put(signature);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Abnahme als Ganzes: Unterschrift, gesperrte Prüfungen und ihre Uploads in
+  // einer Transaktion - nie eine Unterschrift ohne Sperre oder umgekehrt
+  async storeSignedInspections(signature: Signature, inspections: Inspection[], outboxItems: OutboxItem[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.writeTransaction(['signatures', 'inspections', 'outbox']);
+      transaction.objectStore('signatures').put(signature);
+
+      const inspectionsStore = transaction.objectStore('inspections');
+      inspections.forEach(inspection => inspectionsStore.put(inspection));
+
+      const outboxStore = transaction.objectStore('outbox');
+      outboxItems.forEach(item => outboxStore.put(item));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // ================================================================
+  // REPORTS
+  // ================================================================
+
+  async getReport(reportId: string): Promise<InspectionReport | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['reports'], 'readonly');
+      const store = transaction.objectStore('reports');
+      const request = store.get(reportId);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getReportsByCustomer(customerId: string): Promise<InspectionReport[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['reports'], 'readonly');
+      const store = transaction.objectStore('reports');
+      const index = store.index('customer_id');
+      const request = index.getAll(customerId);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async storeReport(report: InspectionReport): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.writeTransaction(['reports']);
+      const store = transaction.objectStore('reports');
+      const request = store.put(report);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // ================================================================
+  // OUTBOX
+  // ================================================================
+
+  async getAllOutboxItems(): Promise<OutboxItem[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['outbox'], 'readonly');
+      const store = transaction.objectStore('outbox');
+      const request = store.getAll();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getOutboxItem(itemId: string): Promise<OutboxItem | null> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['outbox'], 'readonly');
+      const store = transaction.objectStore('outbox');
+      const request = store.get(itemId);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getOutboxCount(): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['outbox'], 'readonly');
+      const store = transaction.objectStore('outbox');
+      const request = store.count();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async storeOutboxItem(item: OutboxItem): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.writeTransaction(['outbox']);
+      const store = transaction.objectStore('outbox');
+      const request = store.put(item);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async deleteOutboxItems(itemIds: string[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.writeTransaction(['outbox']);
+      const store = transaction.objectStore('outbox');
+
+      itemIds.forEach(itemId => {
+        store.delete(itemId);
+      });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // ================================================================
+  // SYNC CONFLICTS
+  // ================================================================
+
+  async getAllConflicts(): Promise<SyncConflict[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['conflicts'], 'readonly');
+      const store = transaction.objectStore('conflicts');
+      const request = store.getAll();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getConflict(conflictId: string): Promise<SyncConflict | null> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['conflicts'], 'readonly');
+      const store = transaction.objectStore('conflicts');
+      const request = store.get(conflictId);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async storeConflict(conflict: SyncConflict): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.writeTransaction(['conflicts']);
+      const store = transaction.objectStore('conflicts');
+      const request = store.put(conflict);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Konflikt auflösen: aufgelösten Datensatz speichern und Konflikt
+  // entfernen - in einer Transaktion, damit nichts halb übrig bleibt
+  async resolveConflict(conflictId: string, entity: ConflictEntity, record: Inspection | Door): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.writeTransaction(['conflicts', entity]);
+      transaction.objectStore(entity).put(record);
+      transaction.objectStore('conflicts').delete(conflictId);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // ================================================================
+  // SYNC STATUS
+  // ================================================================
+
+  async getSyncStatus(): Promise<SyncStatus | null> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['sync_status'], 'readonly');
+      const store = transaction.objectStore('sync_status');
+      const request = store.get('main');
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async updateSyncStatus(status: Partial<SyncStatus>): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.writeTransaction(['sync_status']);
+      const store = transaction.objectStore('sync_status');
+      
+      const getRequest = store.get('main');
+      getRequest.onsuccess = () => {
+        const currentStatus = getRequest.result || {
+          id: 'main',
+          last_sync: '',
+          pending_uploads: 0,
+          last_download: '',
+          sync_in_progress: false
+        };
+
+        const updatedStatus = { ...currentStatus, ...status };
+        const putRequest = store.put(updatedStatus);
+        
+        putRequest.onsuccess = () => resolve();
+        putRequest.onerror = () => reject(putRequest.error);
+      };
+      
+      getRequest.onerror = () => reject(getRequest.error);
+    });
+  }
+
+  // Prüfen und Setzen in einer Transaktion - zwei Tabs können nie
+  // gleichzeitig eine gültige Lease erhalten
+  async claimSyncLease(lease: SyncLease): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.writeTransaction(['sync_status']);
+      const store = transaction.objectStore('sync_status');
+      let claimed = false;
+
+      const getRequest = store.get('main');
+      getRequest.onsuccess = () => {
+        const currentStatus: SyncStatus = getRequest.result || {
+          id: 'main',
+          last_sync: '',
+          pending_uploads: 0,
+          last_download: '',
+          sync_in_progress: false
+        };
+        const currentLease = currentStatus.sync_lease;
+
+        if (
+          currentLease &&
+          currentLease.holder_id !== lease.holder_id &&
+          currentLease.expires_at > new Date().toISOString()
+        ) {
+          return;
+        }
+
+        claimed = true;
+        store.put({ ...currentStatus, sync_lease: lease });
+      };
+
+      transaction.oncomplete = () => resolve(claimed);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async releaseSyncLease(holderId: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.writeTransaction(['sync_status']);
+      const store = transaction.objectStore('sync_status');
+
+      const getRequest = store.get('main');
+      getRequest.onsuccess = () => {
+        const currentStatus: SyncStatus | undefined = getRequest.result;
+        if (currentStatus?.sync_lease?.holder_id === holderId) {
+          store.put({ ...currentStatus, sync_lease: undefined });
+        }
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // ================================================================
+  // UTILITY METHODS
+  // ================================================================
+
+  async clearAllData(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const stores = [
+      'customers', 'delivery_locations', 'sites', 'doors', 'plans', 'plan_files', 'signatures',
+      'reports', 'checklist_templates', 'inspections', 'photos', 'outbox', 'conflicts',
+      'assignments', 'sync_status'
+    ];
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.writeTransaction(stores);
+      
+      stores.forEach(storeName => {
         const store = transaction.objectStore(storeName);
         store.clear();
       });
@@ -386,33 +1621,127 @@ class OfflineDB {
     });
   }
 
+  // updated_at der lokal vorhandenen Datensätze - fehlende ids fehlen auch im Ergebnis
+  async getUpdatedAtByIds(storeName: string, ids: string[]): Promise<{ [id: string]: string }> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([storeName], 'readonly');
+      const store = transaction.objectStore(storeName);
+      const updatedAt: { [id: string]: string } = {};
+
+      ids.forEach(id => {
+        const request = store.get(id);
+        request.onsuccess = () => {
+          if (request.result) updatedAt[id] = request.result.updated_at || '';
+        };
+      });
+
+      transaction.oncomplete = () => resolve(updatedAt);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async deleteRecords(storeName: string, ids: string[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.writeTransaction([storeName]);
+      const store = transaction.objectStore(storeName);
+
+      ids.forEach(id => {
+        store.delete(id);
+      });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Kunden samt Lieferorten, Standorten, Plänen, Türen, Prüfungen und Fotos
+  // entfernen. Liefert die Zahl der gelöschten Datensätze.
+  async deleteCustomers(customerIds: string[]): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.writeTransaction([
+        'customers', 'delivery_locations', 'sites', 'plans', 'plan_files', 'doors', 'inspections', 'photos'
+      ]);
+      let deleted = 0;
+
+      // Alle Zeilen zu einem Schlüssel löschen, abhängige Zeilen über `cascade`
+      const deleteAll = <T>(source: IDBObjectStore | IDBIndex, key: string, cascade?: (record: T) => void) => {
+        source.openCursor(key).onsuccess = (event) => {
+          const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor) return;
+
+          cascade?.(cursor.value as T);
+          cursor.delete();
+          deleted++;
+          cursor.continue();
+        };
+      };
+
+      customerIds.forEach(customerId => {
+        deleteAll(transaction.objectStore('customers'), customerId);
+        deleteAll(transaction.objectStore('delivery_locations').index('customer_id'), customerId);
+        deleteAll<Site>(transaction.objectStore('sites').index('customer_id'), customerId, site => {
+          deleteAll<Plan>(transaction.objectStore('plans').index('site_id'), site.id, plan => {
+            deleteAll(transaction.objectStore('plan_files'), plan.id);
+          });
+        });
+        deleteAll<Door>(transaction.objectStore('doors').index('customer_id'), customerId, door => {
+          deleteAll<Inspection>(transaction.objectStore('inspections').index('door_id'), door.id, inspection => {
+            deleteAll(transaction.objectStore('photos').index('inspection_id'), inspection.id);
+          });
+        });
+      });
+
+      transaction.oncomplete = () => resolve(deleted);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
   async getStorageStats(): Promise<{
     customers: number;
+    sites: number;
     doors: number;
+    plans: number;
     inspections: number;
     photos: number;
     pendingUploads: number;
   }> {
     if (!this.db) throw new Error('Database not initialized');
 
-    const [customers, doors, inspections, pendingInspections, pendingPhotos] = await Promise.all([
+    const [customers, sites, doors, plans, inspections, pendingPhotos, outboxCount] = await Promise.all([
       this.getAllCustomers(),
+      this.getAllSites(),
       this.getAllDoors(),
+      this.getAllPlans(),
       this.getAllInspections(),
-      this.getPendingInspections(),
-      this.getPendingPhotos()
+      this.getPendingPhotos(),
+      this.getOutboxCount()
     ]);
 
     return {
       customers: customers.length,
+      sites: sites.length,
       doors: doors.length,
+      plans: plans.length,
       inspections: inspections.length,
       photos: pendingPhotos.length, // Nur offline-photos zählen
-      pendingUploads: pendingInspections.length + pendingPhotos.length
+      pendingUploads: outboxCount
     };
   }
 }
 
 // Export singleton instance
 export const offlineDB = new OfflineDB();
-export type { Customer, Door, Inspection, OfflinePhoto, SyncStatus };
+export type {
+  Customer, DeliveryLocation, Site, Door, Plan, PlanFile,
+  InspectionStatus, ChecklistItemResult, DefectSeverity,
+  ChecklistTemplateItem, ChecklistTemplate, InspectionChecklistItem,
+  Inspection, AnnotationPoint, PhotoAnnotation, OfflinePhoto, Signature, InspectionReport,
+  Assignment, DownloadScope, OutboxOperation, OutboxItem, ConflictEntity, SyncConflict,
+  SyncPolicy, SyncLease, SyncStatus
+};
@@ -0,0 +1,710 @@
+// 🔧 InspecDoor Outbox Upload - Offline-Änderungen auf den Server übertragen
+// Nur der Upload-Pfad: Der Service Worker importiert dieses Modul für Background
+// Sync, ohne Download, Plan- und Berichtserzeugung mitzubündeln.
+
+import {
+  offlineDB,
+  type ConflictEntity,
+  type Door,
+  type Inspection,
+  type InspectionReport,
+  type OfflinePhoto,
+  type OutboxItem,
+  type SyncPolicy
+} from './offlineDB';
+import { matchesServerRecord, type ConflictRecord } from './conflicts';
+import { supabase } from './supabaseClient';
+import { replaceFileExtension } from '../photos/imageProcessing';
+import { renderAnnotatedPhoto } from '../photos/annotationRenderer';
+import { resumableUpload } from '../photos/resumableUpload';
+import { DEFAULT_SYNC_POLICY, getHoldBackReason } from './syncPolicy';
+import { withSyncLock } from './syncLock';
+
+interface SyncProgress {
+  stage: string;
+  progress: number;
+  message: string;
+  completed: boolean;
+  error?: string;
+  photoId?: string;        // Foto, dessen Bytes gerade übertragen werden
+  bytesUploaded?: number;
+  bytesTotal?: number;
+}
+
+type SyncProgressCallback = (progress: SyncProgress) => void;
+
+interface UploadOptions {
+  onlyDue?: boolean;      // Backoff respektieren (Auto-Sync)
+  inspectionId?: string;  // Nur diese Prüfung samt Fotos
+  ignorePolicy?: boolean; // Fotos auch über mobile Daten hochladen
+}
+
+// Outbox-Backoff: 30s, 1min, 2min, ... bis max. 1h; danach nur noch manuell
+const OUTBOX_BASE_DELAY_MS = 30 * 1000;
+const OUTBOX_MAX_DELAY_MS = 60 * 60 * 1000;
+const MAX_OUTBOX_ATTEMPTS = 10;
+
+const PHOTO_BUCKET = 'door-photos';
+const REPORT_BUCKET = 'reports';
+
+// Postgres: Zeile mit dieser ID existiert bereits
+const UNIQUE_VIOLATION = '23505';
+
+// Eine Prüfung kommt nie ohne ihre Fotos auf dem Server an - werden Fotos
+// zurückgehalten, wartet die zugehörige Prüfung mit
+function isHeldBackWithPhotos(item: OutboxItem, outbox: OutboxItem[]): boolean {
+  if (item.operation === 'upload_photo') return true;
+
+  return item.operation === 'upload_inspection' && outbox.some(other =>
+    other.operation === 'upload_photo' && other.inspection_id === item.inspection_id
+  );
+}
+
+function formatMegabytes(bytes: number): string {
+  return (bytes / (1024 * 1024)).toLocaleString('de-DE', { maximumFractionDigits: 1 });
+}
+
+class OutboxUploader {
+  private supabase = supabase;
+
+  // ================================================================
+  // UPLOAD - Outbox abarbeiten (Aufrufer hält die Sync-Sperre)
+  // ================================================================
+
+  async performUpload(onProgress?: SyncProgressCallback, options: UploadOptions = {}): Promise<void> {
+    if (!navigator.onLine) {
+      throw new Error('Internet-Verbindung erforderlich für Upload');
+    }
+
+    try {
+      await offlineDB.init();
+      
+      onProgress?.({
+        stage: 'init',
+        progress: 5,
+        message: 'Prüfe ausstehende Änderungen...',
+        completed: false
+      });
+
+      // Ausstehende Uploads aus der Outbox
+      const outbox = await offlineDB.getAllOutboxItems();
+      const now = new Date().toISOString();
+
+      // Fotos bei getakteter Verbindung zurückhalten - ihre Prüfungen warten mit,
+      // Prüfungen ohne ausstehende Fotos gehen sofort raus
+      const photoHoldBackReason = options.ignorePolicy
+        ? null
+        : getHoldBackReason('photos', await this.getSyncPolicy());
+      const heldBackItems = photoHoldBackReason
+        ? outbox.filter(item => isHeldBackWithPhotos(item, outbox))
+        : [];
+
+      const items = outbox.filter(item =>
+        heldBackItems.indexOf(item) === -1 &&
+        (!options.inspectionId || item.inspection_id === options.inspectionId) &&
+        (!options.onlyDue || (item.attempts < MAX_OUTBOX_ATTEMPTS && item.next_retry_at <= now))
+      );
+      const heldPhotoCount = heldBackItems.filter(item => item.operation === 'upload_photo').length;
+      const heldInspectionCount = heldBackItems.length - heldPhotoCount;
+      const heldBackSummary = `${heldPhotoCount} ${photoHoldBackReason}` +
+        (heldInspectionCount > 0 ? `, ${heldInspectionCount} Prüfungen warten auf ihre Fotos` : '');
+      const heldBackNote = heldBackItems.length > 0 ? ` ${heldBackSummary}.` : '';
+
+      if (items.length === 0) {
+        onProgress?.({
+          stage: 'complete',
+          progress: 100,
+          message: outbox.length === 0
+            ? '✅ Keine ausstehenden Änderungen vorhanden.'
+            : heldBackItems.length === outbox.length
+              ? `⏸️ ${heldBackSummary}.`
+              : `⏳ ${outbox.length} Änderungen warten auf den nächsten Versuch.`,
+          completed: true
+        });
+        return;
+      }
+
+      const totalItems = items.length;
+      let uploadedItems = 0;
+      let failedItems = 0;
+
+      // 0. Neue Türen zuerst - ihre Prüfungen verweisen auf sie
+      const doorItems = items.filter(item => item.operation === 'upload_door');
+      for (const item of doorItems) {
+        onProgress?.({
+          stage: 'doors',
+          progress: Math.round((uploadedItems / totalItems) * 80) + 10,
+          message: 'Lade Tür hoch...',
+          completed: false
+        });
+
+        const door = await offlineDB.getDoor(item.record_id);
+        if (!door) {
+          await offlineDB.deleteOutboxItems([item.id]);
+          continue;
+        }
+
+        try {
+          await this.uploadDoor(door);
+          await offlineDB.deleteOutboxItems([item.id]);
+          uploadedItems++;
+        } catch (error) {
+          console.error('Failed to upload door:', door.id, error);
+          await this.recordOutboxFailure(item, error);
+          failedItems++;
+        }
+      }
+
+      // Einträge je Prüfung gruppieren - auch für bereits hochgeladene Prüfungen
+      const itemsByInspection: { [inspectionId: string]: OutboxItem[] } = {};
+      items.filter(item => item.operation === 'upload_inspection' || item.operation === 'upload_photo').forEach(item => {
+        (itemsByInspection[item.inspection_id] = itemsByInspection[item.inspection_id] || []).push(item);
+      });
+
+      // Reihenfolge je Prüfung: erst alle Fotos, dann der Datensatz mit den
+      // Storage-Pfaden. Fehlt ein Foto, bleibt die Prüfung lokal ausstehend
+      // und erscheint auf dem Server nicht als abgeschlossen.
+      for (const inspectionId of Object.keys(itemsByInspection)) {
+        const group = itemsByInspection[inspectionId];
+        const photoItems = group.filter(item => item.operation === 'upload_photo');
+        const inspectionItem = group.find(item => item.operation === 'upload_inspection');
+
+        // Auch nicht fällige Foto-Einträge derselben Prüfung blockieren sie
+        const blockedByOtherPhotos = outbox.some(item =>
+          item.inspection_id === inspectionId &&
+          item.operation === 'upload_photo' &&
+          photoItems.indexOf(item) === -1
+        );
+        let allPhotosUploaded = !blockedByOtherPhotos;
+
+        // 1. Upload Photos
+        for (const item of photoItems) {
+          onProgress?.({
+            stage: 'photos',
+            progress: Math.round((uploadedItems / totalItems) * 80) + 10,
+            message: `Lade Foto hoch...`,
+            completed: false
+          });
+
+          const photo = await offlineDB.getPhoto(item.record_id);
+          if (!photo) {
+            // Foto wurde lokal gelöscht - nichts mehr zu tun
+            await offlineDB.deleteOutboxItems([item.id]);
+            continue;
+          }
+
+          try {
+            await this.uploadPhoto(photo, (bytesUploaded, bytesTotal) => {
+              const fraction = bytesTotal > 0 ? bytesUploaded / bytesTotal : 1;
+              onProgress?.({
+                stage: 'photos',
+                progress: Math.round(((uploadedItems + fraction) / totalItems) * 80) + 10,
+                message: `Lade Foto hoch... ${formatMegabytes(bytesUploaded)} von ${formatMegabytes(bytesTotal)} MB`,
+                completed: false,
+                photoId: photo.id,
+                bytesUploaded,
+                bytesTotal
+              });
+            });
+          } catch (error) {
+            console.error('Failed to upload photo:', photo.id, error);
+            await this.recordOutboxFailure(item, error);
+            allPhotosUploaded = false;
+            failedItems++;
+            // Continue with other photos
+          }
+        }
+
+        if (!allPhotosUploaded) {
+          continue;
+        }
+
+        // 2. Upload Inspection inkl. Foto-Verknüpfung
+        const inspection = inspectionItem ? await offlineDB.getInspection(inspectionItem.record_id) : null;
+
+        onProgress?.({
+          stage: 'inspections',
+          progress: Math.round((uploadedItems / totalItems) * 80) + 10,
+          message: inspection
+            ? `Lade Prüfung für Tür ${inspection.door_id} hoch...`
+            : 'Verknüpfe Fotos mit Prüfung...',
+          completed: false
+        });
+
+        try {
+          const photoPaths = await this.getUploadedPhotoPaths(inspectionId);
+
+          if (inspection) {
+            await this.uploadInspection({ ...inspection, photos: photoPaths });
+          } else if (photoItems.length > 0) {
+            await this.linkPhotosToInspection(inspectionId, photoPaths);
+          }
+
+          // Erst jetzt ist die ganze Gruppe auf dem Server vollständig
+          await offlineDB.deleteOutboxItems(group.map(item => item.id));
+          uploadedItems += group.length;
+        } catch (error) {
+          console.error('Failed to upload inspection:', inspectionId, error);
+          await this.recordOutboxFailure(inspectionItem || photoItems[0], error);
+          failedItems++;
+          // Continue with other inspections
+        }
+      }
+
+      // 3. Prüfberichte - unabhängig von den Prüfungen, liegen lokal ohnehin vollständig vor
+      const reportItems = items.filter(item => item.operation === 'upload_report');
+      for (const item of reportItems) {
+        onProgress?.({
+          stage: 'reports',
+          progress: Math.round((uploadedItems / totalItems) * 80) + 10,
+          message: 'Lade Prüfbericht hoch...',
+          completed: false
+        });
+
+        const report = await offlineDB.getReport(item.record_id);
+        if (!report) {
+          await offlineDB.deleteOutboxItems([item.id]);
+          continue;
+        }
+
+        try {
+          await this.uploadReport(report);
+          await offlineDB.deleteOutboxItems([item.id]);
+          uploadedItems++;
+        } catch (error) {
+          console.error('Failed to upload report:', report.id, error);
+          await this.recordOutboxFailure(item, error);
+          failedItems++;
+        }
+      }
+
+      // 4. Update Sync Status - Zähler immer aus der Outbox, nie pauschal 0
+      await offlineDB.updateSyncStatus({
+        last_sync: new Date().toISOString(),
+        pending_uploads: await offlineDB.getOutboxCount()
+      });
+
+      onProgress?.({
+        stage: 'complete',
+        progress: 100,
+        message: (failedItems === 0
+          ? `✅ Upload abgeschlossen! ${uploadedItems} von ${totalItems} Elementen hochgeladen.`
+          : `⚠️ ${uploadedItems} von ${totalItems} Elementen hochgeladen, ${failedItems} fehlgeschlagen.`) + heldBackNote,
+        completed: true
+      });
+
+    } catch (error) {
+      onProgress?.({
+        stage: 'error',
+        progress: 0,
+        message: 'Upload fehlgeschlagen',
+        completed: false,
+        error: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+      throw error;
+    }
+  }
+
+  // Exponentielles Backoff bis zum nächsten Versuch
+  private async recordOutboxFailure(item: OutboxItem, error: unknown): Promise<void> {
+    const attempts = item.attempts + 1;
+    const delay = Math.min(OUTBOX_BASE_DELAY_MS * Math.pow(2, attempts - 1), OUTBOX_MAX_DELAY_MS);
+
+    await offlineDB.storeOutboxItem({
+      ...item,
+      attempts,
+      last_error: error instanceof Error ? error.message : 'Unbekannter Fehler',
+      last_attempt_at: new Date().toISOString(),
+      next_retry_at: new Date(Date.now() + delay).toISOString()
+    });
+  }
+
+  // ================================================================
+  // EINZELNE DATENSÄTZE
+  // ================================================================
+
+  private async uploadPhoto(
+    photo: OfflinePhoto,
+    onBytes?: (bytesUploaded: number, bytesTotal: number) => void
+  ): Promise<void> {
+    const storagePath = `inspections/${photo.inspection_id}/${photo.filename}`;
+    const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+    // Resumable Upload (TUS) - Stand wird nach jedem Block am Foto gespeichert
+    try {
+      await resumableUpload(photo.blob, {
+        endpoint: `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/upload/resumable`,
+        headers: {
+          authorization: `Bearer ${anonKey}`,
+          apikey: anonKey
+        },
+        bucket: PHOTO_BUCKET,
+        objectName: storagePath,
+        contentType: photo.mime_type || photo.blob.type || 'image/jpeg',
+        cacheControl: '3600',
+        upsert: true,
+        uploadUrl: photo.upload_url,
+        onStateChange: async ({ uploadUrl, offset }) => {
+          const current = await offlineDB.getPhoto(photo.id);
+          if (current) {
+            await offlineDB.storePhoto({ ...current, upload_url: uploadUrl, upload_offset: offset });
+          }
+        },
+        onProgress: onBytes
+      });
+    } catch (uploadError) {
+      console.error('Photo upload error:', uploadError);
+      throw new Error(`Foto Upload fehlgeschlagen: ${uploadError instanceof Error ? uploadError.message : uploadError}`);
+    }
+
+    // Markierte Fotos zusätzlich als flaches Bild für Berichte hochladen
+    let annotatedStoragePath: string | undefined;
+    if (photo.annotations && photo.annotations.length > 0) {
+      const annotatedBlob = await renderAnnotatedPhoto(photo);
+      const annotatedFilename = replaceFileExtension(`annotated_${photo.filename}`, 'image/jpeg');
+      annotatedStoragePath = `inspections/${photo.inspection_id}/${annotatedFilename}`;
+
+      const { error: annotatedError } = await this.supabase.storage
+        .from(PHOTO_BUCKET)
+        .upload(annotatedStoragePath, annotatedBlob, {
+          cacheControl: '3600',
+          upsert: true
+        });
+
+      if (annotatedError) {
+        console.error('Annotated photo upload error:', annotatedError);
+        throw new Error(`Markiertes Foto Upload fehlgeschlagen: ${annotatedError.message}`);
+      }
+    }
+
+    // Mark as synced - Upload-Stand wird nicht mehr gebraucht
+    const current = await offlineDB.getPhoto(photo.id) || photo;
+    await offlineDB.storePhoto({
+      ...current,
+      storage_path: storagePath,
+      annotated_storage_path: annotatedStoragePath,
+      upload_url: undefined,
+      upload_offset: undefined,
+      synced: true
+    });
+  }
+
+  private async getUploadedPhotoPaths(inspectionId: string): Promise<string[]> {
+    const photos = await offlineDB.getPhotosByInspection(inspectionId);
+    const paths: string[] = [];
+
+    photos.forEach(photo => {
+      if (photo.storage_path) paths.push(photo.storage_path);
+      if (photo.annotated_storage_path) paths.push(photo.annotated_storage_path);
+    });
+
+    return paths;
+  }
+
+  // Optimistic Concurrency ohne Lücke zwischen Prüfen und Schreiben: Bekannte
+  // Datensätze nur per bedingtem UPDATE auf den zuletzt gesehenen Server-Stand,
+  // neue per INSERT. Greift beides nicht, entscheidet der aktuelle Server-Stand -
+  // entweder kam unsere letzte Übertragung an und nur die Antwort ging verloren,
+  // oder das Büro hat geändert: dann Konflikt speichern und null zurückgeben.
+  private async writeWithConcurrencyCheck(
+    entity: ConflictEntity,
+    local: ConflictRecord,
+    values: { [field: string]: unknown }
+  ): Promise<string | null> {
+    if (local.server_updated_at) {
+      const { data: updated, error } = await this.supabase
+        .from(entity)
+        .update(values)
+        .eq('id', local.id)
+        .eq('updated_at', local.server_updated_at)
+        .select('updated_at')
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`${local.id} Upload fehlgeschlagen: ${error.message}`);
+      }
+      if (updated) return updated.updated_at;
+    } else {
+      const inserted = await this.insertRecord(entity, local.id, values);
+      if (inserted) return inserted;
+    }
+
+    const { data: serverRecord, error } = await this.supabase
+      .from(entity)
+      .select('*')
+      .eq('id', local.id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Server-Stand für ${local.id} nicht abrufbar: ${error.message}`);
+    }
+
+    // Im Büro gelöscht - wie bisher neu anlegen
+    if (!serverRecord) {
+      const inserted = await this.insertRecord(entity, local.id, values);
+      if (inserted) return inserted;
+      throw new Error(`${local.id} konnte nicht neu angelegt werden`);
+    }
+
+    if (matchesServerRecord(values, serverRecord)) {
+      return serverRecord.updated_at;
+    }
+
+    await offlineDB.storeConflict({
+      id: `${entity}:${local.id}`,
+      entity,
+      record_id: local.id,
+      local_record: local,
+      server_record: {
+        ...serverRecord,
+        synced: true,
+        offline_created: false,
+        server_updated_at: serverRecord.updated_at
+      },
+      detected_at: new Date().toISOString()
+    });
+
+    return null;
+  }
+
+  // null, wenn die Zeile schon existiert (Unique-Verletzung)
+  private async insertRecord(
+    entity: ConflictEntity,
+    id: string,
+    values: { [field: string]: unknown }
+  ): Promise<string | null> {
+    const { data: inserted, error } = await this.supabase
+      .from(entity)
+      .insert({ id, ...values })
+      .select('updated_at')
+      .single();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) return null;
+      throw new Error(`${id} Upload fehlgeschlagen: ${error.message}`);
+    }
+
+    return inserted.updated_at;
+  }
+
+  private async uploadInspection(inspection: Inspection): Promise<void> {
+    // Unterschrift vor dem Datensatz hochladen, damit der Pfad mitgeht
+    if (inspection.signature_id && !inspection.signature_path) {
+      inspection = { ...inspection, signature_path: await this.uploadSignature(inspection.signature_id) };
+    }
+
+    const updatedAt = await this.writeWithConcurrencyCheck('inspections', inspection, {
+      door_id: inspection.door_id,
+      inspector_name: inspection.inspector_name,
+      inspection_date: inspection.inspection_date,
+      status: inspection.status,
+      notes: inspection.notes,
+      checklist_template_id: inspection.checklist_template_id,
+      checklist: inspection.checklist,
+      photos: inspection.photos,
+      signed_by: inspection.signed_by,
+      signed_at: inspection.signed_at,
+      signature_path: inspection.signature_path,
+      created_at: inspection.created_at,
+      updated_at: new Date().toISOString()
+    });
+
+    if (!updatedAt) {
+      throw new Error(`Konflikt: Prüfung ${inspection.id} wurde zwischenzeitlich im Büro geändert`);
+    }
+
+    // Mark as synced
+    await offlineDB.storeInspection({
+      ...inspection,
+      updated_at: updatedAt,
+      server_updated_at: updatedAt,
+      synced: true
+    });
+  }
+
+  // Eine Unterschrift gilt für alle Prüfungen des Besuchs - nur einmal hochladen
+  private async uploadSignature(signatureId: string): Promise<string> {
+    const signature = await offlineDB.getSignature(signatureId);
+    if (!signature) {
+      throw new Error(`Unterschrift ${signatureId} nicht gefunden`);
+    }
+    if (signature.storage_path) return signature.storage_path;
+
+    const storagePath = `signatures/${signature.id}.png`;
+    const { error } = await this.supabase.storage
+      .from(PHOTO_BUCKET)
+      .upload(storagePath, signature.blob, {
+        contentType: signature.mime_type,
+        cacheControl: '3600',
+        upsert: true
+      });
+
+    if (error) {
+      console.error('Signature upload error:', error);
+      throw new Error(`Unterschrift Upload fehlgeschlagen: ${error.message}`);
+    }
+
+    await offlineDB.storeSignature({ ...signature, storage_path: storagePath, synced: true });
+    return storagePath;
+  }
+
+  private async uploadReport(report: InspectionReport): Promise<void> {
+    const storagePath = `${report.customer_id}/${report.id}/${report.file_name}`;
+    const { error } = await this.supabase.storage
+      .from(REPORT_BUCKET)
+      .upload(storagePath, report.blob, {
+        contentType: 'application/pdf',
+        cacheControl: '3600',
+        upsert: true
+      });
+
+    if (error) {
+      console.error('Report upload error:', error);
+      throw new Error(`Prüfbericht Upload fehlgeschlagen: ${error.message}`);
+    }
+
+    await offlineDB.storeReport({ ...report, storage_path: storagePath, synced: true });
+  }
+
+  private async uploadDoor(door: Door): Promise<void> {
+    const updatedAt = await this.writeWithConcurrencyCheck('doors', door, {
+      customer_id: door.customer_id,
+      // null statt undefined - sonst bleiben im Formular geleerte Felder auf dem Server stehen
+      site_id: door.site_id || null,
+      location: door.location,
+      door_number: door.door_number,
+      door_type: door.door_type || null,
+      manufacturer: door.manufacturer || null,
+      model: door.model || null,
+      year: door.year || null,
+      notes: door.notes || null,
+      plan_id: door.plan_id || null,
+      plan_x: door.plan_x,
+      plan_y: door.plan_y,
+      created_at: door.created_at,
+      updated_at: new Date().toISOString()
+    });
+
+    if (!updatedAt) {
+      throw new Error(`Konflikt: Tür ${door.door_number || door.id} wurde zwischenzeitlich im Büro geändert`);
+    }
+
+    await offlineDB.storeDoor({
+      ...door,
+      updated_at: updatedAt,
+      server_updated_at: updatedAt,
+      synced: true,
+      awaiting_confirmation: true
+    });
+  }
+
+  // Nachträglich hochgeladene Fotos einer bereits synchronisierten Prüfung.
+  // Mit den Fotos des Servers zusammenführen - dort können weitere hängen -
+  // und nur auf den zuletzt gesehenen Server-Stand schreiben.
+  private async linkPhotosToInspection(inspectionId: string, photoPaths: string[]): Promise<void> {
+    const inspection = await offlineDB.getInspection(inspectionId);
+    if (!inspection || !inspection.server_updated_at) {
+      throw new Error(`Prüfung ${inspectionId} ist lokal nicht als hochgeladen bekannt`);
+    }
+
+    const { data: serverRecord, error } = await this.supabase
+      .from('inspections')
+      .select('photos')
+      .eq('id', inspectionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Inspection photo link error:', error);
+      throw new Error(`Fotos für Prüfung ${inspectionId} konnten nicht verknüpft werden: ${error.message}`);
+    }
+
+    const photos: string[] = (serverRecord?.photos || []).slice();
+    photoPaths.forEach(path => {
+      if (photos.indexOf(path) === -1) photos.push(path);
+    });
+
+    const updatedAt = await this.writeWithConcurrencyCheck('inspections', inspection, {
+      photos,
+      updated_at: new Date().toISOString()
+    });
+
+    if (!updatedAt) {
+      throw new Error(`Konflikt: Prüfung ${inspectionId} wurde zwischenzeitlich im Büro geändert`);
+    }
+
+    await offlineDB.storeInspection({
+      ...inspection,
+      photos,
+      updated_at: updatedAt,
+      server_updated_at: updatedAt
+    });
+  }
+
+  // ================================================================
+  // AUTO-SYNC - Automatische Synchronisation bei Online-Verbindung
+  // ================================================================
+
+  async autoSyncIfOnline(): Promise<boolean> {
+    if (!navigator.onLine) {
+      return false;
+    }
+
+    try {
+      await offlineDB.init();
+
+      // Check for due uploads (Backoff und Sync-Richtlinie respektieren)
+      const dueItems = await this.getDueOutboxItems();
+      if (dueItems.length === 0) {
+        return false;
+      }
+
+      // Hält ein anderer Tab oder der Service Worker die Sperre, lädt der hoch
+      const lock = await withSyncLock('auto', () => this.performUpload(undefined, { onlyDue: true }));
+      return lock.acquired;
+    } catch (error) {
+      console.error('Auto-sync failed:', error);
+      return false;
+    }
+  }
+
+  // Fällige Einträge ohne die per Richtlinie zurückgehaltenen Fotos und ihre Prüfungen
+  private async getDueOutboxItems(): Promise<OutboxItem[]> {
+    const now = new Date().toISOString();
+    const holdPhotos = getHoldBackReason('photos', await this.getSyncPolicy()) !== null;
+
+    const outbox = await offlineDB.getAllOutboxItems();
+
+    return outbox.filter(item =>
+      item.attempts < MAX_OUTBOX_ATTEMPTS &&
+      item.next_retry_at <= now &&
+      !(holdPhotos && isHeldBackWithPhotos(item, outbox))
+    );
+  }
+
+  // Aufruf aus dem Service Worker (Background/Periodic Sync). Wirft, solange
+  // noch fällige Einträge übrig sind, damit der Browser es später erneut versucht.
+  async drainOutboxInBackground(): Promise<void> {
+    await offlineDB.init();
+    await this.autoSyncIfOnline();
+
+    const remaining = await this.getDueOutboxItems();
+
+    if (remaining.length > 0) {
+      throw new Error(`${remaining.length} Uploads noch ausstehend`);
+    }
+  }
+
+  // ================================================================
+  // SYNC-RICHTLINIE
+  // ================================================================
+
+  async getSyncPolicy(): Promise<SyncPolicy> {
+    await offlineDB.init();
+    const syncStatus = await offlineDB.getSyncStatus();
+    return { ...DEFAULT_SYNC_POLICY, ...syncStatus?.sync_policy };
+  }
+}
+
+export const outboxUploader = new OutboxUploader();
+export type { SyncProgress, SyncProgressCallback, UploadOptions };
+export { MAX_OUTBOX_ATTEMPTS };
@@ -0,0 +1,8 @@
+// 🔧 InspecDoor Supabase Client - eine Instanz für App und Service Worker
+
+import { createClient } from '@supabase/supabase-js';
+
+export const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
@@ -0,0 +1,160 @@
+// 🔧 InspecDoor Sync Lock - Immer nur eine Synchronisation gleichzeitig
+// Web Locks API (Tabs + Service Worker); ohne sie eine Lease mit Heartbeat.
+// Ob eine Synchronisation läuft, ergibt sich allein aus der Sperre; Beginn und
+// Ende gehen zusätzlich per BroadcastChannel an alle offenen Tabs.
+
+import { offlineDB } from './offlineDB';
+import { generateUUID } from './uuid';
+
+const SYNC_LOCK_NAME = 'inspecdoor-sync';
+const SYNC_CHANNEL_NAME = 'inspecdoor-sync-state';
+
+// Lease-Fallback: verfällt ohne Heartbeat nach 30s (Tab abgestürzt/geschlossen)
+const LEASE_DURATION_MS = 30 * 1000;
+const LEASE_HEARTBEAT_MS = 10 * 1000;
+
+type SyncActivity = 'download' | 'upload' | 'auto';
+
+interface SyncStateMessage {
+  type: 'sync-state';
+  in_progress: boolean;
+  activity: SyncActivity;
+}
+
+type SyncLockResult<T> = { acquired: true; result: T } | { acquired: false };
+
+// Eindeutig je Tab bzw. Service Worker
+const HOLDER_ID = generateUUID();
+
+function hasWebLocks(): boolean {
+  return typeof navigator !== 'undefined' && 'locks' in navigator && !!navigator.locks;
+}
+
+// ================================================================
+// BROADCAST
+// ================================================================
+
+function broadcastSyncState(message: SyncStateMessage): void {
+  if (typeof BroadcastChannel === 'undefined') return;
+
+  const channel = new BroadcastChannel(SYNC_CHANNEL_NAME);
+  channel.postMessage(message);
+  channel.close();
+}
+
+export function subscribeToSyncState(listener: (message: SyncStateMessage) => void): () => void {
+  if (typeof BroadcastChannel === 'undefined') return () => {};
+
+  const channel = new BroadcastChannel(SYNC_CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<SyncStateMessage>) => {
+    if (event.data?.type === 'sync-state') listener(event.data);
+  };
+
+  return () => channel.close();
+}
+
+// ================================================================
+// SPERRE
+// ================================================================
+
+// Beginn und Ende an alle Tabs melden. Das Ende erst nach der Freigabe - wer
+// daraufhin isSyncLockHeld() fragt, findet die Sperre schon frei vor.
+async function runAnnounced<T>(
+  activity: SyncActivity,
+  hold: (task: () => Promise<T>) => Promise<SyncLockResult<T>>,
+  task: () => Promise<T>
+): Promise<SyncLockResult<T>> {
+  let announced = false;
+
+  try {
+    return await hold(() => {
+      announced = true;
+      broadcastSyncState({ type: 'sync-state', in_progress: true, activity });
+      return task();
+    });
+  } finally {
+    if (announced) {
+      broadcastSyncState({ type: 'sync-state', in_progress: false, activity });
+    }
+  }
+}
+
+async function runWithLease<T>(activity: SyncActivity, task: () => Promise<T>): Promise<SyncLockResult<T>> {
+  const claim = () => offlineDB.claimSyncLease({
+    holder_id: HOLDER_ID,
+    activity,
+    expires_at: new Date(Date.now() + LEASE_DURATION_MS).toISOString()
+  });
+
+  if (!await claim()) {
+    return { acquired: false };
+  }
+
+  const heartbeat = setInterval(() => {
+    claim().catch(error => console.error('Sync lease heartbeat failed:', error));
+  }, LEASE_HEARTBEAT_MS);
+
+  try {
+    return { acquired: true, result: await task() };
+  } finally {
+    clearInterval(heartbeat);
+    await offlineDB.releaseSyncLease(HOLDER_ID);
+  }
+}
+
+function runWithWebLock<T>(task: () => Promise<T>): Promise<SyncLockResult<T>> {
+  // Der Browser gibt Web Locks beim Absturz des Tabs automatisch frei
+  return navigator.locks.request(SYNC_LOCK_NAME, { ifAvailable: true }, async (lock) => {
+    if (!lock) {
+      return { acquired: false } as SyncLockResult<T>;
+    }
+    return { acquired: true, result: await task() } as SyncLockResult<T>;
+  });
+}
+
+// Führt task exklusiv aus; läuft schon eine Synchronisation (anderer Tab,
+// Service Worker), wird nicht gewartet, sondern { acquired: false } geliefert.
+export async function withSyncLock<T>(activity: SyncActivity, task: () => Promise<T>): Promise<SyncLockResult<T>> {
+  await offlineDB.init();
+
+  if (!hasWebLocks()) {
+    return runAnnounced(activity, (announcedTask) => runWithLease(activity, announcedTask), task);
+  }
+
+  return runAnnounced(activity, runWithWebLock, task);
+}
+
+// Läuft gerade irgendwo eine Synchronisation? Maßgeblich ist die Sperre selbst,
+// nicht ein gespeichertes Flag - das bliebe nach einem Absturz stehen.
+export async function isSyncLockHeld(): Promise<boolean> {
+  await offlineDB.init();
+
+  if (hasWebLocks()) {
+    const snapshot = await navigator.locks.query();
+    return (snapshot.held || []).some(lock => lock.name === SYNC_LOCK_NAME);
+  }
+
+  const syncStatus = await offlineDB.getSyncStatus();
+  return !!syncStatus?.sync_lease && syncStatus.sync_lease.expires_at > new Date().toISOString();
+}
+
+// Beim App-Start: abgelaufene Lease und das alte sync_in_progress-Flag aus
+// abgestürzten Tabs aufräumen, sofern gerade niemand die Sperre hält
+export async function recoverStaleSyncLock(): Promise<boolean> {
+  await offlineDB.init();
+
+  const syncStatus = await offlineDB.getSyncStatus();
+  if (!syncStatus?.sync_in_progress && !syncStatus?.sync_lease) {
+    return false;
+  }
+
+  if (await isSyncLockHeld()) {
+    return false;
+  }
+
+  await offlineDB.updateSyncStatus({ sync_in_progress: false, sync_lease: undefined });
+  broadcastSyncState({ type: 'sync-state', in_progress: false, activity: 'auto' });
+  return true;
+}
+
+export type { SyncActivity, SyncStateMessage, SyncLockResult };
@@ -1,34 +1,116 @@
 // 🔧 InspecDoor Sync Manager - Morning Download & Evening Upload
 // Basierend auf Real-World Field Worker App Patterns
 
-import { createClient } from '@supabase/supabase-js';
-import { offlineDB, type Customer, type Door, type Inspection, type OfflinePhoto } from './offlineDB';
-
-interface SyncProgress {
-  stage: string;
-  progress: number;
-  message: string;
-  completed: boolean;
-  error?: string;
+import { format } from 'date-fns';
+import {
+  offlineDB,
+  type Assignment,
+  type ChecklistTemplate,
+  type Customer,
+  type DeliveryLocation,
+  type DownloadScope,
+  type Door,
+  type Plan,
+  type Site,
+  type SyncConflict,
+  type Inspection,
+  type InspectionChecklistItem,
+  type InspectionReport,
+  type InspectionStatus,
+  type OfflinePhoto,
+  type OutboxItem,
+  type OutboxOperation,
+  type PhotoAnnotation,
+  type Signature,
+  type SyncPolicy
+} from './offlineDB';
+import { DEFAULT_DOOR_TYPE, deriveInspectionStatus } from './checklists';
+import { generateUUID } from './uuid';
+import { getVisitInspections, isInspectionSigned, type Visit } from './visits';
+import type { ConflictRecord, ConflictResolution } from './conflicts';
+import { processPhoto, replaceFileExtension, type PhotoProcessingOptions } from '../photos/imageProcessing';
+import { requestOutboxSync } from '../pwa/backgroundSync';
+import { preparePlanFile } from '../plans/planFiles';
+import { buildInspectionReportPdf, getReportFileName, type ReportDoorSection } from '../reports/reportPdf';
+import { getHoldBackReason } from './syncPolicy';
+import { isSyncLockHeld, withSyncLock } from './syncLock';
+import { supabase } from './supabaseClient';
+import {
+  outboxUploader,
+  MAX_OUTBOX_ATTEMPTS,
+  type SyncProgress,
+  type SyncProgressCallback,
+  type UploadOptions
+} from './outboxUpload';
+
+// Tabellen, die beim Morning Download gespiegelt werden
+const SYNCED_TABLES = [
+  'customers', 'delivery_locations', 'sites', 'doors',
+  'inspections', 'checklist_templates', 'plans'
+] as const;
+type SyncedTable = typeof SYNCED_TABLES[number];
+
+const DEFAULT_INSPECTION_HISTORY_DAYS = Number(process.env.NEXT_PUBLIC_INSPECTION_HISTORY_DAYS) || 30;
+
+// updated_at stammt vom Beginn der Transaktion. Committet sie erst nach dem
+// letzten Download, liegt ihr Zeitstempel vor dem Stand - deshalb den Stand
+// mit Überlappung abfragen und bereits bekannte Zeilen aussortieren.
+const WATERMARK_OVERLAP_MS = 5 * 60 * 1000;
+
+// Längere in-Listen (z. B. alle Türen im Umfang) sprengen die URL - in Teilen abfragen
+const IN_FILTER_BATCH_SIZE = 100;
+
+interface DownloadOptions {
+  fullRefresh?: boolean;           // Alle Zeilen statt nur Änderungen laden
+  inspectionHistoryDays?: number;  // Prüfhistorie der letzten N Tage
+  scope?: DownloadScope;           // Nur Aufträge/Kunden statt ganzer Firma
+  ignorePolicy?: boolean;          // Pläne auch über mobile Daten laden
 }
 
-type SyncProgressCallback = (progress: SyncProgress) => void;
+// Stammdaten einer Tür, wie sie im Formular erfasst werden
+interface DoorInput {
+  customer_id: string;
+  site_id?: string;
+  location: string;
+  door_number: string;
+  door_type?: string;
+  manufacturer?: string;
+  model?: string;
+  year?: string;
+  notes?: string;
+}
+
+const PLAN_BUCKET = 'plans';
+
+const SYNC_BUSY_MESSAGE = 'Es läuft bereits eine Synchronisation (anderer Tab oder im Hintergrund)';
+const SIGNED_LOCK_MESSAGE = 'Unterschriebene Prüfungen sind gesperrt und können nicht mehr bearbeitet werden';
+const SIGNED_DISCARD_MESSAGE = 'Uploads unterschriebener Prüfungen können nicht verworfen werden - bitte erneut versuchen';
+
+function withOverlap(watermark: string): string {
+  return new Date(new Date(watermark).getTime() - WATERMARK_OVERLAP_MS).toISOString();
+}
+
+interface TableFilter {
+  column: string;
+  operator: 'eq' | 'gte' | 'lte' | 'in';
+  value: unknown;
+}
 
 class SyncManager {
-  private supabase;
-  
-  constructor() {
-    this.supabase = createClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-    );
-  }
+  private supabase = supabase;
 
   // ================================================================
   // MORNING DOWNLOAD - Alle Daten laden
   // ================================================================
 
-  async downloadForToday(onProgress?: SyncProgressCallback): Promise<void> {
+  async downloadForToday(onProgress?: SyncProgressCallback, options: DownloadOptions = {}): Promise<void> {
+    const lock = await withSyncLock('download', () => this.performDownload(onProgress, options));
+    if (!lock.acquired) {
+      throw new Error(SYNC_BUSY_MESSAGE);
+    }
+  }
+
+  private async performDownload(onProgress?: SyncProgressCallback, options: DownloadOptions = {}): Promise<void> {
     if (!navigator.onLine) {
       throw new Error('Internet-Verbindung erforderlich für Download');
     }
@@ -44,126 +126,236 @@ class SyncManager {
         completed: false
       });
 
+      // 0. Tagesplan: Umfang des Downloads bestimmen
+      onProgress?.({
+        stage: 'assignments',
+        progress: 10,
+        message: 'Lade Tagesplan...',
+        completed: false
+      });
+
+      const scope = options.scope || { mode: 'full' };
+      const assignments = await this.fetchAssignments(scope);
+      await offlineDB.replaceAssignments(assignments);
+
+      // null = keine Einschränkung (ganze Firma)
+      const customerIds = scope.mode === 'full'
+        ? null
+        : scope.mode === 'customers'
+          ? scope.customer_ids
+          : assignments
+              .map(assignment => assignment.customer_id)
+              .filter((id, index, ids) => ids.indexOf(id) === index);
+
+      // Delta-Sync: pro Tabelle nur Zeilen nach dem letzten bekannten Stand.
+      // Kommen Kunden hinzu, die bisher nicht offline waren, fehlen deren
+      // unveränderte Zeilen - dann einmal komplett laden.
+      const syncStatus = await offlineDB.getSyncStatus();
+      const previousWatermarks = syncStatus?.table_watermarks || {};
+      const previousScope = syncStatus?.download_scope;
+      const previousCustomerIds = syncStatus?.scope_customer_ids || [];
+      const scopeExpanded = previousScope !== undefined && previousScope.mode !== 'full' && (
+        customerIds === null || customerIds.some(id => previousCustomerIds.indexOf(id) === -1)
+      );
+
+      const since: { [table: string]: string } = options.fullRefresh || scopeExpanded ? {} : { ...previousWatermarks };
+      const watermarks: { [table: string]: string } = { ...previousWatermarks };
+      const customerFilter = (column: string): TableFilter[] =>
+        customerIds ? [{ column, operator: 'in', value: customerIds }] : [];
+
       // 1. Download Customers
       onProgress?.({
         stage: 'customers',
-        progress: 20,
+        progress: 15,
         message: 'Lade Kunden...',
         completed: false
       });
 
-      const { data: customers, error: customersError } = await this.supabase
-        .from('customers')
-        .select('*')
-        .order('company_name');
-
-      if (customersError) throw new Error(`Kunden-Download fehlgeschlagen: ${customersError.message}`);
-      
-      await offlineDB.storeCustomers(customers || []);
+      const customers = await this.fetchChanges<Customer>(
+        'customers', 'Kunden', 'company_name', since, watermarks, customerFilter('id')
+      );
+      await offlineDB.storeCustomers(customers);
 
       // 2. Download Delivery Locations (Lieferorte)
       onProgress?.({
         stage: 'delivery_locations',
-        progress: 30,
+        progress: 25,
         message: 'Lade Lieferorte...',
         completed: false
       });
 
-      const { data: deliveryLocations, error: deliveryLocationsError } = await this.supabase
-        .from('delivery_locations')
-        .select('*')
-        .order('location_name');
-
-      if (deliveryLocationsError) throw new Error(`Lieferorte-Download fehlgeschlagen: ${deliveryLocationsError.message}`);
-      
-      // TODO: Store delivery_locations when offlineDB is extended
-      console.log(`✅ ${deliveryLocations?.length || 0} Lieferorte geladen (noch nicht gespeichert)`);
+      const deliveryLocations = await this.fetchChanges<DeliveryLocation>(
+        'delivery_locations', 'Lieferorte', 'location_name', since, watermarks, customerFilter('customer_id')
+      );
+      await offlineDB.storeDeliveryLocations(deliveryLocations);
 
       // 3. Download Sites (Standorte)
       onProgress?.({
         stage: 'sites',
-        progress: 40,
+        progress: 35,
         message: 'Lade Standorte...',
         completed: false
       });
 
-      const { data: sites, error: sitesError } = await this.supabase
-        .from('sites')
-        .select('*')
-        .order('site_name');
+      const sites = await this.fetchChanges<Site>(
+        'sites', 'Standorte', 'site_name', since, watermarks, customerFilter('customer_id')
+      );
+      await offlineDB.storeSites(sites);
 
-      if (sitesError) throw new Error(`Standorte-Download fehlgeschlagen: ${sitesError.message}`);
-      
-      // TODO: Store sites when offlineDB is extended
-      console.log(`✅ ${sites?.length || 0} Standorte geladen (noch nicht gespeichert)`);
-      // 2. Download Doors
+      // 4. Download Doors
       onProgress?.({
         stage: 'doors',
-        progress: 60,
+        progress: 50,
         message: 'Lade Türen...',
         completed: false
       });
 
-      const { data: doors, error: doorsError } = await this.supabase
-        .from('doors')
-        .select('*')
-        .order('door_id');
-
-      if (doorsError) throw new Error(`Türen-Download fehlgeschlagen: ${doorsError.message}`);
+      const doors = await this.fetchChanges<Door>(
+        'doors', 'Türen', 'door_id', since, watermarks, customerFilter('customer_id')
+      );
       
-      await offlineDB.storeDoors(doors || []);
+      // Lokal angelegte/geänderte Türen nicht überschreiben
+      const pendingDoorIds = (await offlineDB.getPendingDoors()).map(door => door.id);
+
+      // Hochgeladene Türen gelten erst als bestätigt, wenn der Server-Stand
+      // mindestens so neu ist wie der eigene Upload - ältere Zeilen verwerfen
+      const uploadedAt: { [id: string]: string } = {};
+      (await offlineDB.getDoorsAwaitingConfirmation()).forEach(door => {
+        uploadedAt[door.id] = door.server_updated_at || door.updated_at;
+      });
 
-      // 3. Download recent Inspections (letzte 30 Tage)
+      // Server-Stand merken, um beim Upload Änderungen des Büros zu erkennen
+      await offlineDB.storeDoors(doors
+        .filter(door => pendingDoorIds.indexOf(door.id) === -1)
+        .filter(door => !uploadedAt[door.id] || door.updated_at >= uploadedAt[door.id])
+        .map(door => ({
+          ...door,
+          synced: true,
+          offline_created: false,
+          server_updated_at: door.updated_at
+        })));
+
+      // 5. Download recent Inspections (konfigurierbares Zeitfenster)
       onProgress?.({
         stage: 'inspections',
-        progress: 75,
+        progress: 65,
         message: 'Lade aktuelle Prüfungen...',
         completed: false
       });
 
-      const { data: inspections, error: inspectionsError } = await this.supabase
-        .from('inspections')
-        .select('*')
-        .order('inspection_date', { ascending: false });
+      const historyDays = options.inspectionHistoryDays || DEFAULT_INSPECTION_HISTORY_DAYS;
+      const historyStart = new Date(Date.now() - historyDays * 24 * 60 * 60 * 1000).toISOString();
+
+      // Längeres Zeitfenster: ältere, seither unveränderte Prüfungen fehlen noch
+      const previousHistoryDays = syncStatus?.inspection_history_days;
+      if (previousHistoryDays === undefined || historyDays > previousHistoryDays) {
+        delete since.inspections;
+      }
+
+      const inspectionFilters: TableFilter[] = [
+        { column: 'inspection_date', operator: 'gte', value: historyStart }
+      ];
+      if (customerIds) {
+        const scopedDoorIds = await this.getLocalIdsForCustomers(customerIds, 'doors');
+        inspectionFilters.push({ column: 'door_id', operator: 'in', value: scopedDoorIds });
+      }
 
-      if (inspectionsError) throw new Error(`Prüfungen-Download fehlgeschlagen: ${inspectionsError.message}`);
+      const inspections = await this.fetchChanges<Inspection>(
+        'inspections', 'Prüfungen', 'inspection_date', since, watermarks, inspectionFilters
+      );
       
+      // Lokal noch nicht hochgeladene Änderungen nicht überschreiben
+      const pendingInspectionIds = (await offlineDB.getPendingInspections()).map(inspection => inspection.id);
+
       // Mark downloaded inspections as synced
-      const syncedInspections = (inspections || []).map(inspection => ({
-        ...inspection,
-        synced: true,
-        offline_created: false
-      }));
+      const syncedInspections = inspections
+        .filter(inspection => pendingInspectionIds.indexOf(inspection.id) === -1)
+        .map(inspection => ({
+          ...inspection,
+          synced: true,
+          offline_created: false,
+          server_updated_at: inspection.updated_at
+        }));
       
       await offlineDB.storeInspections(syncedInspections);
 
-      // 5. Download Plans (Gebäudepläne)
+      // 6. Download Checklisten-Vorlagen (je Türtyp)
+      onProgress?.({
+        stage: 'checklist_templates',
+        progress: 75,
+        message: 'Lade Checklisten...',
+        completed: false
+      });
+
+      const checklistTemplates = await this.fetchChanges<ChecklistTemplate>(
+        'checklist_templates', 'Checklisten', 'door_type', since, watermarks
+      );
+      await offlineDB.storeChecklistTemplates(checklistTemplates);
+
+      // 7. Download Plans (Gebäudepläne) - bei getakteter Verbindung ggf. zurückhalten
+      const planHoldBackReason = options.ignorePolicy
+        ? null
+        : getHoldBackReason('plans', await this.getSyncPolicy());
+
       onProgress?.({
         stage: 'plans',
-        progress: 90,
-        message: 'Lade Pläne...',
+        progress: 85,
+        message: planHoldBackReason ? `⏸️ ${planHoldBackReason}` : 'Lade Pläne...',
         completed: false
       });
 
-      const { data: plans, error: plansError } = await this.supabase
-        .from('plans')
-        .select('*')
-        .order('plan_name');
+      let plans: Plan[] = [];
+      if (planHoldBackReason) {
+        // Stand nicht fortschreiben - war ein Komplett-Download fällig, bleibt er es
+        if (!since.plans) delete watermarks.plans;
+      } else {
+        plans = await this.fetchChanges<Plan>(
+          'plans', 'Pläne', 'plan_name', since, watermarks,
+          customerIds
+            ? [{ column: 'site_id', operator: 'in', value: await this.getLocalIdsForCustomers(customerIds, 'sites') }]
+            : []
+        );
+        await offlineDB.storePlans(plans);
 
-      if (plansError) throw new Error(`Pläne-Download fehlgeschlagen: ${plansError.message}`);
-      
-      // TODO: Store plans when offlineDB is extended
-      console.log(`✅ ${plans?.length || 0} Pläne geladen (noch nicht gespeichert)`);
-      // 4. Update Sync Status
+        onProgress?.({
+          stage: 'plan_files',
+          progress: 90,
+          message: 'Lade Plandateien für den Offline-Viewer...',
+          completed: false
+        });
+
+        await this.cachePlanFiles();
+      }
+
+      // 8. Serverseitig gelöschte Datensätze entfernen (Tombstones)
+      onProgress?.({
+        stage: 'deletions',
+        progress: 95,
+        message: 'Entferne gelöschte Datensätze...',
+        completed: false
+      });
+
+      const deletedCount = await this.applyDeletions(since, watermarks, pendingInspectionIds) +
+        (customerIds ? await this.pruneOutOfScope(customerIds) : 0);
+
+      // 9. Update Sync Status
       await offlineDB.updateSyncStatus({
         last_download: new Date().toISOString(),
-        sync_in_progress: false
+        table_watermarks: watermarks,
+        inspection_history_days: historyDays,
+        download_scope: scope,
+        scope_customer_ids: customerIds || []
       });
 
+      const changedCount = customers.length + deliveryLocations.length + sites.length +
+        doors.length + inspections.length + checklistTemplates.length + plans.length;
+
       onProgress?.({
         stage: 'complete',
         progress: 100,
-        message: `✅ Bereit für Offline-Arbeit! ${customers?.length || 0} Kunden, ${deliveryLocations?.length || 0} Lieferorte, ${sites?.length || 0} Standorte, ${doors?.length || 0} Türen, ${plans?.length || 0} Pläne geladen.`,
+        message: changedCount === 0 && deletedCount === 0
+          ? '✅ Bereit für Offline-Arbeit! Keine Änderungen seit dem letzten Download.'
+          : `✅ Bereit für Offline-Arbeit! ${customers.length} Kunden, ${deliveryLocations.length} Lieferorte, ${sites.length} Standorte, ${doors.length} Türen, ${plans.length} Pläne aktualisiert${deletedCount > 0 ? `, ${deletedCount} gelöscht` : ''}.${planHoldBackReason ? ` ${planHoldBackReason}.` : ''}`,
         completed: true
       });
 
@@ -179,197 +371,432 @@ class SyncManager {
     }
   }
 
-  // ================================================================
-  // EVENING UPLOAD - Alle Offline-Änderungen hochladen
-  // ================================================================
+  private async fetchAssignments(scope: DownloadScope): Promise<Assignment[]> {
+    if (scope.mode === 'full' || scope.mode === 'customers') {
+      return [];
+    }
 
-  async uploadPendingChanges(onProgress?: SyncProgressCallback): Promise<void> {
-    if (!navigator.onLine) {
-      throw new Error('Internet-Verbindung erforderlich für Upload');
+    let query = this.supabase
+      .from('assignments')
+      .select('*')
+      .eq('technician_name', scope.technician_name);
+
+    if (scope.mode === 'assigned') {
+      query = query.eq('scheduled_date', format(new Date(), 'yyyy-MM-dd'));
+    } else {
+      query = query.gte('scheduled_date', scope.from).lte('scheduled_date', scope.to);
     }
 
-    try {
-      await offlineDB.init();
-      
-      onProgress?.({
-        stage: 'init',
-        progress: 5,
-        message: 'Prüfe ausstehende Änderungen...',
-        completed: false
-      });
+    const { data, error } = await query.order('scheduled_date');
 
-      // Get pending data
-      const [pendingInspections, pendingPhotos] = await Promise.all([
-        offlineDB.getPendingInspections(),
-        offlineDB.getPendingPhotos()
-      ]);
+    if (error) throw new Error(`Tagesplan-Download fehlgeschlagen: ${error.message}`);
 
-      if (pendingInspections.length === 0 && pendingPhotos.length === 0) {
-        onProgress?.({
-          stage: 'complete',
-          progress: 100,
-          message: '✅ Keine ausstehenden Änderungen vorhanden.',
-          completed: true
-        });
-        return;
+    return data || [];
+  }
+
+  private async getLocalIdsForCustomers(customerIds: string[], table: 'doors' | 'sites'): Promise<string[]> {
+    const ids: string[] = [];
+
+    for (const customerId of customerIds) {
+      const records = table === 'doors'
+        ? await offlineDB.getDoorsByCustomer(customerId)
+        : await offlineDB.getSitesByCustomer(customerId);
+      records.forEach(record => ids.push(record.id));
+    }
+
+    return ids;
+  }
+
+  // Kunden außerhalb des Umfangs samt Türen, Prüfungen usw. entfernen -
+  // außer, für sie stehen noch Uploads oder Konflikte aus
+  private async pruneOutOfScope(customerIds: string[]): Promise<number> {
+    const [customers, doors, inspections, outbox, conflicts] = await Promise.all([
+      offlineDB.getAllCustomers(),
+      offlineDB.getAllDoors(),
+      offlineDB.getAllInspections(),
+      offlineDB.getAllOutboxItems(),
+      offlineDB.getAllConflicts()
+    ]);
+
+    const customerByDoor: { [doorId: string]: string } = {};
+    doors.forEach(door => { customerByDoor[door.id] = door.customer_id; });
+    const doorByInspection: { [inspectionId: string]: string } = {};
+    inspections.forEach(inspection => { doorByInspection[inspection.id] = inspection.door_id; });
+
+    // Türen- oder Prüfungs-ID -> Kunde
+    const customerOf = (recordId: string) =>
+      customerByDoor[recordId] || customerByDoor[doorByInspection[recordId]];
+
+    const keep: { [customerId: string]: boolean } = {};
+    customerIds.forEach(id => { keep[id] = true; });
+    doors.filter(door => door.synced === false).forEach(door => { keep[door.customer_id] = true; });
+    inspections.filter(inspection => !inspection.synced).forEach(inspection => { keep[customerOf(inspection.id)] = true; });
+    outbox.forEach(item => { keep[customerOf(item.inspection_id)] = true; });
+    conflicts.forEach(conflict => { keep[customerOf(conflict.record_id)] = true; });
+
+    const outOfScope = customers.filter(customer => !keep[customer.id]).map(customer => customer.id);
+    return outOfScope.length > 0 ? offlineDB.deleteCustomers(outOfScope) : 0;
+  }
+
+  // Lädt alle Zeilen einer Tabelle, die seit dem letzten Stand (abzüglich
+  // Überlappung) geändert wurden, und schiebt den Stand auf das jüngste updated_at weiter
+  private async fetchChanges<T extends { updated_at: string }>(
+    table: SyncedTable,
+    label: string,
+    orderBy: string,
+    since: { [table: string]: string },
+    watermarks: { [table: string]: string },
+    filters: TableFilter[] = []
+  ): Promise<T[]> {
+    const batched = filters.filter(filter =>
+      filter.operator === 'in' && (filter.value as unknown[]).length > IN_FILTER_BATCH_SIZE
+    )[0];
+
+    const batches: TableFilter[][] = [];
+    if (batched) {
+      const values = batched.value as unknown[];
+      for (let start = 0; start < values.length; start += IN_FILTER_BATCH_SIZE) {
+        batches.push(filters.map(filter => filter === batched
+          ? { ...filter, value: values.slice(start, start + IN_FILTER_BATCH_SIZE) }
+          : filter));
       }
+    } else {
+      batches.push(filters);
+    }
 
-      let totalItems = pendingInspections.length + pendingPhotos.length;
-      let uploadedItems = 0;
+    const rows: (T & { id: string })[] = [];
 
-      // 1. Upload Inspections
-      for (const inspection of pendingInspections) {
-        onProgress?.({
-          stage: 'inspections',
-          progress: Math.round((uploadedItems / totalItems) * 80) + 10,
-          message: `Lade Prüfung für Tür ${inspection.door_id} hoch...`,
-          completed: false
-        });
+    for (const batchFilters of batches) {
+      let query = this.supabase.from(table).select('*');
+
+      if (since[table]) {
+        query = query.gte('updated_at', withOverlap(since[table]));
+      }
 
-        try {
-          const { error } = await this.supabase
-            .from('inspections')
-            .upsert({
-              id: inspection.id,
-              door_id: inspection.door_id,
-              inspector_name: inspection.inspector_name,
-              inspection_date: inspection.inspection_date,
-              status: inspection.status,
-              notes: inspection.notes,
-              photos: inspection.photos,
-              created_at: inspection.created_at,
-              updated_at: new Date().toISOString()
-            });
-
-          if (error) {
-            console.error('Inspection upload error:', error);
-            throw new Error(`Prüfung ${inspection.id} Upload fehlgeschlagen: ${error.message}`);
-          }
-
-          // Mark as synced
-          await offlineDB.storeInspection({
-            ...inspection,
-            synced: true
-          });
-
-          uploadedItems++;
-        } catch (error) {
-          console.error('Failed to upload inspection:', inspection.id, error);
-          // Continue with other inspections
+      batchFilters.forEach(filter => {
+        switch (filter.operator) {
+          case 'eq':
+            query = query.eq(filter.column, filter.value);
+            break;
+          case 'gte':
+            query = query.gte(filter.column, filter.value);
+            break;
+          case 'lte':
+            query = query.lte(filter.column, filter.value);
+            break;
+          case 'in':
+            query = query.in(filter.column, filter.value as unknown[]);
+            break;
         }
+      });
+
+      const { data, error } = await query.order(orderBy);
+
+      if (error) throw new Error(`${label}-Download fehlgeschlagen: ${error.message}`);
+
+      rows.push(...((data || []) as (T & { id: string })[]));
+    }
+
+    rows.forEach(row => {
+      if (row.updated_at && (!watermarks[table] || row.updated_at > watermarks[table])) {
+        watermarks[table] = row.updated_at;
       }
+    });
 
-      // 2. Upload Photos
-      for (const photo of pendingPhotos) {
-        onProgress?.({
-          stage: 'photos',
-          progress: Math.round((uploadedItems / totalItems) * 80) + 10,
-          message: `Lade Foto hoch...`,
-          completed: false
-        });
+    if (!since[table]) {
+      return rows;
+    }
 
-        try {
-          // Upload to Supabase Storage
-          const { error: uploadError } = await this.supabase.storage
-            .from('door-photos')
-            .upload(`inspections/${photo.inspection_id}/${photo.filename}`, photo.blob, {
-              cacheControl: '3600',
-              upsert: true
-            });
-
-          if (uploadError) {
-            console.error('Photo upload error:', uploadError);
-            throw new Error(`Foto Upload fehlgeschlagen: ${uploadError.message}`);
-          }
-
-          // Mark as synced
-          await offlineDB.storePhoto({
-            ...photo,
-            synced: true
-          });
-
-          uploadedItems++;
-        } catch (error) {
-          console.error('Failed to upload photo:', photo.id, error);
-          // Continue with other photos
-        }
+    // Zeilen aus der Überlappung, die lokal schon im selben Stand liegen
+    const overlapping = rows.filter(row => row.updated_at <= since[table]);
+    const localUpdatedAt = await offlineDB.getUpdatedAtByIds(table, overlapping.map(row => row.id));
+
+    return rows.filter(row => localUpdatedAt[row.id] !== row.updated_at);
+  }
+
+  private async applyDeletions(
+    since: { [table: string]: string },
+    watermarks: { [table: string]: string },
+    pendingInspectionIds: string[]
+  ): Promise<number> {
+    let query = this.supabase
+      .from('deleted_records')
+      .select('table_name, record_id, deleted_at');
+
+    if (since.deleted_records) {
+      query = query.gte('deleted_at', withOverlap(since.deleted_records));
+    }
+
+    const { data: deletions, error } = await query.order('deleted_at');
+
+    if (error) {
+      // Ohne Tombstone-Tabelle bleibt der Download nutzbar, nur ohne Löschungen
+      console.warn('Deleted records could not be loaded:', error.message);
+      return 0;
+    }
+
+    const idsByTable: { [table: string]: string[] } = {};
+    (deletions || []).forEach(deletion => {
+      if (SYNCED_TABLES.indexOf(deletion.table_name) === -1) return;
+      // Eigene, noch nicht hochgeladene Prüfungen nie stillschweigend verwerfen
+      if (deletion.table_name === 'inspections' && pendingInspectionIds.indexOf(deletion.record_id) !== -1) return;
+
+      (idsByTable[deletion.table_name] = idsByTable[deletion.table_name] || []).push(deletion.record_id);
+
+      if (!watermarks.deleted_records || deletion.deleted_at > watermarks.deleted_records) {
+        watermarks.deleted_records = deletion.deleted_at;
       }
+    });
 
-      // 3. Update Sync Status
-      await offlineDB.updateSyncStatus({
-        last_sync: new Date().toISOString(),
-        pending_uploads: 0,
-        sync_in_progress: false
-      });
+    let deletedCount = 0;
+    for (const table of Object.keys(idsByTable)) {
+      // Tombstones aus der Überlappung betreffen meist längst gelöschte Zeilen
+      const existing = await offlineDB.getUpdatedAtByIds(table, idsByTable[table]);
+      await offlineDB.deleteRecords(table as SyncedTable, idsByTable[table]);
+      deletedCount += Object.keys(existing).length;
+    }
 
-      onProgress?.({
-        stage: 'complete',
-        progress: 100,
-        message: `✅ Upload abgeschlossen! ${uploadedItems} von ${totalItems} Elementen hochgeladen.`,
-        completed: true
-      });
+    if (idsByTable.plans) {
+      await offlineDB.deleteRecords('plan_files', idsByTable.plans);
+    }
 
-    } catch (error) {
-      onProgress?.({
-        stage: 'error',
-        progress: 0,
-        message: 'Upload fehlgeschlagen',
-        completed: false,
-        error: error instanceof Error ? error.message : 'Unbekannter Fehler'
-      });
-      throw error;
+    return deletedCount;
+  }
+
+  // Lädt fehlende oder geänderte Plandateien aller lokalen Pläne - auch
+  // solche, deren Datei bei einem früheren Download zurückgehalten wurde
+  private async cachePlanFiles(): Promise<void> {
+    const plans = await offlineDB.getAllPlans();
+
+    for (const plan of plans) {
+      if (!plan.file_url) continue;
+
+      const cached = await offlineDB.getPlanFile(plan.id);
+      if (cached && cached.file_url === plan.file_url) continue;
+
+      // Einzelne kaputte Pläne sollen den Download nicht abbrechen
+      try {
+        const source = await this.downloadPlanFile(plan.file_url);
+        await offlineDB.storePlanFile(await preparePlanFile(plan, source));
+      } catch (error) {
+        console.error(`Plan file ${plan.id} could not be cached:`, error);
+      }
+    }
+  }
+
+  // file_url ist entweder eine vollständige URL oder ein Pfad im Plan-Bucket
+  private async downloadPlanFile(fileUrl: string): Promise<Blob> {
+    if (/^https?:\/\//i.test(fileUrl)) {
+      const response = await fetch(fileUrl);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return await response.blob();
+    }
+
+    const { data, error } = await this.supabase.storage.from(PLAN_BUCKET).download(fileUrl);
+    if (error || !data) throw new Error(error?.message || 'Leere Plandatei');
+    return data;
+  }
+
+  // Kundenverzeichnis für die manuelle Auswahl des Download-Umfangs
+  async fetchCustomerDirectory(): Promise<{ id: string; name: string }[]> {
+    if (!navigator.onLine) {
+      throw new Error('Internet-Verbindung erforderlich für Kundenauswahl');
     }
+
+    const { data, error } = await this.supabase
+      .from('customers')
+      .select('*')
+      .order('company_name');
+
+    if (error) throw new Error(`Kundenverzeichnis nicht abrufbar: ${error.message}`);
+
+    return (data || []).map(customer => ({
+      id: customer.id,
+      name: customer.name || customer.company_name
+    }));
+  }
+
+  async getDayPlan(): Promise<{
+    scope: DownloadScope;
+    assignments: Assignment[];
+    customers: Customer[];
+  }> {
+    await offlineDB.init();
+
+    const [syncStatus, assignments, allCustomers] = await Promise.all([
+      offlineDB.getSyncStatus(),
+      offlineDB.getAllAssignments(),
+      offlineDB.getAllCustomers()
+    ]);
+
+    const scope = syncStatus?.download_scope || { mode: 'full' };
+    const scopeCustomerIds = syncStatus?.scope_customer_ids || [];
+
+    return {
+      scope,
+      assignments: assignments.sort((a, b) => a.scheduled_date.localeCompare(b.scheduled_date)),
+      customers: scope.mode === 'full'
+        ? allCustomers
+        : allCustomers.filter(customer => scopeCustomerIds.indexOf(customer.id) !== -1)
+    };
   }
 
   // ================================================================
-  // AUTO-SYNC - Automatische Synchronisation bei Online-Verbindung
+  // EVENING UPLOAD - Alle Offline-Änderungen hochladen
   // ================================================================
 
+  async uploadPendingChanges(onProgress?: SyncProgressCallback, options: UploadOptions = {}): Promise<void> {
+    const lock = await withSyncLock('upload', () => outboxUploader.performUpload(onProgress, options));
+    if (!lock.acquired) {
+      throw new Error(SYNC_BUSY_MESSAGE);
+    }
+  }
+
+  // Fällige Einträge hochladen, sofern online und niemand sonst synchronisiert
   async autoSyncIfOnline(): Promise<boolean> {
-    if (!navigator.onLine) {
-      return false;
+    return outboxUploader.autoSyncIfOnline();
+  }
+
+  // ================================================================
+  // OUTBOX - Warteschlange mit exponentiellem Backoff
+  // ================================================================
+
+  private createOutboxItem(operation: OutboxOperation, recordId: string, inspectionId: string): OutboxItem {
+    const now = new Date().toISOString();
+
+    return {
+      id: `${operation}:${recordId}`,
+      operation,
+      record_id: recordId,
+      inspection_id: inspectionId,
+      attempts: 0,
+      next_retry_at: now,
+      created_at: now
+    };
+  }
+
+  private async enqueueUpload(operation: OutboxOperation, recordId: string, inspectionId: string): Promise<void> {
+    await offlineDB.storeOutboxItem(this.createOutboxItem(operation, recordId, inspectionId));
+    await this.afterEnqueue();
+  }
+
+  private async afterEnqueue(): Promise<void> {
+    await offlineDB.updateSyncStatus({
+      pending_uploads: await offlineDB.getOutboxCount()
+    });
+
+    // Service Worker lädt hoch, sobald wieder Netz da ist - auch bei geschlossener App
+    void requestOutboxSync();
+  }
+
+  async getOutboxItems(): Promise<OutboxItem[]> {
+    await offlineDB.init();
+    const items = await offlineDB.getAllOutboxItems();
+    return items.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  // Einzelnen Eintrag sofort erneut versuchen (samt seiner Prüfungs-Gruppe)
+  async retryOutboxItem(itemId: string, onProgress?: SyncProgressCallback): Promise<void> {
+    await offlineDB.init();
+
+    const item = await offlineDB.getOutboxItem(itemId);
+    if (!item) return;
+
+    await this.uploadPendingChanges(onProgress, { inspectionId: item.inspection_id });
+  }
+
+  // Verwerfen: Eintrag entfernen. Nie hochgeladene Offline-Datensätze werden
+  // gelöscht, damit lokal nichts als "ausstehend" hängen bleibt. Fotos bleiben
+  // als nicht hochgeladen auf dem Gerät.
+  async discardOutboxItem(itemId: string): Promise<void> {
+    await offlineDB.init();
+
+    const item = await offlineDB.getOutboxItem(itemId);
+    if (!item) return;
+
+    // Uploads einer Abnahme dürfen nicht verloren gehen - sonst erreicht die
+    // Unterschrift nie das Büro, obwohl die Prüfungen lokal gesperrt sind
+    if (item.operation === 'upload_inspection' || item.operation === 'upload_photo') {
+      const inspection = await offlineDB.getInspection(item.inspection_id);
+      if (inspection && isInspectionSigned(inspection)) {
+        throw new Error(SIGNED_DISCARD_MESSAGE);
+      }
     }
 
-    try {
-      await offlineDB.init();
-      
-      const syncStatus = await offlineDB.getSyncStatus();
-      if (syncStatus?.sync_in_progress) {
-        return false; // Sync already in progress
+    if (item.operation === 'upload_photo') {
+      const photo = await offlineDB.getPhoto(item.record_id);
+      if (photo) {
+        await offlineDB.storePhoto({ ...photo, upload_discarded: true });
+      }
+      await offlineDB.deleteOutboxItems([item.id]);
+    } else if (item.operation === 'upload_door') {
+      const door = await offlineDB.getDoor(item.record_id);
+
+      if (door && door.offline_created && !door.server_updated_at) {
+        await offlineDB.deleteRecords('doors', [door.id]);
+      } else if (door) {
+        await offlineDB.storeDoor({ ...door, synced: true });
+      }
+      await offlineDB.deleteOutboxItems([item.id]);
+    } else if (item.operation === 'upload_report') {
+      // Das PDF bleibt lokal zum Teilen erhalten, nur der Upload entfällt
+      await offlineDB.deleteOutboxItems([item.id]);
+    } else {
+      const inspection = await offlineDB.getInspection(item.record_id);
+
+      if (inspection && inspection.offline_created && !inspection.server_updated_at) {
+        // Prüfung samt Fotos verwerfen
+        const photos = await offlineDB.getPhotosByInspection(inspection.id);
+        const outbox = await offlineDB.getAllOutboxItems();
+
+        await offlineDB.deleteRecords('photos', photos.map(photo => photo.id));
+        await offlineDB.deleteRecords('inspections', [inspection.id]);
+        await offlineDB.deleteOutboxItems(
+          outbox.filter(entry => entry.inspection_id === inspection.id).map(entry => entry.id)
+        );
+      } else {
+        if (inspection) {
+          await offlineDB.storeInspection({ ...inspection, synced: true });
+        }
+        await offlineDB.deleteOutboxItems([item.id]);
       }
+    }
 
-      // Mark sync as in progress
-      await offlineDB.updateSyncStatus({
-        sync_in_progress: true
-      });
+    await offlineDB.updateSyncStatus({
+      pending_uploads: await offlineDB.getOutboxCount()
+    });
+  }
 
-      // Check for pending uploads
-      const [pendingInspections, pendingPhotos] = await Promise.all([
-        offlineDB.getPendingInspections(),
-        offlineDB.getPendingPhotos()
-      ]);
+  // ================================================================
+  // SYNC-RICHTLINIE - Fotos & Pläne nur über WLAN
+  // ================================================================
 
-      if (pendingInspections.length > 0 || pendingPhotos.length > 0) {
-        await this.uploadPendingChanges();
-        return true;
-      }
+  async getSyncPolicy(): Promise<SyncPolicy> {
+    return outboxUploader.getSyncPolicy();
+  }
 
-      // Mark sync as complete
-      await offlineDB.updateSyncStatus({
-        sync_in_progress: false
-      });
+  async setSyncPolicy(policy: SyncPolicy): Promise<void> {
+    await offlineDB.init();
+    await offlineDB.updateSyncStatus({ sync_policy: policy });
+  }
 
-      return false;
-    } catch (error) {
-      console.error('Auto-sync failed:', error);
-      
-      // Mark sync as complete even on error
-      await offlineDB.updateSyncStatus({
-        sync_in_progress: false
-      });
-      
-      return false;
-    }
+  // Was gerade zurückgehalten wird und warum - für die Sync-Ansicht
+  async getHeldBackInfo(): Promise<{
+    photoReason: string | null;
+    heldPhotos: number;
+    planReason: string | null;
+  }> {
+    const policy = await this.getSyncPolicy();
+    const photoReason = getHoldBackReason('photos', policy);
+    const heldPhotos = photoReason
+      ? (await offlineDB.getAllOutboxItems()).filter(item => item.operation === 'upload_photo').length
+      : 0;
+
+    return {
+      photoReason,
+      heldPhotos,
+      planReason: getHoldBackReason('plans', policy)
+    };
   }
 
   // ================================================================
@@ -378,13 +805,7 @@ class SyncManager {
 
   async getPendingUploadCount(): Promise<number> {
     await offlineDB.init();
-    
-    const [pendingInspections, pendingPhotos] = await Promise.all([
-      offlineDB.getPendingInspections(),
-      offlineDB.getPendingPhotos()
-    ]);
-
-    return pendingInspections.length + pendingPhotos.length;
+    return await offlineDB.getOutboxCount();
   }
 
   async getLastSyncInfo(): Promise<{
@@ -395,22 +816,25 @@ class SyncManager {
   }> {
     await offlineDB.init();
     
-    const [syncStatus, pendingCount] = await Promise.all([
+    const [syncStatus, pendingCount, lockHeld] = await Promise.all([
       offlineDB.getSyncStatus(),
-      this.getPendingUploadCount()
+      this.getPendingUploadCount(),
+      isSyncLockHeld()
     ]);
 
     return {
       lastSync: syncStatus?.last_sync || null,
       lastDownload: syncStatus?.last_download || null,
       pendingUploads: pendingCount,
-      syncInProgress: syncStatus?.sync_in_progress || false
+      syncInProgress: lockHeld
     };
   }
 
   async getOfflineStats(): Promise<{
     customers: number;
+    sites: number;
     doors: number;
+    plans: number;
     inspections: number;
     photos: number;
     pendingUploads: number;
@@ -419,25 +843,202 @@ class SyncManager {
     return await offlineDB.getStorageStats();
   }
 
+  // ================================================================
+  // KONFLIKTE - Auflösen durch den Techniker
+  // ================================================================
+
+  async getConflicts(): Promise<SyncConflict[]> {
+    await offlineDB.init();
+    return await offlineDB.getAllConflicts();
+  }
+
+  async resolveConflict(
+    conflictId: string,
+    resolution: ConflictResolution,
+    mergedRecord?: ConflictRecord
+  ): Promise<void> {
+    await offlineDB.init();
+
+    const conflict = await offlineDB.getConflict(conflictId);
+    if (!conflict) {
+      throw new Error(`Konflikt ${conflictId} nicht gefunden`);
+    }
+
+    let record: ConflictRecord;
+    let needsUpload = resolution !== 'theirs';
+    if (resolution === 'theirs') {
+      record = conflict.server_record;
+    } else {
+      // Eigene bzw. zusammengeführte Fassung gilt nun als Stand auf den
+      // aktuellen Server-Datensatz und wird beim nächsten Upload übertragen
+      record = {
+        ...(resolution === 'merge' && mergedRecord ? mergedRecord : conflict.local_record),
+        server_updated_at: conflict.server_record.updated_at,
+        synced: false
+      } as Inspection | Door;
+    }
+
+    // Eine Abnahme lässt sich nicht zurücknehmen: Die Unterschrift bleibt in jeder
+    // Auflösung erhalten und geht notfalls noch auf den Server
+    const local = conflict.local_record as Inspection;
+    if (conflict.entity === 'inspections' && isInspectionSigned(local)) {
+      const server = conflict.server_record as Inspection;
+      const serverHasSignature = !!server.signed_at &&
+        new Date(server.signed_at).getTime() === new Date(local.signed_at!).getTime();
+
+      record = {
+        ...record,
+        signature_id: local.signature_id,
+        signed_by: local.signed_by,
+        signed_at: local.signed_at,
+        signature_path: local.signature_path || server.signature_path
+      } as Inspection;
+
+      if (!serverHasSignature) {
+        record = { ...record, server_updated_at: server.updated_at, synced: false };
+        needsUpload = true;
+      }
+    }
+
+    await offlineDB.resolveConflict(conflictId, conflict.entity, record);
+
+    const operation: OutboxOperation = conflict.entity === 'doors' ? 'upload_door' : 'upload_inspection';
+    if (!needsUpload) {
+      await offlineDB.deleteOutboxItems([`${operation}:${conflict.record_id}`]);
+    } else {
+      // Neuer Versuch ohne angesammelten Backoff
+      await this.enqueueUpload(operation, conflict.record_id, conflict.record_id);
+    }
+
+    await offlineDB.updateSyncStatus({
+      pending_uploads: await this.getPendingUploadCount()
+    });
+  }
+
+  // ================================================================
+  // OFFLINE DOORS (Anlage, Bearbeitung & Planposition)
+  // ================================================================
+
+  // id: vorgedrucktes Etikett - gescannte Tür-ID übernehmen
+  async createOfflineDoor(doorData: DoorInput & { id?: string }): Promise<Door> {
+    await offlineDB.init();
+
+    if (doorData.id && await offlineDB.getDoor(doorData.id)) {
+      throw new Error(`Tür ${doorData.id} existiert bereits`);
+    }
+
+    const now = new Date().toISOString();
+    const door: Door = {
+      ...doorData,
+      id: doorData.id || generateUUID(),
+      created_at: now,
+      updated_at: now,
+      synced: false,
+      offline_created: true
+    };
+
+    await offlineDB.storeDoor(door);
+    await this.enqueueUpload('upload_door', door.id, door.id);
+
+    return door;
+  }
+
+  // Korrigierte Stammdaten (Hersteller, Baujahr, ...) - der Kunde bleibt fest
+  async updateOfflineDoor(doorId: string, changes: Partial<Omit<DoorInput, 'customer_id'>>): Promise<Door> {
+    await offlineDB.init();
+
+    const door = await offlineDB.getDoor(doorId);
+    if (!door) {
+      throw new Error(`Tür ${doorId} nicht gefunden`);
+    }
+
+    const updatedDoor: Door = {
+      ...door,
+      ...changes,
+      updated_at: new Date().toISOString(),
+      synced: false
+    };
+
+    await offlineDB.storeDoor(updatedDoor);
+    await this.enqueueUpload('upload_door', door.id, door.id);
+
+    return updatedDoor;
+  }
+
+  // Position relativ zum Plan (0..1), damit sie unabhängig von der Auflösung
+  // der gerenderten Plandatei bleibt
+  async updateDoorPlanPosition(doorId: string, planId: string, x: number, y: number): Promise<Door> {
+    await offlineDB.init();
+
+    const door = await offlineDB.getDoor(doorId);
+    if (!door) {
+      throw new Error(`Tür ${doorId} nicht gefunden`);
+    }
+
+    const updatedDoor: Door = {
+      ...door,
+      plan_id: planId,
+      plan_x: Math.min(1, Math.max(0, x)),
+      plan_y: Math.min(1, Math.max(0, y)),
+      updated_at: new Date().toISOString(),
+      synced: false
+    };
+
+    await offlineDB.storeDoor(updatedDoor);
+    await this.enqueueUpload('upload_door', door.id, door.id);
+
+    return updatedDoor;
+  }
+
   // ================================================================
   // OFFLINE INSPECTION CREATION
   // ================================================================
 
+  async getChecklistTemplateForDoorType(doorType?: string): Promise<ChecklistTemplate | null> {
+    await offlineDB.init();
+
+    if (doorType) {
+      const templates = await offlineDB.getChecklistTemplatesByDoorType(doorType);
+      if (templates.length > 0) return templates[0];
+    }
+
+    // Fallback: allgemeine Vorlage
+    const defaultTemplates = await offlineDB.getChecklistTemplatesByDoorType(DEFAULT_DOOR_TYPE);
+    return defaultTemplates[0] || null;
+  }
+
+  // id: vom Formular vorab vergeben, damit Fotos schon vor dem ersten Speichern
+  // aufgenommen werden können - sie hängen bis hierhin als Entwurf an der id
   async createOfflineInspection(inspectionData: {
+    id?: string;
     door_id: string;
     inspector_name: string;
-    status: 'pending' | 'completed' | 'failed';
+    status?: InspectionStatus;
     notes?: string;
+    checklist_template_id?: string;
+    checklist?: InspectionChecklistItem[];
   }): Promise<string> {
     await offlineDB.init();
 
+    if (inspectionData.id && await offlineDB.getInspection(inspectionData.id)) {
+      throw new Error(`Prüfung ${inspectionData.id} existiert bereits`);
+    }
+
+    // Mit Checkliste ergibt sich der Status immer aus den Einzelergebnissen
+    const status = inspectionData.checklist
+      ? deriveInspectionStatus(inspectionData.checklist)
+      : inspectionData.status || 'pending';
+
     const inspection: Inspection = {
-      id: `offline_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      // UUID statt temporärer ID: bleibt nach dem Upload gültig
+      id: inspectionData.id || generateUUID(),
       door_id: inspectionData.door_id,
       inspector_name: inspectionData.inspector_name,
       inspection_date: new Date().toISOString(),
-      status: inspectionData.status,
+      status,
       notes: inspectionData.notes,
+      checklist_template_id: inspectionData.checklist_template_id,
+      checklist: inspectionData.checklist,
       photos: [],
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
@@ -445,39 +1046,281 @@ class SyncManager {
       offline_created: true
     };
 
-    await offlineDB.storeInspection(inspection);
-    
-    // Update pending uploads count
-    await offlineDB.updateSyncStatus({
-      pending_uploads: await this.getPendingUploadCount()
-    });
+    const draftPhotos = (await offlineDB.getPhotosByInspection(inspection.id))
+      .filter(photo => photo.draft)
+      .map(photo => ({ ...photo, draft: false }));
+
+    await offlineDB.storeNewInspection(inspection, draftPhotos, [
+      this.createOutboxItem('upload_inspection', inspection.id, inspection.id),
+      ...draftPhotos.map(photo => this.createOutboxItem('upload_photo', photo.id, inspection.id))
+    ]);
+    await this.afterEnqueue();
 
     return inspection.id;
   }
 
-  async addPhotoToInspection(inspectionId: string, photoBlob: Blob, filename: string): Promise<string> {
+  async updateOfflineInspection(inspectionId: string, changes: {
+    inspector_name?: string;
+    status?: InspectionStatus;
+    notes?: string;
+    checklist?: InspectionChecklistItem[];
+  }): Promise<void> {
+    await offlineDB.init();
+
+    const inspection = await offlineDB.getInspection(inspectionId);
+    if (!inspection) {
+      throw new Error(`Prüfung ${inspectionId} nicht gefunden`);
+    }
+    if (isInspectionSigned(inspection)) {
+      throw new Error(SIGNED_LOCK_MESSAGE);
+    }
+    if (inspection.synced) {
+      throw new Error('Bereits hochgeladene Prüfungen können nicht mehr bearbeitet werden');
+    }
+
+    const checklist = changes.checklist || inspection.checklist;
+    const status = checklist
+      ? deriveInspectionStatus(checklist)
+      : changes.status || inspection.status;
+
+    await offlineDB.storeInspection({
+      ...inspection,
+      ...changes,
+      checklist,
+      status,
+      updated_at: new Date().toISOString()
+    });
+    await this.enqueueUpload('upload_inspection', inspection.id, inspection.id);
+  }
+
+  async updatePhotoAnnotations(photoId: string, annotations: PhotoAnnotation[]): Promise<void> {
+    await offlineDB.init();
+
+    const photo = await offlineDB.getPhoto(photoId);
+    if (!photo) {
+      throw new Error(`Foto ${photoId} nicht gefunden`);
+    }
+    await this.assertInspectionUnsigned(photo.inspection_id);
+
+    // Geänderte Markierungen müssen erneut hochgeladen werden - auch nach verworfenem Upload
+    await offlineDB.storePhoto({
+      ...photo,
+      annotations,
+      synced: false,
+      upload_discarded: false
+    });
+    if (!photo.draft) {
+      await this.enqueueUpload('upload_photo', photo.id, photo.inspection_id);
+    }
+  }
+
+  async getPhotosForInspection(inspectionId: string): Promise<OfflinePhoto[]> {
     await offlineDB.init();
+    return await offlineDB.getPhotosByInspection(inspectionId);
+  }
+
+  async addPhotoToInspection(
+    inspectionId: string,
+    photoBlob: Blob,
+    filename: string,
+    options?: Partial<PhotoProcessingOptions>
+  ): Promise<string> {
+    await offlineDB.init();
+    await this.assertInspectionUnsigned(inspectionId);
+
+    // Noch nie gespeicherte Prüfung: Foto bleibt Entwurf, bis createOfflineInspection es übernimmt
+    const isDraft = !await offlineDB.getInspection(inspectionId);
+
+    // Vor dem Speichern verkleinern - volle Tablet-Auflösung sprengt die Quota
+    const processed = await processPhoto(photoBlob, options);
 
     const photo: OfflinePhoto = {
       id: `photo_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       inspection_id: inspectionId,
-      blob: photoBlob,
-      filename: filename,
+      blob: processed.blob,
+      thumbnail: processed.thumbnail,
+      width: processed.width,
+      height: processed.height,
+      mime_type: processed.mimeType,
+      filename: replaceFileExtension(filename, processed.mimeType),
+      ...(isDraft ? { draft: true } : {}),
       created_at: new Date().toISOString(),
       synced: false
     };
 
     await offlineDB.storePhoto(photo);
-    
-    // Update pending uploads count
-    await offlineDB.updateSyncStatus({
-      pending_uploads: await this.getPendingUploadCount()
-    });
+    if (!isDraft) {
+      await this.enqueueUpload('upload_photo', photo.id, inspectionId);
+    }
 
     return photo.id;
   }
+
+  // Neue Prüfung abgebrochen: vorab aufgenommene Fotos wieder entfernen
+  async discardDraftPhotos(inspectionId: string): Promise<void> {
+    await offlineDB.init();
+
+    if (await offlineDB.getInspection(inspectionId)) {
+      return;
+    }
+
+    const photos = await offlineDB.getPhotosByInspection(inspectionId);
+    await offlineDB.deleteRecords('photos', photos.filter(photo => photo.draft).map(photo => photo.id));
+  }
+
+  private async assertInspectionUnsigned(inspectionId: string): Promise<void> {
+    const inspection = await offlineDB.getInspection(inspectionId);
+    if (inspection && isInspectionSigned(inspection)) {
+      throw new Error(SIGNED_LOCK_MESSAGE);
+    }
+  }
+
+  // ================================================================
+  // UNTERSCHRIFT (Abnahme eines Besuchs)
+  // ================================================================
+
+  // Sperrt alle unterschriebenen Prüfungen und stellt sie samt Unterschrift
+  // in die Outbox - auch bereits hochgeladene, damit das Büro die Abnahme sieht
+  async signInspections(data: {
+    customerId: string;
+    siteId?: string;
+    inspectionIds: string[];
+    signerName: string;
+    image: Blob;
+  }): Promise<Signature> {
+    await offlineDB.init();
+
+    if (!data.signerName.trim()) {
+      throw new Error('Bitte den Namen des Unterzeichners angeben');
+    }
+    if (data.inspectionIds.length === 0) {
+      throw new Error('Keine Prüfungen zum Unterschreiben ausgewählt');
+    }
+
+    const inspections: Inspection[] = [];
+    for (const inspectionId of data.inspectionIds) {
+      const inspection = await offlineDB.getInspection(inspectionId);
+      if (!inspection) {
+        throw new Error(`Prüfung ${inspectionId} nicht gefunden`);
+      }
+      if (isInspectionSigned(inspection)) {
+        throw new Error(`Prüfung ${inspectionId} wurde bereits unterschrieben`);
+      }
+      if (inspection.status === 'pending') {
+        throw new Error('Offene Prüfungen müssen vor der Unterschrift abgeschlossen werden');
+      }
+      inspections.push(inspection);
+    }
+
+    const signedAt = new Date().toISOString();
+    const signature: Signature = {
+      id: generateUUID(),
+      customer_id: data.customerId,
+      site_id: data.siteId,
+      inspection_ids: data.inspectionIds,
+      signer_name: data.signerName.trim(),
+      signed_at: signedAt,
+      blob: data.image,
+      mime_type: data.image.type || 'image/png',
+      synced: false
+    };
+
+    await offlineDB.storeSignedInspections(
+      signature,
+      inspections.map(inspection => ({
+        ...inspection,
+        signature_id: signature.id,
+        signed_by: signature.signer_name,
+        signed_at: signedAt,
+        updated_at: signedAt,
+        synced: false
+      })),
+      inspections.map(inspection => this.createOutboxItem('upload_inspection', inspection.id, inspection.id))
+    );
+    await this.afterEnqueue();
+
+    return signature;
+  }
+
+  // ================================================================
+  // PRÜFBERICHT (PDF je Besuch)
+  // ================================================================
+
+  // Erzeugt den Bericht nur aus IndexedDB, speichert ihn lokal zum Teilen und
+  // stellt ihn in die Outbox, damit das Büro ihn beim nächsten Upload erhält
+  async createInspectionReport(visit: Visit): Promise<InspectionReport> {
+    await offlineDB.init();
+
+    const [customers, sites, deliveryLocations, doors, inspections] = await Promise.all([
+      offlineDB.getAllCustomers(),
+      offlineDB.getSitesByCustomer(visit.customerId),
+      offlineDB.getDeliveryLocationsByCustomer(visit.customerId),
+      offlineDB.getDoorsByCustomer(visit.customerId),
+      offlineDB.getAllInspections()
+    ]);
+
+    const customer = customers.find(entry => entry.id === visit.customerId);
+    if (!customer) {
+      throw new Error(`Kunde ${visit.customerId} nicht gefunden`);
+    }
+
+    const site = visit.siteId ? sites.find(entry => entry.id === visit.siteId) : undefined;
+    const deliveryLocation = site?.delivery_location_id
+      ? deliveryLocations.find(entry => entry.id === site.delivery_location_id)
+      : undefined;
+
+    // Nach Tür und Uhrzeit sortiert - je Tür zählt die letzte Prüfung des Tages
+    const visitInspections = getVisitInspections(visit, doors, inspections);
+    const reportInspections = visitInspections.filter((inspection, index) =>
+      !visitInspections.slice(index + 1).some(later => later.door_id === inspection.door_id)
+    );
+
+    if (reportInspections.length === 0) {
+      throw new Error('Für diesen Besuch liegen keine Prüfungen vor');
+    }
+
+    // Fotos gibt es nur für Prüfungen, die auf diesem Tablet erfasst wurden
+    const sections: ReportDoorSection[] = [];
+    for (const inspection of reportInspections) {
+      const photos = await offlineDB.getPhotosByInspection(inspection.id);
+      sections.push({
+        door: doors.find(door => door.id === inspection.door_id)!,
+        inspection,
+        photos: photos.sort((a, b) => a.created_at.localeCompare(b.created_at)),
+        signature: inspection.signature_id ? await offlineDB.getSignature(inspection.signature_id) : null
+      });
+    }
+
+    const createdAt = new Date().toISOString();
+    const blob = await buildInspectionReportPdf({
+      customer,
+      site,
+      deliveryLocation,
+      day: visit.day,
+      sections,
+      createdAt
+    });
+
+    const report: InspectionReport = {
+      id: generateUUID(),
+      customer_id: customer.id,
+      site_id: site?.id,
+      day: visit.day,
+      inspection_ids: reportInspections.map(inspection => inspection.id),
+      file_name: getReportFileName(customer, visit.day, site),
+      blob,
+      created_at: createdAt,
+      synced: false
+    };
+
+    await offlineDB.storeReport(report);
+    await this.enqueueUpload('upload_report', report.id, report.id);
+
+    return report;
+  }
 }
 
 // Export singleton instance
 export const syncManager = new SyncManager();
-export type { SyncProgress, SyncProgressCallback };
+export type { SyncProgress, SyncProgressCallback, DownloadOptions, UploadOptions, DoorInput };
+export { MAX_OUTBOX_ATTEMPTS };
@@ -0,0 +1,61 @@
+// 🔧 InspecDoor Sync-Richtlinie - Fotos & Pläne nur über WLAN
+// Verbindungsart über die Network Information API, sofern der Browser sie kennt
+
+import type { SyncPolicy } from './offlineDB';
+
+export const DEFAULT_SYNC_POLICY: SyncPolicy = {
+  photos_unmetered_only: false,
+  plans_unmetered_only: false,
+  always_metered: false
+};
+
+export type SyncPolicyTarget = 'photos' | 'plans';
+
+// Network Information API fehlt in lib.dom (Chrome/Android, nicht Safari)
+interface NetworkInformation extends EventTarget {
+  readonly type?: string;
+  readonly saveData?: boolean;
+}
+
+export function getNetworkConnection(): NetworkInformation | undefined {
+  if (typeof navigator === 'undefined') return undefined;
+  return (navigator as Navigator & { connection?: NetworkInformation }).connection;
+}
+
+// true = getaktet, false = WLAN/LAN, null = nicht erkennbar
+export function isMeteredConnection(policy: SyncPolicy): boolean | null {
+  if (policy.always_metered) return true;
+
+  const connection = getNetworkConnection();
+  if (!connection) return null;
+  if (connection.saveData) return true;
+
+  switch (connection.type) {
+    case 'wifi':
+    case 'ethernet':
+      return false;
+    case 'cellular':
+    case 'bluetooth':
+    case 'wimax':
+      return true;
+    default:
+      return null;
+  }
+}
+
+// Grund fürs Zurückhalten oder null. Nicht erkennbare Verbindungen gelten
+// als frei - für Tablets ohne API gibt es den Schalter "always_metered".
+export function getHoldBackReason(target: SyncPolicyTarget, policy: SyncPolicy): string | null {
+  const unmeteredOnly = target === 'photos' ? policy.photos_unmetered_only : policy.plans_unmetered_only;
+  if (!unmeteredOnly || isMeteredConnection(policy) !== true) return null;
+
+  const label = target === 'photos' ? 'Fotos warten' : 'Pläne warten';
+
+  if (policy.always_metered) {
+    return `${label} auf WLAN (Tablet als mobil eingestellt)`;
+  }
+  if (getNetworkConnection()?.saveData) {
+    return `${label} auf WLAN (Datensparmodus aktiv)`;
+  }
+  return `${label} auf WLAN (mobile Datenverbindung)`;
+}
@@ -0,0 +1,37 @@
+// 🔧 InspecDoor UUIDs - Server-kompatible IDs direkt auf dem Tablet
+// Offline erzeugte Datensätze behalten ihre ID auch nach dem Upload
+
+export function generateUUID(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  // Fallback für ältere WebViews ohne randomUUID (RFC 4122, Version 4)
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+  const hex: string[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    hex.push((bytes[i] + 0x100).toString(16).substr(1));
+  }
+
+  return [
+    hex.slice(0, 4).join(''),
+    hex.slice(4, 6).join(''),
+    hex.slice(6, 8).join(''),
+    hex.slice(8, 10).join(''),
+    hex.slice(10, 16).join('')
+  ].join('-');
+}
+
+export function isLegacyOfflineId(id: string): boolean {
+  return id.indexOf('offline_') === 0;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUUID(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
@@ -0,0 +1,36 @@
+// 🔧 InspecDoor Prüfbesuche - Prüfungen eines Kunden/Objekts an einem Tag
+// Reine Hilfsfunktionen, keine Datenbankzugriffe
+
+import { format } from 'date-fns';
+import type { Door, Inspection } from './offlineDB';
+
+interface Visit {
+  customerId: string;
+  siteId?: string; // Ohne Objekt: alle Türen des Kunden
+  day: string;     // yyyy-MM-dd, lokale Zeit des Tablets
+}
+
+// Unterschriebene Prüfungen sind abgenommen und dürfen nicht mehr geändert werden
+export function isInspectionSigned(inspection: Inspection): boolean {
+  return !!inspection.signed_at;
+}
+
+export function getInspectionDay(inspection: Inspection): string {
+  return format(new Date(inspection.inspection_date), 'yyyy-MM-dd');
+}
+
+export function getVisitInspections(visit: Visit, doors: Door[], inspections: Inspection[]): Inspection[] {
+  const doorsById: { [doorId: string]: Door } = {};
+  doors
+    .filter(door => door.customer_id === visit.customerId && (!visit.siteId || door.site_id === visit.siteId))
+    .forEach(door => { doorsById[door.id] = door; });
+
+  return inspections
+    .filter(inspection => !!doorsById[inspection.door_id] && getInspectionDay(inspection) === visit.day)
+    .sort((a, b) =>
+      (doorsById[a.door_id].door_number || '').localeCompare(doorsById[b.door_id].door_number || '', 'de', { numeric: true }) ||
+      a.inspection_date.localeCompare(b.inspection_date)
+    );
+}
+
+export type { Visit };
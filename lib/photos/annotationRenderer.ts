@@ -0,0 +1,129 @@
+// 🔧 InspecDoor Annotation Renderer - Pfeile, Kreise, Freihand, Text
+// Wird vom Editor (Live-Vorschau) und beim Upload (flaches Bild) genutzt
+
+import type { AnnotationPoint, OfflinePhoto, PhotoAnnotation } from '../db/offlineDB';
+import { canvasToBlob, createCanvas, loadImage, releaseImage } from './imageProcessing';
+
+// Strichstärke & Schriftgröße skalieren mit der Bildbreite
+const strokeWidthFor = (width: number) => Math.max(3, Math.round(width * 0.006));
+const fontSizeFor = (width: number) => Math.max(14, Math.round(width * 0.035));
+
+type DrawingContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+function toCanvas(point: AnnotationPoint, width: number, height: number): { x: number; y: number } {
+  return { x: point.x * width, y: point.y * height };
+}
+
+function drawArrow(
+  context: DrawingContext,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  headLength: number
+): void {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+
+  context.beginPath();
+  context.moveTo(from.x, from.y);
+  context.lineTo(to.x, to.y);
+  context.stroke();
+
+  context.beginPath();
+  context.moveTo(to.x, to.y);
+  context.lineTo(to.x - headLength * Math.cos(angle - Math.PI / 6), to.y - headLength * Math.sin(angle - Math.PI / 6));
+  context.lineTo(to.x - headLength * Math.cos(angle + Math.PI / 6), to.y - headLength * Math.sin(angle + Math.PI / 6));
+  context.closePath();
+  context.fill();
+}
+
+// ================================================================
+// ANMERKUNGEN ZEICHNEN
+// ================================================================
+
+export function drawAnnotations(
+  context: DrawingContext,
+  annotations: PhotoAnnotation[],
+  width: number,
+  height: number
+): void {
+  const lineWidth = strokeWidthFor(width);
+  const fontSize = fontSizeFor(width);
+
+  context.save();
+  context.lineWidth = lineWidth;
+  context.lineCap = 'round';
+  context.lineJoin = 'round';
+
+  annotations.forEach(annotation => {
+    context.strokeStyle = annotation.color;
+    context.fillStyle = annotation.color;
+
+    switch (annotation.type) {
+      case 'arrow':
+        drawArrow(
+          context,
+          toCanvas(annotation.from, width, height),
+          toCanvas(annotation.to, width, height),
+          lineWidth * 5
+        );
+        break;
+
+      case 'circle': {
+        const center = toCanvas(annotation.center, width, height);
+        context.beginPath();
+        context.arc(center.x, center.y, annotation.radius * width, 0, Math.PI * 2);
+        context.stroke();
+        break;
+      }
+
+      case 'freehand':
+        if (annotation.points.length < 2) break;
+        context.beginPath();
+        annotation.points.forEach((point, index) => {
+          const { x, y } = toCanvas(point, width, height);
+          if (index === 0) context.moveTo(x, y);
+          else context.lineTo(x, y);
+        });
+        context.stroke();
+        break;
+
+      case 'text': {
+        const position = toCanvas(annotation.position, width, height);
+        context.font = `bold ${fontSize}px sans-serif`;
+        context.textBaseline = 'middle';
+        // Weiße Kontur für Lesbarkeit auf jedem Untergrund
+        context.lineWidth = Math.max(2, fontSize / 6);
+        context.strokeStyle = '#ffffff';
+        context.strokeText(annotation.text, position.x, position.y);
+        context.fillText(annotation.text, position.x, position.y);
+        context.lineWidth = lineWidth;
+        break;
+      }
+    }
+  });
+
+  context.restore();
+}
+
+// ================================================================
+// FLACHES BILD FÜR DEN UPLOAD
+// ================================================================
+
+export async function renderAnnotatedPhoto(photo: OfflinePhoto, quality = 0.85): Promise<Blob> {
+  const image = await loadImage(photo.blob);
+
+  try {
+    const canvas = createCanvas(image.width, image.height);
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas wird nicht unterstützt');
+    }
+
+    context.drawImage(image, 0, 0, image.width, image.height);
+    drawAnnotations(context, photo.annotations || [], image.width, image.height);
+
+    return await canvasToBlob(canvas, 'image/jpeg', quality);
+  } finally {
+    releaseImage(image);
+  }
+}
@@ -0,0 +1,154 @@
+// 🔧 InspecDoor Image Processing - Fotos vor dem Speichern verkleinern
+// Spart Speicherplatz auf dem Tablet und Datenvolumen beim Evening Upload
+
+interface PhotoProcessingOptions {
+  maxDimension: number;       // Längste Kante des gespeicherten Fotos in px
+  quality: number;            // JPEG-Qualität 0..1
+  thumbnailDimension: number; // Längste Kante der Vorschau in px
+  thumbnailQuality: number;
+  mimeType: string;
+}
+
+interface ProcessedPhoto {
+  blob: Blob;
+  thumbnail: Blob;
+  width: number;
+  height: number;
+  mimeType: string;
+}
+
+// Über NEXT_PUBLIC_* pro Deployment anpassbar
+export const DEFAULT_PHOTO_OPTIONS: PhotoProcessingOptions = {
+  maxDimension: Number(process.env.NEXT_PUBLIC_PHOTO_MAX_DIMENSION) || 1920,
+  quality: Number(process.env.NEXT_PUBLIC_PHOTO_QUALITY) || 0.8,
+  thumbnailDimension: 320,
+  thumbnailQuality: 0.6,
+  mimeType: 'image/jpeg'
+};
+
+// ================================================================
+// BILD LADEN
+// ================================================================
+
+export async function loadImage(blob: Blob): Promise<CanvasImageSource & { width: number; height: number }> {
+  // createImageBitmap berücksichtigt die EXIF-Orientierung der Kamera
+  if (typeof createImageBitmap === 'function') {
+    return await createImageBitmap(blob);
+  }
+
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const image = new Image();
+
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Foto konnte nicht gelesen werden'));
+    };
+    image.src = url;
+  });
+}
+
+// ImageBitmaps belegen Grafikspeicher bis sie explizit freigegeben werden
+export function releaseImage(image: CanvasImageSource): void {
+  if ('close' in image && typeof image.close === 'function') {
+    image.close();
+  }
+}
+
+// ================================================================
+// SKALIEREN & NEU KODIEREN
+// ================================================================
+
+function fitDimensions(width: number, height: number, maxDimension: number): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.round(width * scale),
+    height: Math.round(height * scale)
+  };
+}
+
+// Im Service Worker gibt es kein document - dort OffscreenCanvas verwenden
+export function createCanvas(width: number, height: number): HTMLCanvasElement | OffscreenCanvas {
+  if (typeof document === 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+export function canvasToBlob(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  mimeType: string,
+  quality: number
+): Promise<Blob> {
+  if (!('toBlob' in canvas)) {
+    return canvas.convertToBlob({ type: mimeType, quality });
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => blob ? resolve(blob) : reject(new Error('Foto konnte nicht komprimiert werden')),
+      mimeType,
+      quality
+    );
+  });
+}
+
+async function renderToBlob(
+  image: CanvasImageSource,
+  width: number,
+  height: number,
+  mimeType: string,
+  quality: number
+): Promise<Blob> {
+  const canvas = createCanvas(width, height);
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas wird nicht unterstützt');
+  }
+
+  context.drawImage(image, 0, 0, width, height);
+  return await canvasToBlob(canvas, mimeType, quality);
+}
+
+export async function processPhoto(
+  source: Blob,
+  options: Partial<PhotoProcessingOptions> = {}
+): Promise<ProcessedPhoto> {
+  const settings = { ...DEFAULT_PHOTO_OPTIONS, ...options };
+  const image = await loadImage(source);
+
+  try {
+    const full = fitDimensions(image.width, image.height, settings.maxDimension);
+    const thumb = fitDimensions(image.width, image.height, settings.thumbnailDimension);
+
+    const blob = await renderToBlob(image, full.width, full.height, settings.mimeType, settings.quality);
+    const thumbnail = await renderToBlob(image, thumb.width, thumb.height, settings.mimeType, settings.thumbnailQuality);
+
+    return {
+      blob,
+      thumbnail,
+      width: full.width,
+      height: full.height,
+      mimeType: settings.mimeType
+    };
+  } finally {
+    releaseImage(image);
+  }
+}
+
+export function replaceFileExtension(filename: string, mimeType: string): string {
+  const extension = mimeType === 'image/png' ? 'png' : mimeType === 'image/webp' ? 'webp' : 'jpg';
+  const baseName = filename.replace(/\.[^./]+$/, '');
+  return `${baseName || 'foto'}.${extension}`;
+}
+
+export type { PhotoProcessingOptions, ProcessedPhoto };
@@ -0,0 +1,120 @@
+// 🔧 InspecDoor Resumable Upload - Tests gegen einen TUS-Server im Speicher
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { resumableUpload, type ResumableUploadOptions, type ResumableUploadState } from './resumableUpload';
+
+const ENDPOINT = 'https://example.supabase.co/storage/v1/upload/resumable';
+const UPLOAD_URL = `${ENDPOINT}/upload-1`;
+
+interface PatchCall {
+  offset: number;
+  size: number;
+}
+
+// Minimaler TUS-Server: ein Upload, PATCH kann nach `dropAfter` Bytes abbrechen
+function createTusServer(dropAfter: number[] = []) {
+  let offset = 0;
+  const patches: PatchCall[] = [];
+
+  const fetchMock = vi.fn(async (url: string, init: RequestInit = {}) => {
+    const headers = init.headers as { [name: string]: string };
+
+    if (init.method === 'POST') {
+      return new Response(null, { status: 201, headers: { Location: UPLOAD_URL } });
+    }
+
+    expect(url).toBe(UPLOAD_URL);
+
+    if (init.method === 'HEAD') {
+      return new Response(null, { status: 200, headers: { 'Upload-Offset': String(offset) } });
+    }
+
+    const body = init.body as Blob;
+    const requestOffset = Number(headers['Upload-Offset']);
+    patches.push({ offset: requestOffset, size: body.size });
+
+    if (requestOffset !== offset) {
+      return new Response(null, { status: 409 });
+    }
+
+    // Verbindung bricht ab - der Server hat bis dahin einen Teil gespeichert
+    const drop = dropAfter.shift();
+    if (drop !== undefined) {
+      offset += Math.min(drop, body.size);
+      throw new TypeError('Failed to fetch');
+    }
+
+    offset += body.size;
+    return new Response(null, { status: 204, headers: { 'Upload-Offset': String(offset) } });
+  });
+
+  return { fetchMock, patches, getOffset: () => offset };
+}
+
+function createOptions(states: ResumableUploadState[]): ResumableUploadOptions {
+  return {
+    endpoint: ENDPOINT,
+    headers: { authorization: 'Bearer token', apikey: 'key' },
+    bucket: 'inspection-photos',
+    objectName: 'inspection-1/photo-1.jpg',
+    contentType: 'image/jpeg',
+    onStateChange: async (state) => { states.push(state); }
+  };
+}
+
+const createPhoto = (size: number) => new Blob([new Uint8Array(size)], { type: 'image/jpeg' });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('resumableUpload', () => {
+  it('setzt einen abgebrochenen Einzelblock am bestätigten Stand fort', async () => {
+    const photo = createPhoto(2 * 1024 * 1024);
+    const server = createTusServer([Math.round(photo.size * 0.9)]);
+    vi.stubGlobal('fetch', server.fetchMock);
+
+    const states: ResumableUploadState[] = [];
+    await resumableUpload(photo, createOptions(states));
+
+    expect(server.getOffset()).toBe(photo.size);
+    expect(server.patches).toEqual([
+      { offset: 0, size: photo.size },
+      { offset: Math.round(photo.size * 0.9), size: photo.size - Math.round(photo.size * 0.9) }
+    ]);
+    expect(states.map(state => state.offset)).toEqual([0, Math.round(photo.size * 0.9), photo.size]);
+  });
+
+  it('sichert den Teilstand, wenn der Server nach dem Abbruch nicht erreichbar ist', async () => {
+    const photo = createPhoto(2 * 1024 * 1024);
+    const server = createTusServer([1024 * 1024]);
+    const offline = vi.fn(async (url: string, init: RequestInit = {}) => {
+      if (init.method === 'HEAD') throw new TypeError('Failed to fetch');
+      return server.fetchMock(url, init);
+    });
+    vi.stubGlobal('fetch', offline);
+
+    const states: ResumableUploadState[] = [];
+    await expect(resumableUpload(photo, createOptions(states))).rejects.toThrow('Failed to fetch');
+    expect(states).toEqual([{ uploadUrl: UPLOAD_URL, offset: 0 }]);
+
+    // Nächster Versuch (z. B. nach Reload) fragt den Stand ab und schickt nur den Rest
+    vi.stubGlobal('fetch', server.fetchMock);
+    await resumableUpload(photo, { ...createOptions(states), uploadUrl: UPLOAD_URL });
+
+    expect(server.getOffset()).toBe(photo.size);
+    expect(server.patches[server.patches.length - 1]).toEqual({ offset: 1024 * 1024, size: 1024 * 1024 });
+  });
+
+  it('gibt nach wiederholten Abbrüchen auf und behält den Stand', async () => {
+    const photo = createPhoto(1024 * 1024);
+    const server = createTusServer([0, 0, 0, 0, 0]);
+    vi.stubGlobal('fetch', server.fetchMock);
+
+    const states: ResumableUploadState[] = [];
+    await expect(resumableUpload(photo, createOptions(states))).rejects.toThrow('Failed to fetch');
+
+    expect(server.patches).toHaveLength(4);
+    expect(states[states.length - 1]).toEqual({ uploadUrl: UPLOAD_URL, offset: 0 });
+  });
+});
@@ -0,0 +1,193 @@
+// 🔧 InspecDoor Resumable Upload - TUS-Protokoll für Supabase Storage
+// Abgebrochene Foto-Uploads setzen nach Reload an der letzten bestätigten Stelle fort
+
+const TUS_VERSION = '1.0.0';
+
+// Supabase Storage verlangt feste 6-MB-Blöcke, nur der letzte darf kleiner sein.
+// Kleinere Blöcke gehen also nicht, komprimierte Fotos passen in einen einzigen
+// PATCH. Bricht der ab, fragt der Upload per HEAD den vom Server bestätigten Stand
+// ab und setzt dort fort. Ob Teil-Bytes eines abgebrochenen Blocks erhalten
+// bleiben, entscheidet der Server - schlimmstenfalls beginnt der Block von vorn.
+const CHUNK_SIZE = 6 * 1024 * 1024;
+
+// Direkte neue Versuche nach einem Abbruch, solange der Server erreichbar ist
+const MAX_CHUNK_RETRIES = 3;
+
+interface ResumableUploadState {
+  uploadUrl: string;
+  offset: number;
+}
+
+interface ResumableUploadOptions {
+  endpoint: string;                    // <SUPABASE_URL>/storage/v1/upload/resumable
+  headers: { [name: string]: string }; // authorization, apikey
+  bucket: string;
+  objectName: string;
+  contentType: string;
+  cacheControl?: string;
+  upsert?: boolean;
+  uploadUrl?: string;                  // Gespeicherter Upload aus einem früheren Versuch
+  onStateChange?: (state: ResumableUploadState) => Promise<void>;
+  onProgress?: (bytesUploaded: number, bytesTotal: number) => void;
+}
+
+// TUS-Metadaten: Base64 der UTF-8-Bytes (Dateinamen mit Umlauten)
+function encodeMetadataValue(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  return btoa(String.fromCharCode.apply(null, Array.from(bytes)));
+}
+
+function tusHeaders(options: ResumableUploadOptions): { [name: string]: string } {
+  return { ...options.headers, 'Tus-Resumable': TUS_VERSION };
+}
+
+// ================================================================
+// TUS-SCHRITTE
+// ================================================================
+
+async function createUpload(blob: Blob, options: ResumableUploadOptions): Promise<string> {
+  const metadata: { [key: string]: string } = {
+    bucketName: options.bucket,
+    objectName: options.objectName,
+    contentType: options.contentType,
+    cacheControl: options.cacheControl || '3600'
+  };
+
+  const response = await fetch(options.endpoint, {
+    method: 'POST',
+    headers: {
+      ...tusHeaders(options),
+      'Upload-Length': String(blob.size),
+      'Upload-Metadata': Object.keys(metadata)
+        .map(key => `${key} ${encodeMetadataValue(metadata[key])}`)
+        .join(','),
+      'x-upsert': options.upsert ? 'true' : 'false'
+    }
+  });
+
+  const location = response.headers.get('Location');
+  if (response.status !== 201 || !location) {
+    throw new Error(`Upload konnte nicht angelegt werden (HTTP ${response.status})`);
+  }
+
+  return new URL(location, options.endpoint).toString();
+}
+
+// Bestätigter Stand eines laufenden Uploads; null = abgelaufen/unbekannt
+async function fetchOffset(uploadUrl: string, options: ResumableUploadOptions): Promise<number | null> {
+  const response = await fetch(uploadUrl, {
+    method: 'HEAD',
+    headers: tusHeaders(options)
+  });
+
+  if (response.status === 403 || response.status === 404 || response.status === 410) {
+    return null;
+  }
+
+  const offset = response.headers.get('Upload-Offset');
+  if (!response.ok || offset === null) {
+    throw new Error(`Upload-Stand nicht abrufbar (HTTP ${response.status})`);
+  }
+
+  return Number(offset);
+}
+
+// XHR meldet Byte-Fortschritt; im Service Worker gibt es nur fetch
+function sendChunk(
+  uploadUrl: string,
+  offset: number,
+  chunk: Blob,
+  options: ResumableUploadOptions,
+  onChunkProgress: (loaded: number) => void
+): Promise<number> {
+  const headers = {
+    ...tusHeaders(options),
+    'Upload-Offset': String(offset),
+    'Content-Type': 'application/offset+octet-stream'
+  };
+
+  const readOffset = (status: number, value: string | null): number => {
+    if (status !== 204 || value === null) {
+      throw new Error(`Upload-Block abgelehnt (HTTP ${status})`);
+    }
+    return Number(value);
+  };
+
+  if (typeof XMLHttpRequest === 'undefined') {
+    return fetch(uploadUrl, { method: 'PATCH', headers, body: chunk })
+      .then(response => readOffset(response.status, response.headers.get('Upload-Offset')));
+  }
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PATCH', uploadUrl);
+    Object.keys(headers).forEach(name => xhr.setRequestHeader(name, headers[name as keyof typeof headers]));
+
+    xhr.upload.onprogress = (event) => onChunkProgress(event.loaded);
+    xhr.onload = () => {
+      try {
+        resolve(readOffset(xhr.status, xhr.getResponseHeader('Upload-Offset')));
+      } catch (error) {
+        reject(error);
+      }
+    };
+    xhr.onerror = () => reject(new Error('Verbindung während des Uploads abgebrochen'));
+    xhr.ontimeout = () => reject(new Error('Zeitüberschreitung beim Upload'));
+
+    xhr.send(chunk);
+  });
+}
+
+// ================================================================
+// UPLOAD
+// ================================================================
+
+export async function resumableUpload(blob: Blob, options: ResumableUploadOptions): Promise<void> {
+  const total = blob.size;
+  let uploadUrl = options.uploadUrl;
+  let offset: number | null = null;
+
+  // Früheren Upload fortsetzen, sofern der Server ihn noch kennt
+  if (uploadUrl) {
+    offset = await fetchOffset(uploadUrl, options);
+  }
+
+  if (!uploadUrl || offset === null) {
+    uploadUrl = await createUpload(blob, options);
+    offset = 0;
+    await options.onStateChange?.({ uploadUrl, offset });
+  }
+
+  options.onProgress?.(offset, total);
+
+  let retries = 0;
+  while (offset < total) {
+    const chunkStart: number = offset;
+    const chunk = blob.slice(chunkStart, Math.min(chunkStart + CHUNK_SIZE, total));
+
+    try {
+      offset = await sendChunk(uploadUrl, chunkStart, chunk, options, (loaded) =>
+        options.onProgress?.(Math.min(chunkStart + loaded, total), total)
+      );
+      retries = 0;
+    } catch (error) {
+      // Abbruch mitten im Block: Was hat der Server davon schon gespeichert?
+      const confirmed = await fetchOffset(uploadUrl, options).catch(() => null);
+      if (confirmed === null) throw error;
+
+      offset = confirmed;
+      await options.onStateChange?.({ uploadUrl, offset });
+      options.onProgress?.(offset, total);
+
+      retries++;
+      if (retries > MAX_CHUNK_RETRIES) throw error;
+      continue;
+    }
+
+    // Nach jedem Block sichern - ein Reload setzt hier wieder an
+    await options.onStateChange?.({ uploadUrl, offset });
+    options.onProgress?.(offset, total);
+  }
+}
+
+export type { ResumableUploadOptions, ResumableUploadState };
@@ -0,0 +1,90 @@
+// 🔧 InspecDoor Plandateien - Gebäudepläne für den Offline-Viewer aufbereiten
+// Bilder werden unverändert gespeichert, PDFs einmalig (Seite 1) als PNG gerendert.
+// So braucht der Viewer vor Ort weder pdf.js noch Netz.
+
+import { canvasToBlob, loadImage, releaseImage } from '../photos/imageProcessing';
+import type { Plan, PlanFile } from '../db/offlineDB';
+
+// Lange Kante des gerenderten PDFs - genug für Raumnummern beim Hineinzoomen
+const PDF_RENDER_MAX_DIMENSION = Number(process.env.NEXT_PUBLIC_PLAN_MAX_DIMENSION) || 3000;
+
+export function isPdfPlan(plan: Plan, blob: Blob): boolean {
+  return blob.type === 'application/pdf' ||
+    (plan.file_type || '').toLowerCase().indexOf('pdf') !== -1 ||
+    /\.pdf($|\?)/i.test(plan.file_url || '');
+}
+
+async function renderPdfFirstPage(blob: Blob): Promise<{ blob: Blob; width: number; height: number }> {
+  // pdf.js nur laden, wenn tatsächlich ein PDF-Plan kommt
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+      'pdfjs-dist/build/pdf.worker.min.js',
+      import.meta.url
+    ).toString();
+  }
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await blob.arrayBuffer()) }).promise;
+
+  try {
+    const page = await pdf.getPage(1);
+    const baseViewport = page.getViewport({ scale: 1 });
+    const scale = PDF_RENDER_MAX_DIMENSION / Math.max(baseViewport.width, baseViewport.height);
+    const viewport = page.getViewport({ scale });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas wird nicht unterstützt');
+    }
+
+    // Weißer Hintergrund - transparente PDFs wären sonst auf dunklem Grund unlesbar
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvasContext: context, viewport }).promise;
+
+    return {
+      blob: await canvasToBlob(canvas, 'image/png', 1),
+      width: canvas.width,
+      height: canvas.height
+    };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+export async function preparePlanFile(plan: Plan, source: Blob): Promise<PlanFile> {
+  const cachedAt = new Date().toISOString();
+
+  if (isPdfPlan(plan, source)) {
+    const rendered = await renderPdfFirstPage(source);
+    return {
+      plan_id: plan.id,
+      file_url: plan.file_url || '',
+      blob: rendered.blob,
+      mime_type: 'image/png',
+      width: rendered.width,
+      height: rendered.height,
+      source_type: 'pdf',
+      cached_at: cachedAt
+    };
+  }
+
+  const image = await loadImage(source);
+  const { width, height } = image;
+  releaseImage(image);
+
+  return {
+    plan_id: plan.id,
+    file_url: plan.file_url || '',
+    blob: source,
+    mime_type: source.type || 'image/png',
+    width,
+    height,
+    source_type: 'image',
+    cached_at: cachedAt
+  };
+}
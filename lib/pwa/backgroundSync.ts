@@ -0,0 +1,63 @@
+// 🔧 InspecDoor Background Sync - Outbox auch bei geschlossener PWA leeren
+// Fenster melden Sync-Tags an, der Service Worker (app/sw.ts) arbeitet sie ab
+
+export const OUTBOX_SYNC_TAG = 'inspecdoor-outbox';
+
+// Browser drosseln das Intervall je nach Nutzung der installierten PWA
+const PERIODIC_SYNC_MIN_INTERVAL_MS = 15 * 60 * 1000;
+
+// Background Sync und Periodic Background Sync fehlen noch in lib.dom
+interface SyncCapabilities {
+  sync?: {
+    register(tag: string): Promise<void>;
+  };
+  periodicSync?: {
+    register(tag: string, options?: { minInterval: number }): Promise<void>;
+  };
+}
+
+type SyncCapableRegistration = ServiceWorkerRegistration & SyncCapabilities;
+
+async function getRegistration(): Promise<SyncCapableRegistration | undefined> {
+  if (typeof window === 'undefined' || !('serviceWorker' in navigator)) {
+    return undefined;
+  }
+
+  // getRegistration() statt ready: ohne Service Worker (Dev) nicht ewig warten
+  return await navigator.serviceWorker.getRegistration() as SyncCapableRegistration | undefined;
+}
+
+// Einmaliger Sync, sobald das Gerät wieder online ist
+export async function requestOutboxSync(): Promise<boolean> {
+  try {
+    const registration = await getRegistration();
+    if (!registration?.sync) return false;
+
+    await registration.sync.register(OUTBOX_SYNC_TAG);
+    return true;
+  } catch (error) {
+    console.warn('Background Sync nicht verfügbar:', error);
+    return false;
+  }
+}
+
+// Regelmäßiger Sync - nur für installierte PWAs mit erteilter Berechtigung
+export async function registerPeriodicOutboxSync(): Promise<boolean> {
+  try {
+    const registration = await getRegistration();
+    if (!registration?.periodicSync) return false;
+
+    const permission = await navigator.permissions.query({
+      name: 'periodic-background-sync' as PermissionName
+    });
+    if (permission.state !== 'granted') return false;
+
+    await registration.periodicSync.register(OUTBOX_SYNC_TAG, {
+      minInterval: PERIODIC_SYNC_MIN_INTERVAL_MS
+    });
+    return true;
+  } catch (error) {
+    console.warn('Periodic Background Sync nicht verfügbar:', error);
+    return false;
+  }
+}
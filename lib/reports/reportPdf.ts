@@ -0,0 +1,550 @@
+// 🔧 InspecDoor Prüfbericht - PDF direkt auf dem Tablet erzeugen
+// Alle Inhalte (Stammdaten, Checklisten, Fotos, Unterschrift) kommen aus
+// IndexedDB; das Logo liegt im Precache des Service Workers. Kein Netz nötig.
+
+import { format } from 'date-fns';
+import { getDefects } from '../db/checklists';
+import { drawAnnotations } from '../photos/annotationRenderer';
+import { canvasToBlob, createCanvas, loadImage, releaseImage } from '../photos/imageProcessing';
+import { SIGNATURE_HEIGHT, SIGNATURE_WIDTH } from '../signatures/signatureImage';
+import type { jsPDF } from 'jspdf';
+import type {
+  ChecklistItemResult,
+  Customer,
+  DefectSeverity,
+  DeliveryLocation,
+  Door,
+  Inspection,
+  InspectionStatus,
+  OfflinePhoto,
+  Signature,
+  Site
+} from '../db/offlineDB';
+
+interface ReportDoorSection {
+  door: Door;
+  inspection: Inspection;
+  photos: OfflinePhoto[];
+  signature: Signature | null;
+}
+
+interface ReportContent {
+  customer: Customer;
+  site?: Site;
+  deliveryLocation?: DeliveryLocation;
+  day: string; // yyyy-MM-dd
+  sections: ReportDoorSection[];
+  createdAt: string;
+}
+
+interface ReportImage {
+  data: Uint8Array;
+  format: 'JPEG' | 'PNG';
+  width: number;
+  height: number;
+}
+
+const COMPANY_NAME = process.env.NEXT_PUBLIC_COMPANY_NAME || 'Metallbau Steffens';
+const LOGO_URL = '/inspecdoor-logo.svg';
+
+// Fotos im Bericht verkleinern - sonst wird das PDF zum Teilen zu groß
+const REPORT_PHOTO_MAX_DIMENSION = 1000;
+const REPORT_PHOTO_QUALITY = 0.7;
+
+// A4 hoch, alle Maße in mm
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const HEADER_HEIGHT = 22;
+const FOOTER_HEIGHT = 12;
+const PHOTO_GAP = 4;
+const PHOTO_MAX_HEIGHT = 65;
+
+// Standardschriften kennen keine Emojis - eigene Texte statt der UI-Labels
+const RESULT_TEXT: Record<ChecklistItemResult, string> = {
+  ok: 'i.O.',
+  defect: 'Mangel',
+  not_applicable: 'n.a.'
+};
+
+const SEVERITY_TEXT: Record<DefectSeverity, string> = {
+  minor: 'gering',
+  major: 'erheblich',
+  critical: 'gefährlich'
+};
+
+const STATUS_TEXT: Record<InspectionStatus, string> = {
+  pending: 'Prüfung nicht abgeschlossen',
+  completed: 'Bestanden',
+  failed: 'Mängel festgestellt'
+};
+
+type Rgb = [number, number, number];
+
+const TEXT_COLOR: Rgb = [17, 24, 39];
+const MUTED_COLOR: Rgb = [107, 114, 128];
+const BRAND_COLOR: Rgb = [37, 99, 235];
+const DEFECT_COLOR: Rgb = [185, 28, 28];
+const OK_COLOR: Rgb = [21, 128, 61];
+const RULE_COLOR: Rgb = [229, 231, 235];
+
+const STATUS_COLOR: Record<InspectionStatus, Rgb> = {
+  pending: MUTED_COLOR,
+  completed: OK_COLOR,
+  failed: DEFECT_COLOR
+};
+
+const formatDay = (day: string): string => format(new Date(`${day}T00:00:00`), 'dd.MM.yyyy');
+const formatDateTime = (isoString: string): string => format(new Date(isoString), 'dd.MM.yyyy HH:mm');
+
+// ================================================================
+// BILDER VORBEREITEN
+// ================================================================
+
+async function blobToBytes(blob: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+// SVGs lassen sich nicht per createImageBitmap dekodieren - über ein <img> rastern
+async function loadLogo(size = 400): Promise<ReportImage | null> {
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Logo konnte nicht geladen werden'));
+      image.src = LOGO_URL;
+    });
+
+    const canvas = createCanvas(size, size);
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    context.drawImage(image, 0, 0, size, size);
+    return {
+      data: await blobToBytes(await canvasToBlob(canvas, 'image/png', 1)),
+      format: 'PNG',
+      width: size,
+      height: size
+    };
+  } catch (error) {
+    // Bericht lieber ohne Logo als gar nicht
+    console.warn('Report logo unavailable:', error);
+    return null;
+  }
+}
+
+// Foto samt Markierungen verkleinert als JPEG einbetten
+async function preparePhoto(photo: OfflinePhoto): Promise<ReportImage | null> {
+  try {
+    const image = await loadImage(photo.blob);
+
+    try {
+      const scale = Math.min(1, REPORT_PHOTO_MAX_DIMENSION / Math.max(image.width, image.height));
+      const width = Math.round(image.width * scale);
+      const height = Math.round(image.height * scale);
+
+      const canvas = createCanvas(width, height);
+      const context = canvas.getContext('2d');
+      if (!context) return null;
+
+      context.drawImage(image, 0, 0, width, height);
+      drawAnnotations(context, photo.annotations || [], width, height);
+
+      return {
+        data: await blobToBytes(await canvasToBlob(canvas, 'image/jpeg', REPORT_PHOTO_QUALITY)),
+        format: 'JPEG',
+        width,
+        height
+      };
+    } finally {
+      releaseImage(image);
+    }
+  } catch (error) {
+    console.warn('Report photo skipped:', photo.id, error);
+    return null;
+  }
+}
+
+async function prepareSignature(signature: Signature): Promise<ReportImage> {
+  return {
+    data: await blobToBytes(signature.blob),
+    format: 'PNG',
+    width: SIGNATURE_WIDTH,
+    height: SIGNATURE_HEIGHT
+  };
+}
+
+// ================================================================
+// SEITENAUFBAU
+// ================================================================
+
+class ReportLayout {
+  private y = MARGIN + HEADER_HEIGHT;
+
+  constructor(
+    private doc: jsPDF,
+    private logo: ReportImage | null,
+    private title: string
+  ) {
+    this.drawHeader();
+  }
+
+  private drawHeader(): void {
+    const { doc } = this;
+
+    if (this.logo) {
+      doc.addImage(this.logo.data, this.logo.format, MARGIN, MARGIN - 3, 14, 14);
+    }
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    this.setColor(BRAND_COLOR);
+    doc.text('Prüfbericht', MARGIN + 18, MARGIN + 3);
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    this.setColor(MUTED_COLOR);
+    doc.text(this.title, MARGIN + 18, MARGIN + 8);
+    doc.text(COMPANY_NAME, PAGE_WIDTH - MARGIN, MARGIN + 3, { align: 'right' });
+
+    doc.setDrawColor(...BRAND_COLOR);
+    doc.setLineWidth(0.5);
+    doc.line(MARGIN, MARGIN + 13, PAGE_WIDTH - MARGIN, MARGIN + 13);
+  }
+
+  private setColor(color: Rgb): void {
+    this.doc.setTextColor(...color);
+  }
+
+  // Neue Seite, wenn der Block nicht mehr passt
+  ensureSpace(height: number): void {
+    if (this.y + height <= PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT) return;
+
+    this.doc.addPage();
+    this.drawHeader();
+    this.y = MARGIN + HEADER_HEIGHT;
+  }
+
+  newPage(): void {
+    this.ensureSpace(PAGE_HEIGHT);
+  }
+
+  space(height: number): void {
+    this.y += height;
+  }
+
+  heading(text: string, size = 13): void {
+    this.ensureSpace(14);
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(size);
+    this.setColor(TEXT_COLOR);
+    this.doc.text(text, MARGIN, this.y + 5);
+    this.y += 8;
+  }
+
+  subheading(text: string): void {
+    this.ensureSpace(12);
+    this.y += 2;
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(10);
+    this.setColor(TEXT_COLOR);
+    this.doc.text(text, MARGIN, this.y + 4);
+    this.y += 6;
+  }
+
+  paragraph(text: string, options: { color?: Rgb; bold?: boolean; size?: number; indent?: number } = {}): void {
+    const size = options.size || 9;
+    const indent = options.indent || 0;
+    const lineHeight = size * 0.45;
+
+    this.doc.setFont('helvetica', options.bold ? 'bold' : 'normal');
+    this.doc.setFontSize(size);
+    this.setColor(options.color || TEXT_COLOR);
+
+    const lines: string[] = this.doc.splitTextToSize(text, CONTENT_WIDTH - indent);
+    lines.forEach(line => {
+      this.ensureSpace(lineHeight);
+      this.doc.text(line, MARGIN + indent, this.y + lineHeight * 0.8);
+      this.y += lineHeight;
+    });
+  }
+
+  // Zweispaltige Angaben wie "Objekt: ..."
+  fields(entries: [string, string | undefined][]): void {
+    const labelWidth = 32;
+
+    entries
+      .filter((entry): entry is [string, string] => !!entry[1])
+      .forEach(([label, value]) => {
+        this.doc.setFontSize(9);
+        const lines: string[] = this.doc.splitTextToSize(value, CONTENT_WIDTH - labelWidth);
+        const height = lines.length * 4.2;
+        this.ensureSpace(height);
+
+        this.doc.setFont('helvetica', 'normal');
+        this.setColor(MUTED_COLOR);
+        this.doc.text(label, MARGIN, this.y + 3.4);
+        this.setColor(TEXT_COLOR);
+        this.doc.text(lines, MARGIN + labelWidth, this.y + 3.4);
+        this.y += height;
+      });
+  }
+
+  // Prüfpunkt links, Ergebnis rechtsbündig; Mängel rot mit Schwere und Kommentar
+  checklistRow(label: string, result: string, color: Rgb, detail?: string): void {
+    const resultWidth = 40;
+
+    this.doc.setFont('helvetica', 'normal');
+    this.doc.setFontSize(9);
+    const lines: string[] = this.doc.splitTextToSize(label, CONTENT_WIDTH - resultWidth);
+    const detailLines: string[] = detail ? this.doc.splitTextToSize(detail, CONTENT_WIDTH - resultWidth - 4) : [];
+    const height = (lines.length + detailLines.length) * 4.2 + 1.5;
+    this.ensureSpace(height);
+
+    this.setColor(TEXT_COLOR);
+    this.doc.text(lines, MARGIN, this.y + 3.4);
+
+    this.doc.setFont('helvetica', 'bold');
+    this.setColor(color);
+    this.doc.text(result, PAGE_WIDTH - MARGIN, this.y + 3.4, { align: 'right' });
+
+    if (detailLines.length > 0) {
+      this.doc.setFont('helvetica', 'italic');
+      this.doc.text(detailLines, MARGIN + 4, this.y + 3.4 + lines.length * 4.2);
+    }
+
+    this.y += height - 0.75;
+    this.doc.setDrawColor(...RULE_COLOR);
+    this.doc.setLineWidth(0.2);
+    this.doc.line(MARGIN, this.y, PAGE_WIDTH - MARGIN, this.y);
+    this.y += 0.75;
+  }
+
+  // Zwei Fotos nebeneinander, Höhe nach Seitenverhältnis
+  photos(images: ReportImage[]): void {
+    const cellWidth = (CONTENT_WIDTH - PHOTO_GAP) / 2;
+
+    for (let i = 0; i < images.length; i += 2) {
+      const row = images.slice(i, i + 2).map(image => {
+        const scale = Math.min(cellWidth / image.width, PHOTO_MAX_HEIGHT / image.height);
+        return { image, width: image.width * scale, height: image.height * scale };
+      });
+      const rowHeight = Math.max(...row.map(cell => cell.height));
+
+      this.ensureSpace(rowHeight + PHOTO_GAP);
+      row.forEach((cell, index) => {
+        const x = MARGIN + index * (cellWidth + PHOTO_GAP);
+        this.doc.addImage(cell.image.data, cell.image.format, x, this.y, cell.width, cell.height);
+      });
+      this.y += rowHeight + PHOTO_GAP;
+    }
+  }
+
+  signature(image: ReportImage | null, caption: string): void {
+    const width = 60;
+    const height = image ? width * image.height / image.width : 0;
+    this.ensureSpace(height + 8);
+
+    if (image) {
+      this.doc.addImage(image.data, image.format, MARGIN, this.y, width, height);
+      this.y += height;
+    }
+
+    this.doc.setDrawColor(...MUTED_COLOR);
+    this.doc.setLineWidth(0.3);
+    this.doc.line(MARGIN, this.y, MARGIN + width, this.y);
+    this.doc.setFont('helvetica', 'normal');
+    this.doc.setFontSize(8);
+    this.setColor(MUTED_COLOR);
+    this.doc.text(caption, MARGIN, this.y + 4);
+    this.y += 8;
+  }
+
+  // Seitenzahlen erst am Ende - vorher steht die Gesamtzahl nicht fest
+  drawFooters(left: string): void {
+    const pageCount = this.doc.getNumberOfPages();
+
+    for (let page = 1; page <= pageCount; page++) {
+      this.doc.setPage(page);
+      this.doc.setFont('helvetica', 'normal');
+      this.doc.setFontSize(8);
+      this.setColor(MUTED_COLOR);
+      this.doc.text(left, MARGIN, PAGE_HEIGHT - MARGIN);
+      this.doc.text(`Seite ${page} von ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN, { align: 'right' });
+    }
+  }
+}
+
+// ================================================================
+// BERICHT ERZEUGEN
+// ================================================================
+
+const joinAddress = (address?: string, postalCode?: string, city?: string): string | undefined =>
+  [address, [postalCode, city].filter(Boolean).join(' ')].filter(Boolean).join(', ') || undefined;
+
+export function getReportFileName(customer: Customer, day: string, site?: Site): string {
+  const name = [customer.name, site?.site_name]
+    .filter(Boolean)
+    .join(' ')
+    .replace(/[^A-Za-z0-9ÄÖÜäöüß]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  return `Pruefbericht_${name || 'Kunde'}_${day}.pdf`;
+}
+
+async function writeDoorSection(layout: ReportLayout, section: ReportDoorSection): Promise<void> {
+  const { door, inspection } = section;
+  const checklist = inspection.checklist || [];
+  const defects = getDefects(checklist);
+
+  layout.ensureSpace(40);
+  layout.heading(`Tür ${door.door_number || 'ohne Nummer'} – ${door.location}`, 12);
+  layout.fields([
+    ['Türtyp', door.door_type],
+    ['Hersteller/Modell', [door.manufacturer, door.model].filter(Boolean).join(' ') || undefined],
+    ['Baujahr', door.year],
+    ['Geprüft', `${formatDateTime(inspection.inspection_date)} von ${inspection.inspector_name}`]
+  ]);
+  layout.paragraph(`Ergebnis: ${STATUS_TEXT[inspection.status]}`, {
+    bold: true,
+    size: 10,
+    color: STATUS_COLOR[inspection.status]
+  });
+
+  if (checklist.length > 0) {
+    layout.subheading('Prüfpunkte');
+    let category: string | undefined;
+
+    checklist.forEach(item => {
+      if (item.category && item.category !== category) {
+        category = item.category;
+        layout.ensureSpace(10);
+        layout.paragraph(category, { bold: true, color: MUTED_COLOR, size: 8 });
+      }
+
+      const color = item.result === 'defect' ? DEFECT_COLOR : item.result === 'ok' ? OK_COLOR : MUTED_COLOR;
+      layout.checklistRow(
+        item.label,
+        item.result ? RESULT_TEXT[item.result] : 'offen',
+        color,
+        item.result === 'defect' ? item.comment : undefined
+      );
+    });
+  }
+
+  layout.subheading(`Mängel (${defects.length})`);
+  if (defects.length === 0) {
+    layout.paragraph('Keine Mängel festgestellt.', { color: OK_COLOR });
+  } else {
+    defects.forEach(item => {
+      const severity = item.severity ? ` (${SEVERITY_TEXT[item.severity]})` : '';
+      layout.paragraph(`• ${item.label}${severity}${item.comment ? ` – ${item.comment}` : ''}`, {
+        color: DEFECT_COLOR,
+        indent: 2
+      });
+    });
+  }
+
+  if (inspection.notes) {
+    layout.subheading('Bemerkungen');
+    layout.paragraph(inspection.notes);
+  }
+
+  if (section.photos.length > 0) {
+    layout.subheading(`Fotos (${section.photos.length})`);
+    const images: ReportImage[] = [];
+    // Nacheinander dekodieren - große Fotos parallel sprengen den Tablet-Speicher
+    for (const photo of section.photos) {
+      const image = await preparePhoto(photo);
+      if (image) images.push(image);
+    }
+    layout.photos(images);
+  }
+
+  layout.subheading('Abnahme');
+  if (section.signature) {
+    layout.signature(
+      await prepareSignature(section.signature),
+      `${section.signature.signer_name}, ${formatDateTime(section.signature.signed_at)}`
+    );
+  } else {
+    layout.paragraph('Nicht durch den Kunden unterschrieben.', { color: MUTED_COLOR });
+  }
+
+  layout.space(6);
+}
+
+export async function buildInspectionReportPdf(content: ReportContent): Promise<Blob> {
+  // jsPDF nur laden, wenn tatsächlich ein Bericht erzeugt wird
+  const { jsPDF: PdfDocument } = await import('jspdf');
+  const doc = new PdfDocument({ unit: 'mm', format: 'a4', compress: true });
+  const { customer, site, deliveryLocation, sections } = content;
+
+  const title = [customer.name, site?.site_name, formatDay(content.day)].filter(Boolean).join(' · ');
+  doc.setProperties({ title: `Prüfbericht ${title}`, author: COMPANY_NAME, creator: 'InspecDoor' });
+
+  const layout = new ReportLayout(doc, await loadLogo(), title);
+
+  // 👤 KUNDE & OBJEKT
+  layout.heading('Kunde');
+  layout.fields([
+    ['Name', customer.name],
+    ['Ansprechpartner', customer.contact_person],
+    ['Telefon', customer.phone],
+    ['E-Mail', customer.email]
+  ]);
+
+  if (site || deliveryLocation) {
+    layout.space(3);
+    layout.heading('Objekt');
+    layout.fields([
+      ['Objekt', site?.site_name],
+      ['Adresse', site ? joinAddress(site.address, site.postal_code, site.city) : undefined],
+      ['Lieferort', deliveryLocation?.location_name],
+      ['Lieferadresse', deliveryLocation?.address]
+    ]);
+  }
+
+  // 📋 ÜBERSICHT
+  const inspectors = sections
+    .map(section => section.inspection.inspector_name)
+    .filter((name, index, names) => !!name && names.indexOf(name) === index);
+  const count = (status: InspectionStatus) =>
+    sections.filter(section => section.inspection.status === status).length;
+
+  layout.space(3);
+  layout.heading('Übersicht');
+  layout.fields([
+    ['Prüfdatum', formatDay(content.day)],
+    ['Prüfer', inspectors.join(', ')],
+    ['Geprüfte Türen', String(sections.length)],
+    ['Bestanden', String(count('completed'))],
+    ['Mit Mängeln', String(count('failed'))],
+    ['Nicht abgeschlossen', count('pending') > 0 ? String(count('pending')) : undefined]
+  ]);
+
+  layout.space(3);
+  sections.forEach(section => {
+    const defectCount = getDefects(section.inspection.checklist || []).length;
+    layout.checklistRow(
+      `Tür ${section.door.door_number || 'ohne Nummer'} – ${section.door.location}`,
+      section.inspection.status === 'pending'
+        ? 'offen'
+        : defectCount > 0 ? `${defectCount} Mängel` : 'i.O.',
+      STATUS_COLOR[section.inspection.status]
+    );
+  });
+
+  // 🚪 EIN ABSCHNITT JE TÜR
+  if (sections.length > 0) layout.newPage();
+  for (const section of sections) {
+    await writeDoorSection(layout, section);
+  }
+
+  layout.drawFooters(`${COMPANY_NAME} · erstellt ${formatDateTime(content.createdAt)}`);
+
+  return doc.output('blob');
+}
+
+export type { ReportContent, ReportDoorSection };
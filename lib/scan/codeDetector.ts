@@ -0,0 +1,82 @@
+// 🔧 InspecDoor Code-Erkennung - QR- und Barcodes aus dem Kamerabild
+// Native BarcodeDetector (Android/Chrome), sonst jsQR im Browser.
+// Beides läuft vollständig auf dem Gerät - kein Netz nötig.
+
+import jsQR from 'jsqr';
+
+// Shape Detection API ist noch nicht Teil der TypeScript-DOM-Typen
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface NativeBarcodeDetector {
+  detect(source: CanvasImageSource): Promise<DetectedBarcode[]>;
+}
+
+interface NativeBarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): NativeBarcodeDetector;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+interface CodeDetector {
+  detect(video: HTMLVideoElement): Promise<string | null>;
+}
+
+// Etiketten sind QR-Codes; Barcodes älterer Etiketten werden mit erkannt
+const WANTED_FORMATS = ['qr_code', 'data_matrix', 'code_128', 'code_39', 'ean_13'];
+
+// Für jsQR genügt ein verkleinertes Bild - spart Rechenzeit auf älteren Tablets
+const FALLBACK_MAX_SIZE = 640;
+
+function getNativeDetector(): NativeBarcodeDetectorConstructor | null {
+  const candidate = (globalThis as unknown as { BarcodeDetector?: NativeBarcodeDetectorConstructor }).BarcodeDetector;
+  return candidate || null;
+}
+
+async function createNativeDetector(): Promise<CodeDetector | null> {
+  const Detector = getNativeDetector();
+  if (!Detector) return null;
+
+  try {
+    const supported = await Detector.getSupportedFormats();
+    const formats = WANTED_FORMATS.filter(format => supported.indexOf(format) !== -1);
+    if (formats.indexOf('qr_code') === -1) return null;
+
+    const detector = new Detector({ formats });
+    return {
+      detect: async (video) => {
+        const codes = await detector.detect(video);
+        return codes.length > 0 ? codes[0].rawValue : null;
+      }
+    };
+  } catch (error) {
+    console.warn('BarcodeDetector unavailable, falling back to jsQR:', error);
+    return null;
+  }
+}
+
+function createFallbackDetector(): CodeDetector {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+
+  return {
+    detect: async (video) => {
+      if (!context || !video.videoWidth) return null;
+
+      const scale = Math.min(1, FALLBACK_MAX_SIZE / Math.max(video.videoWidth, video.videoHeight));
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      const image = context.getImageData(0, 0, canvas.width, canvas.height);
+      const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+      return code ? code.data : null;
+    }
+  };
+}
+
+export async function createCodeDetector(): Promise<CodeDetector> {
+  return (await createNativeDetector()) || createFallbackDetector();
+}
+
+export type { CodeDetector };
@@ -0,0 +1,54 @@
+// 🔧 InspecDoor Tür-Etiketten - Inhalt der QR-Codes und Auflösung zur Tür
+// Etiketten kodieren eine App-URL (https://…/?door=<id>); so öffnet auch die
+// normale Kamera-App die richtige Tür. Ältere Etiketten tragen nur die ID
+// oder die Türnummer - auch die werden erkannt.
+
+import { offlineDB, type Door } from '../db/offlineDB';
+import { isUUID } from '../db/uuid';
+
+export const DOOR_CODE_PARAM = 'door';
+
+type ScannedDoorCode =
+  | { kind: 'id'; doorId: string; raw: string }
+  | { kind: 'text'; text: string; raw: string };
+
+export function buildDoorCodeUrl(doorId: string, origin: string): string {
+  return `${origin}/?${DOOR_CODE_PARAM}=${encodeURIComponent(doorId)}`;
+}
+
+export function parseDoorCode(raw: string): ScannedDoorCode | null {
+  const text = raw.trim();
+  if (!text) return null;
+
+  const match = text.match(new RegExp(`[?&]${DOOR_CODE_PARAM}=([^&#]+)`));
+  if (match) {
+    return { kind: 'id', doorId: decodeURIComponent(match[1]), raw };
+  }
+
+  if (isUUID(text)) {
+    return { kind: 'id', doorId: text.toLowerCase(), raw };
+  }
+
+  return { kind: 'text', text, raw };
+}
+
+const normalizeDoorNumber = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Nur eindeutige Türnummern zählen - bei mehreren Kunden mit "T-1" lieber nachfragen
+export async function findDoorByCode(code: ScannedDoorCode): Promise<Door | null> {
+  await offlineDB.init();
+
+  if (code.kind === 'id') {
+    return offlineDB.getDoor(code.doorId);
+  }
+
+  const wanted = normalizeDoorNumber(code.text);
+  if (!wanted) return null;
+
+  const matches = (await offlineDB.getAllDoors())
+    .filter(door => door.door_number && normalizeDoorNumber(door.door_number) === wanted);
+
+  return matches.length === 1 ? matches[0] : null;
+}
+
+export type { ScannedDoorCode };
@@ -0,0 +1,66 @@
+// 🔧 InspecDoor Etikettenbogen - QR-Etiketten aller Türen eines Kunden
+// Eigenständiges HTML (A4, 3 × 8 Etiketten à 70 × 37 mm, z.B. Zweckform 3475);
+// die QR-Codes sind Inline-SVG, der Bogen lässt sich offline drucken oder exportieren.
+
+import QRCode from 'qrcode';
+import { buildDoorCodeUrl } from './doorCodes';
+import type { Customer, Door } from '../db/offlineDB';
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, char => ({
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;'
+  }[char] as string));
+
+const LABEL_SHEET_STYLES = `
+  @page { size: A4; margin: 0; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: Arial, Helvetica, sans-serif; }
+  .sheet { width: 210mm; padding: 4.5mm 0; display: grid; grid-template-columns: repeat(3, 70mm); grid-auto-rows: 37mm; }
+  .label { display: flex; align-items: center; gap: 2mm; padding: 2mm 3mm; overflow: hidden; break-inside: avoid; }
+  .label svg { width: 30mm; height: 30mm; flex-shrink: 0; }
+  .text { min-width: 0; }
+  .number { font-size: 14pt; font-weight: bold; }
+  .location { font-size: 8pt; margin-top: 1mm; }
+  .customer { font-size: 7pt; color: #555; margin-top: 1mm; }
+`;
+
+export async function buildLabelSheetHtml(customer: Customer, doors: Door[], origin: string): Promise<string> {
+  const sortedDoors = doors
+    .slice()
+    .sort((a, b) => (a.door_number || '').localeCompare(b.door_number || '', 'de', { numeric: true }));
+
+  const labels = await Promise.all(sortedDoors.map(async door => {
+    // Fehlerkorrektur M: Etiketten überstehen Kratzer und Farbe
+    const qrSvg = await QRCode.toString(buildDoorCodeUrl(door.id, origin), {
+      type: 'svg',
+      errorCorrectionLevel: 'M',
+      margin: 0
+    });
+
+    return `
+      <div class="label">
+        ${qrSvg}
+        <div class="text">
+          <div class="number">${escapeHtml(door.door_number || 'Ohne Nummer')}</div>
+          <div class="location">${escapeHtml(door.location)}</div>
+          <div class="customer">${escapeHtml(customer.name)}</div>
+        </div>
+      </div>`;
+  }));
+
+  return `<!DOCTYPE html>
+<html lang="de">
+<head>
+  <meta charset="utf-8">
+  <title>Türetiketten – ${escapeHtml(customer.name)}</title>
+  <style>${LABEL_SHEET_STYLES}</style>
+</head>
+<body>
+  <div class="sheet">${labels.join('')}</div>
+</body>
+</html>`;
+}
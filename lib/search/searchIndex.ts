@@ -0,0 +1,331 @@
+// 🔧 InspecDoor Offline-Suche - Volltextindex über Kunden, Türen und Objekte
+// Präfix- und Fehlertoleranz-Suche mit Umlaut-Normalisierung ("Müller" = "Mueller" = "Muller").
+// Der Index liegt im Speicher und wird bei jeder Änderung an customers/doors/sites
+// neu aufgebaut (auch bei Änderungen aus anderen Tabs oder dem Service Worker).
+
+import { offlineDB, type Customer, type Door, type Site } from '../db/offlineDB';
+
+type SearchResult =
+  | { type: 'customer'; record: Customer; title: string; subtitle: string; score: number }
+  | { type: 'door'; record: Door; title: string; subtitle: string; score: number }
+  | { type: 'site'; record: Site; title: string; subtitle: string; score: number };
+
+type SearchResultType = SearchResult['type'];
+
+// Ein indexiertes Feld mit Gewichtung (Türnummer zählt mehr als Hersteller)
+interface IndexedField {
+  text: string | undefined;
+  weight: number;
+}
+
+interface SearchDocument {
+  result: Omit<SearchResult, 'score'>;
+  tokenWeights: { [token: string]: number };
+}
+
+// Treffergüte je Token: exakt > Präfix > unscharf
+const EXACT_SCORE = 3;
+const PREFIX_SCORE = 2;
+const FUZZY_SCORE = 1;
+
+const STORES = ['customers', 'doors', 'sites'];
+
+// ================================================================
+// NORMALISIERUNG
+// ================================================================
+
+const UMLAUTS: { [char: string]: string } = { ä: 'ae', ö: 'oe', ü: 'ue', ß: 'ss' };
+
+// Kleinschreibung, Umlaute als ae/oe/ue, übrige Akzente entfernt
+export function normalizeSearchText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[äöüß]/g, char => UMLAUTS[char])
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+// "Müller" wird als "mueller" und "muller" indexiert - Tablets ohne
+// Umlaut-Tastatur tippen oft nur den Grundbuchstaben
+function foldUmlautsToBase(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/[^a-z0-9]+/).filter(token => token.length > 0);
+}
+
+function indexTokens(text: string): string[] {
+  const normalized = normalizeSearchText(text);
+  const tokens = tokenize(normalized).concat(tokenize(foldUmlautsToBase(text)));
+
+  // "T-101" auch als "t101" finden
+  const compact = normalized.replace(/[^a-z0-9]+/g, '');
+  if (compact.length > 1) tokens.push(compact);
+
+  return tokens;
+}
+
+// ================================================================
+// UNSCHARFE SUCHE
+// ================================================================
+
+// Erlaubte Tippfehler je nach Wortlänge
+function maxEditsFor(token: string): number {
+  if (token.length < 4) return 0;
+  return token.length < 8 ? 1 : 2;
+}
+
+// Levenshtein mit Abbruch, sobald maxEdits sicher überschritten ist
+function withinEditDistance(a: string, b: string, maxEdits: number): boolean {
+  if (Math.abs(a.length - b.length) > maxEdits) return false;
+
+  let previous: number[] = [];
+  for (let j = 0; j <= b.length; j++) previous.push(j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a.charAt(i - 1) === b.charAt(j - 1) ? 0 : 1;
+      const value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      current.push(value);
+      if (value < rowMin) rowMin = value;
+    }
+
+    if (rowMin > maxEdits) return false;
+    previous = current;
+  }
+
+  return previous[b.length] <= maxEdits;
+}
+
+// ================================================================
+// INDEX
+// ================================================================
+
+class SearchIndex {
+  private documents: SearchDocument[] = [];
+  private postings: { [token: string]: number[] } = {};
+  private sortedTokens: string[] = [];
+
+  constructor(customers: Customer[], doors: Door[], sites: Site[]) {
+    const customerNames: { [customerId: string]: string } = {};
+    customers.forEach(customer => { customerNames[customer.id] = customer.name; });
+
+    customers.forEach(customer => this.addDocument(
+      {
+        type: 'customer',
+        record: customer,
+        title: customer.name,
+        subtitle: [customer.contact_person, customer.phone, customer.email].filter(Boolean).join(' · ')
+      },
+      [
+        { text: customer.name, weight: 3 },
+        { text: customer.contact_person, weight: 2 },
+        { text: customer.email, weight: 1 }
+      ]
+    ));
+
+    doors.forEach(door => this.addDocument(
+      {
+        type: 'door',
+        record: door,
+        title: door.door_number || 'Ohne Nummer',
+        subtitle: [door.location, customerNames[door.customer_id]].filter(Boolean).join(' · ')
+      },
+      [
+        { text: door.door_number, weight: 3 },
+        { text: door.location, weight: 2 },
+        { text: door.manufacturer, weight: 1 },
+        { text: door.model, weight: 1 }
+      ]
+    ));
+
+    sites.forEach(site => this.addDocument(
+      {
+        type: 'site',
+        record: site,
+        title: site.site_name,
+        subtitle: [site.address, [site.postal_code, site.city].filter(Boolean).join(' '), customerNames[site.customer_id]]
+          .filter(Boolean)
+          .join(' · ')
+      },
+      [
+        { text: site.site_name, weight: 3 },
+        { text: site.address, weight: 1 },
+        { text: site.city, weight: 1 },
+        { text: site.postal_code, weight: 1 }
+      ]
+    ));
+
+    this.sortedTokens = Object.keys(this.postings).sort();
+  }
+
+  private addDocument(result: Omit<SearchResult, 'score'>, fields: IndexedField[]): void {
+    const docIndex = this.documents.length;
+    const tokenWeights: { [token: string]: number } = {};
+
+    fields.forEach(field => {
+      if (!field.text) return;
+      indexTokens(field.text).forEach(token => {
+        tokenWeights[token] = Math.max(tokenWeights[token] || 0, field.weight);
+      });
+    });
+
+    Object.keys(tokenWeights).forEach(token => {
+      (this.postings[token] = this.postings[token] || []).push(docIndex);
+    });
+
+    this.documents.push({ result, tokenWeights });
+  }
+
+  // Alle Index-Tokens, die mit prefix beginnen (binäre Suche im sortierten Vokabular)
+  private tokensWithPrefix(prefix: string): string[] {
+    let low = 0;
+    let high = this.sortedTokens.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.sortedTokens[mid] < prefix) low = mid + 1;
+      else high = mid;
+    }
+
+    const matches: string[] = [];
+    for (let i = low; i < this.sortedTokens.length && this.sortedTokens[i].indexOf(prefix) === 0; i++) {
+      matches.push(this.sortedTokens[i]);
+    }
+    return matches;
+  }
+
+  // Treffer eines Suchworts: Dokument -> beste Punktzahl
+  private matchToken(queryToken: string): { [docIndex: number]: number } {
+    const scores: { [docIndex: number]: number } = {};
+    const addMatches = (token: string, matchScore: number) => {
+      (this.postings[token] || []).forEach(docIndex => {
+        const score = matchScore * this.documents[docIndex].tokenWeights[token];
+        if (score > (scores[docIndex] || 0)) scores[docIndex] = score;
+      });
+    };
+
+    this.tokensWithPrefix(queryToken).forEach(token => {
+      addMatches(token, token === queryToken ? EXACT_SCORE : PREFIX_SCORE);
+    });
+
+    const maxEdits = maxEditsFor(queryToken);
+    if (maxEdits > 0) {
+      this.sortedTokens.forEach(token => {
+        // Tippfehler im bereits getippten Wortanfang zulassen ("Schmitt" findet "Schmidtke")
+        const candidate = token.length > queryToken.length + maxEdits
+          ? token.substring(0, queryToken.length)
+          : token;
+        if (withinEditDistance(queryToken, candidate, maxEdits)) addMatches(token, FUZZY_SCORE);
+      });
+    }
+
+    return scores;
+  }
+
+  // Alle Suchwörter müssen treffen (UND-Verknüpfung)
+  search(query: string, limit = 20, types?: SearchResultType[]): SearchResult[] {
+    const queryTokens = tokenize(normalizeSearchText(query));
+    if (queryTokens.length === 0) return [];
+
+    let totals: { [docIndex: number]: number } | null = null;
+
+    for (const queryToken of queryTokens) {
+      const scores = this.matchToken(queryToken);
+      const next: { [docIndex: number]: number } = {};
+
+      Object.keys(scores).forEach(key => {
+        const docIndex = Number(key);
+        if (totals === null || totals[docIndex] !== undefined) {
+          next[docIndex] = (totals ? totals[docIndex] : 0) + scores[docIndex];
+        }
+      });
+
+      totals = next;
+      if (Object.keys(totals).length === 0) return [];
+    }
+
+    const finalTotals = totals || {};
+    return Object.keys(finalTotals)
+      .map(key => ({ ...this.documents[Number(key)].result, score: finalTotals[Number(key)] }) as SearchResult)
+      .filter(result => !types || types.indexOf(result.type) !== -1)
+      .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title, 'de', { numeric: true }))
+      .slice(0, limit);
+  }
+}
+
+// ================================================================
+// AKTUALISIERUNG
+// ================================================================
+
+let currentIndex: SearchIndex | null = null;
+let building: Promise<SearchIndex> | null = null;
+let rebuildRequested = false;
+let subscribedToChanges = false;
+const indexListeners: (() => void)[] = [];
+
+async function buildIndex(): Promise<SearchIndex> {
+  await offlineDB.init();
+
+  if (!subscribedToChanges) {
+    subscribedToChanges = true;
+    offlineDB.subscribe(STORES, () => {
+      requestRebuild().catch(error => console.error('Search index rebuild failed:', error));
+    });
+  }
+
+  try {
+    const [customers, doors, sites] = await Promise.all([
+      offlineDB.getAllCustomers(),
+      offlineDB.getAllDoors(),
+      offlineDB.getAllSites()
+    ]);
+
+    currentIndex = new SearchIndex(customers, doors, sites);
+  } finally {
+    building = null;
+  }
+
+  // Während des Aufbaus geschrieben (z.B. storeDoors im Download) - nochmal
+  if (rebuildRequested) {
+    rebuildRequested = false;
+    return requestRebuild();
+  }
+
+  indexListeners.forEach(listener => listener());
+  return currentIndex;
+}
+
+function requestRebuild(): Promise<SearchIndex> {
+  if (building) {
+    rebuildRequested = true;
+    return building;
+  }
+
+  building = buildIndex();
+  return building;
+}
+
+// Bis zum Neuaufbau bleibt der alte Index nutzbar
+export function getSearchIndex(): Promise<SearchIndex> {
+  return currentIndex ? Promise.resolve(currentIndex) : requestRebuild();
+}
+
+// Benachrichtigt nach jedem Neuaufbau, damit offene Suchen aktualisieren
+export function subscribeToSearchIndex(listener: () => void): () => void {
+  indexListeners.push(listener);
+
+  return () => {
+    const position = indexListeners.indexOf(listener);
+    if (position !== -1) indexListeners.splice(position, 1);
+  };
+}
+
+export type { SearchIndex, SearchResult, SearchResultType };
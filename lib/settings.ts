@@ -0,0 +1,43 @@
+// 🔧 InspecDoor Geräte-Einstellungen - localStorage pro Tablet
+// Nur kleine Präferenzen; Fachdaten liegen immer in IndexedDB
+
+import type { DownloadScope } from './db/offlineDB';
+
+const INSPECTOR_NAME_KEY = 'inspecdoor_inspector_name';
+const DOWNLOAD_SCOPE_KEY = 'inspecdoor_download_scope';
+
+function readJSON<T>(key: string, fallback: T): T {
+  if (typeof window === 'undefined') return fallback;
+
+  try {
+    const value = localStorage.getItem(key);
+    return value ? JSON.parse(value) as T : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// ================================================================
+// PRÜFER
+// ================================================================
+
+export function getInspectorName(): string {
+  if (typeof window === 'undefined') return '';
+  return localStorage.getItem(INSPECTOR_NAME_KEY) || '';
+}
+
+export function setInspectorName(name: string): void {
+  localStorage.setItem(INSPECTOR_NAME_KEY, name);
+}
+
+// ================================================================
+// DOWNLOAD-UMFANG
+// ================================================================
+
+export function getDownloadScope(): DownloadScope {
+  return readJSON<DownloadScope>(DOWNLOAD_SCOPE_KEY, { mode: 'full' });
+}
+
+export function setDownloadScope(scope: DownloadScope): void {
+  localStorage.setItem(DOWNLOAD_SCOPE_KEY, JSON.stringify(scope));
+}
@@ -0,0 +1,64 @@
+// 🔧 InspecDoor Unterschrift - Striche zeichnen und als PNG speichern
+// Punkte sind relativ zur Feldgröße (0..1) wie bei den Foto-Anmerkungen,
+// damit die Unterschrift unabhängig von der Bildschirmgröße gleich aussieht.
+
+import { canvasToBlob, createCanvas } from '../photos/imageProcessing';
+import type { AnnotationPoint } from '../db/offlineDB';
+
+type SignatureStroke = AnnotationPoint[];
+type DrawingContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Seitenverhältnis 3:1 - passt in den Unterschriftsblock des Prüfberichts
+export const SIGNATURE_WIDTH = 1200;
+export const SIGNATURE_HEIGHT = 400;
+
+const INK_COLOR = '#111827';
+
+export function drawSignatureStrokes(
+  context: DrawingContext,
+  strokes: SignatureStroke[],
+  width: number,
+  height: number
+): void {
+  context.strokeStyle = INK_COLOR;
+  context.fillStyle = INK_COLOR;
+  context.lineWidth = Math.max(2, height / 90);
+  context.lineCap = 'round';
+  context.lineJoin = 'round';
+
+  strokes.forEach(stroke => {
+    if (stroke.length === 1) {
+      // Einzelner Punkt (i-Punkt, Tippen)
+      context.beginPath();
+      context.arc(stroke[0].x * width, stroke[0].y * height, context.lineWidth / 2, 0, Math.PI * 2);
+      context.fill();
+      return;
+    }
+
+    // Quadratische Kurven durch die Mittelpunkte - glatter als gerade Segmente
+    context.beginPath();
+    context.moveTo(stroke[0].x * width, stroke[0].y * height);
+    for (let i = 1; i < stroke.length - 1; i++) {
+      const midX = (stroke[i].x + stroke[i + 1].x) / 2;
+      const midY = (stroke[i].y + stroke[i + 1].y) / 2;
+      context.quadraticCurveTo(stroke[i].x * width, stroke[i].y * height, midX * width, midY * height);
+    }
+    const last = stroke[stroke.length - 1];
+    context.lineTo(last.x * width, last.y * height);
+    context.stroke();
+  });
+}
+
+export async function renderSignatureImage(strokes: SignatureStroke[]): Promise<Blob> {
+  const canvas = createCanvas(SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas wird nicht unterstützt');
+  }
+
+  drawSignatureStrokes(context, strokes, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  return await canvasToBlob(canvas, 'image/png', 1);
+}
+
+export type { SignatureStroke };
@@ -1,3 +1,26 @@
+const crypto = require('crypto')
+const fs = require('fs')
+const path = require('path')
+
+// 🔧 App-Shell für den Precache: Startseite plus alle Dateien aus public/
+// (offline.html, Manifest, Icons, Logos) - neue Revision bei jedem Build
+const shellRevision = crypto.randomUUID()
+const publicFiles = fs.readdirSync(path.join(__dirname, 'public'))
+  .filter(file => !/^(sw\.js|workbox-|swe-worker-)/.test(file))
+
+// 🔧 Service Worker aus app/sw.ts - Precache der App-Shell, Offline-Fallback, Background Sync
+const withSerwist = require('@serwist/next').default({
+  swSrc: 'app/sw.ts',
+  swDest: 'public/sw.js',
+  additionalPrecacheEntries: [
+    { url: '/', revision: shellRevision },
+    ...publicFiles.map(file => ({ url: `/${file}`, revision: shellRevision })),
+  ],
+  // Kein Reload beim Wiederverbinden - sonst gehen offene Prüfformulare verloren
+  reloadOnOnline: false,
+  disable: process.env.NODE_ENV === 'development',
+})
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   output: 'standalone',
@@ -59,5 +82,5 @@ const nextConfig = {
   },
 }
 
-module.exports = nextConfig
+module.exports = withSerwist(nextConfig)
 // 🔧 InspecDoor Outdoor - Tablet-optimierte PWA-Konfiguration